@@ -1,8 +1,11 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useState } from 'react';
-import { StyleSheet, Pressable, Alert } from 'react-native';
+import { StyleSheet, Pressable, Alert, TextInput } from 'react-native';
 import { SharedCacheService } from '@/services/sharedCacheService';
 import { BlacklistService } from '@/services/blacklistService';
+import { SwipeHistoryService } from '@/services/swipeHistoryService';
+import { SettingsService } from '@/services/settingsService';
+import { UsageMeterService, UsageSummary } from '@/services/usageMeterService';
 
 import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { ThemedText } from '@/components/themed-text';
@@ -20,6 +23,8 @@ export default function DebugScreen() {
   const [blacklistStats, setBlacklistStats] = useState<any>(null);
   const [isLoadingBlacklist, setIsLoadingBlacklist] = useState(false);
   const [showBulkImageManager, setShowBulkImageManager] = useState(false);
+  const [apiUsage, setApiUsage] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState({ daily: '', monthly: '' });
   const colorScheme = useColorScheme();
 
   const clearCache = async () => {
@@ -55,6 +60,20 @@ export default function DebugScreen() {
     }
   };
 
+  const clearSwipeHistory = async () => {
+    try {
+      await SwipeHistoryService.clearHistory();
+      Alert.alert(
+        'Swipe History Cleared',
+        'Every restaurant you passed or matched can show up in the deck again.',
+        [{ text: 'OK' }]
+      );
+    } catch (error) {
+      console.error('Error clearing swipe history:', error);
+      Alert.alert('Error', 'Failed to clear swipe history. Please try again.', [{ text: 'OK' }]);
+    }
+  };
+
   const loadCacheStats = async () => {
     try {
       setIsLoadingStats(true);
@@ -68,6 +87,37 @@ export default function DebugScreen() {
     }
   };
 
+  const loadApiUsage = async () => {
+    try {
+      const [usage, settings] = await Promise.all([UsageMeterService.getUsage(), SettingsService.loadSettings()]);
+      setApiUsage(usage);
+      setBudget({
+        daily: String(settings.dailyRequestBudget),
+        monthly: String(settings.monthlyRequestBudget),
+      });
+    } catch (error) {
+      console.error('Error loading API usage:', error);
+      Alert.alert('Error', 'Failed to load API usage');
+    }
+  };
+
+  const saveBudget = async () => {
+    const daily = parseInt(budget.daily, 10);
+    const monthly = parseInt(budget.monthly, 10);
+    if (!(daily > 0) || !(monthly > 0)) {
+      Alert.alert('Invalid Budget', 'Budgets must be whole numbers above zero.');
+      return;
+    }
+
+    try {
+      const settings = await SettingsService.loadSettings();
+      await SettingsService.saveSettings({ ...settings, dailyRequestBudget: daily, monthlyRequestBudget: monthly });
+    } catch (error) {
+      console.error('Error saving request budget:', error);
+      Alert.alert('Error', 'Failed to save the request budget');
+    }
+  };
+
   const loadBlacklistStats = async () => {
     try {
       setIsLoadingBlacklist(true);
@@ -135,6 +185,33 @@ export default function DebugScreen() {
         </Pressable>
       </ThemedView>
 
+      <ThemedView style={styles.section}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          Swipe History
+        </ThemedText>
+        <ThemedText style={styles.sectionDescription}>
+          Passes stay out of the deck for 14 days and matches for 90. Clear the history to see every restaurant again.
+        </ThemedText>
+
+        <Pressable
+          style={[
+            styles.button,
+            { backgroundColor: Colors[colorScheme ?? 'light'].tint }
+          ]}
+          onPress={clearSwipeHistory}
+        >
+          <IconSymbol
+            name="trash.fill"
+            size={20}
+            color={colorScheme === 'dark' ? '#000000' : '#FFFFFF'}
+            style={styles.buttonIcon}
+          />
+          <ThemedText style={[styles.buttonText, { color: colorScheme === 'dark' ? '#000000' : '#FFFFFF' }]}>
+            Clear Swipe History
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+
       <ThemedView style={styles.section}>
         <ThemedText type="subtitle" style={styles.sectionTitle}>
           Shared Cache Statistics
@@ -178,6 +255,70 @@ export default function DebugScreen() {
         )}
       </ThemedView>
 
+      <ThemedView style={styles.section}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          API Usage
+        </ThemedText>
+        <ThemedText style={styles.sectionDescription}>
+          Place provider requests made from this device. Wide searches skip their extra offset searches once the budget is used up.
+        </ThemedText>
+
+        <Pressable
+          style={[
+            styles.button,
+            { backgroundColor: Colors[colorScheme ?? 'light'].tint }
+          ]}
+          onPress={loadApiUsage}
+        >
+          <IconSymbol
+            name="chart.bar.fill"
+            size={20}
+            color={colorScheme === 'dark' ? '#000000' : '#FFFFFF'}
+            style={styles.buttonIcon}
+          />
+          <ThemedText style={[styles.buttonText, { color: colorScheme === 'dark' ? '#000000' : '#FFFFFF' }]}>
+            Load API Usage
+          </ThemedText>
+        </Pressable>
+
+        {apiUsage && (
+          <ThemedView style={styles.statsContainer}>
+            <ThemedText style={styles.statText}>
+              Today: {apiUsage.today} / {budget.daily}
+            </ThemedText>
+            <ThemedText style={styles.statText}>
+              This Month: {apiUsage.thisMonth} / {budget.monthly}
+            </ThemedText>
+            {Object.entries(apiUsage.monthByEndpoint).map(([endpoint, count]) => (
+              <ThemedText key={endpoint} style={styles.statText}>
+                {endpoint}: {apiUsage.todayByEndpoint[endpoint] || 0} today, {count} this month
+              </ThemedText>
+            ))}
+
+            <ThemedView style={styles.budgetRow}>
+              <ThemedText style={styles.statText}>Daily budget</ThemedText>
+              <TextInput
+                style={[styles.budgetInput, { color: Colors[colorScheme ?? 'light'].text }]}
+                value={budget.daily}
+                onChangeText={(daily) => setBudget((current) => ({ ...current, daily }))}
+                onEndEditing={saveBudget}
+                keyboardType="number-pad"
+              />
+            </ThemedView>
+            <ThemedView style={styles.budgetRow}>
+              <ThemedText style={styles.statText}>Monthly budget</ThemedText>
+              <TextInput
+                style={[styles.budgetInput, { color: Colors[colorScheme ?? 'light'].text }]}
+                value={budget.monthly}
+                onChangeText={(monthly) => setBudget((current) => ({ ...current, monthly }))}
+                onEndEditing={saveBudget}
+                keyboardType="number-pad"
+              />
+            </ThemedView>
+          </ThemedView>
+        )}
+      </ThemedView>
+
       <ThemedView style={styles.section}>
         <ThemedText type="subtitle" style={styles.sectionTitle}>
           Restaurant Blacklist
@@ -322,4 +463,21 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     fontFamily: 'monospace',
   },
+  budgetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    backgroundColor: 'transparent',
+  },
+  budgetInput: {
+    minWidth: 80,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#999',
+    textAlign: 'right',
+    fontFamily: 'monospace',
+  },
 });
@@ -0,0 +1,22 @@
+import { FavoritesScreen } from '@/screens/FavoritesScreen';
+import { useIsFocused } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+
+export default function FavoritesTab() {
+  const router = useRouter();
+  const isFocused = useIsFocused();
+
+  const navigation = {
+    navigate: (screen: string, params?: any) => {
+      if (screen === 'RestaurantDetail') {
+        router.push({
+          pathname: '/restaurant-detail',
+          params: { restaurantData: JSON.stringify(params.restaurant) }
+        });
+      }
+    },
+    goBack: () => router.back(),
+  };
+
+  return <FavoritesScreen navigation={navigation} isFocused={isFocused} />;
+}
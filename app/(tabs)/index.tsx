@@ -14,6 +14,13 @@ export default function HomeScreen() {
         });
       } else if (screen === 'Settings') {
         router.push('/settings');
+      } else if (screen === 'GroupSession') {
+        router.push('/group-session');
+      } else if (screen === 'PassAndPlayResults') {
+        router.push({
+          pathname: '/pass-and-play-results',
+          params: { resultsData: JSON.stringify(params) }
+        });
       }
     },
     goBack: () => router.back(),
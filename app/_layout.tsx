@@ -23,6 +23,20 @@ export default function RootLayout() {
             presentation: 'card'
           }}
         />
+        <Stack.Screen
+          name="group-session"
+          options={{
+            headerShown: false,
+            presentation: 'card'
+          }}
+        />
+        <Stack.Screen
+          name="pass-and-play-results"
+          options={{
+            headerShown: false,
+            presentation: 'card'
+          }}
+        />
         <Stack.Screen
           name="settings"
           options={{
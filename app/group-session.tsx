@@ -0,0 +1,20 @@
+import { GroupSessionScreen } from '@/screens/GroupSessionScreen';
+import { useRouter } from 'expo-router';
+
+export default function GroupSessionRoute() {
+  const router = useRouter();
+
+  const navigation = {
+    navigate: (screen: string, params?: any) => {
+      if (screen === 'RestaurantDetail') {
+        router.push({
+          pathname: '/restaurant-detail',
+          params: { restaurantData: JSON.stringify(params.restaurant) }
+        });
+      }
+    },
+    goBack: () => router.back(),
+  };
+
+  return <GroupSessionScreen navigation={navigation} />;
+}
@@ -0,0 +1,33 @@
+import { PassAndPlayResultsScreen } from '@/screens/PassAndPlayResultsScreen';
+import { PassAndPlayResult } from '@/services/passAndPlayService';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+export default function PassAndPlayResultsRoute() {
+  const { resultsData } = useLocalSearchParams();
+  const router = useRouter();
+
+  const { players, results }: { players: string[]; results: PassAndPlayResult[] } = JSON.parse(
+    resultsData as string
+  );
+
+  const navigation = {
+    navigate: (screen: string, params?: any) => {
+      if (screen === 'RestaurantDetail') {
+        router.push({
+          pathname: '/restaurant-detail',
+          params: { restaurantData: JSON.stringify(params.restaurant) }
+        });
+      }
+    },
+    goBack: () => router.back(),
+  };
+
+  const route = {
+    params: {
+      players,
+      results,
+    },
+  };
+
+  return <PassAndPlayResultsScreen route={route} navigation={navigation} />;
+}
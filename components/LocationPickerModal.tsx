@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { LocationService } from '../services/locationService';
+import { GeocodingResult } from '../services/geocoder';
+import { SavedPlace, SavedPlacesService, SelectedLocation } from '../services/savedPlacesService';
+
+interface LocationPickerModalProps {
+  visible: boolean;
+  selectedLocation: SelectedLocation | null; // null = GPS
+  onClose: () => void;
+  onSelect: (location: SelectedLocation | null) => void;
+}
+
+export const LocationPickerModal: React.FC<LocationPickerModalProps> = ({
+  visible,
+  selectedLocation,
+  onClose,
+  onSelect,
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodingResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [pendingResult, setPendingResult] = useState<GeocodingResult | null>(null);
+  const [placeName, setPlaceName] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setQuery('');
+    setResults([]);
+    setHasSearched(false);
+    setPendingResult(null);
+    setPlaceName('');
+    SavedPlacesService.getSavedPlaces().then(setSavedPlaces);
+  }, [visible]);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setPendingResult(null);
+    try {
+      setResults(await LocationService.searchAddress(query));
+    } finally {
+      setIsSearching(false);
+      setHasSearched(true);
+    }
+  };
+
+  const handleUseResult = (result: GeocodingResult) => {
+    onSelect({
+      name: result.name,
+      address: result.address,
+      latitude: result.latitude,
+      longitude: result.longitude,
+    });
+  };
+
+  const handleSaveResult = async () => {
+    if (!pendingResult || !placeName.trim()) return;
+
+    try {
+      const place = await SavedPlacesService.savePlace(placeName, pendingResult);
+      onSelect(SavedPlacesService.toSelectedLocation(place));
+    } catch (error) {
+      console.error('Error saving place:', error);
+      Alert.alert('Error', 'Failed to save this place. Please try again.');
+    }
+  };
+
+  const handleRemovePlace = async (place: SavedPlace) => {
+    await SavedPlacesService.removePlace(place.id);
+    setSavedPlaces((prev) => prev.filter((saved) => saved.id !== place.id));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Search From</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity
+            style={[styles.row, selectedLocation === null && styles.rowSelected]}
+            onPress={() => onSelect(null)}
+          >
+            <Text style={styles.rowTitle}>📍 My current location</Text>
+            <Text style={styles.rowSubtitle}>Use GPS</Text>
+          </TouchableOpacity>
+
+          {savedPlaces.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Saved places</Text>
+              {savedPlaces.map((place) => (
+                <View
+                  key={place.id}
+                  style={[
+                    styles.row,
+                    styles.savedRow,
+                    selectedLocation?.savedPlaceId === place.id && styles.rowSelected,
+                  ]}
+                >
+                  <TouchableOpacity
+                    style={styles.savedRowContent}
+                    onPress={() => onSelect(SavedPlacesService.toSelectedLocation(place))}
+                  >
+                    <Text style={styles.rowTitle}>⭐ {place.name}</Text>
+                    {place.address ? (
+                      <Text style={styles.rowSubtitle} numberOfLines={1}>{place.address}</Text>
+                    ) : null}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleRemovePlace(place)}
+                    style={styles.removeButton}
+                    accessibilityLabel={`Remove ${place.name}`}
+                  >
+                    <Text style={styles.removeText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>Search an address or city</Text>
+          <View style={styles.searchRow}>
+            <TextInput
+              style={styles.input}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="e.g. 1 Market St, San Francisco"
+              placeholderTextColor="#999"
+              returnKeyType="search"
+              onSubmitEditing={handleSearch}
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={[styles.searchButton, !query.trim() && styles.searchButtonDisabled]}
+              onPress={handleSearch}
+              disabled={!query.trim() || isSearching}
+            >
+              {isSearching ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.searchButtonText}>Search</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {hasSearched && !isSearching && results.length === 0 && (
+            <Text style={styles.emptyText}>No places found. Try a different address.</Text>
+          )}
+
+          {results.map((result, index) => {
+            const isPending = pendingResult === result;
+            return (
+              <View key={`${result.latitude},${result.longitude},${index}`} style={styles.row}>
+                <Text style={styles.rowTitle}>{result.name}</Text>
+                <Text style={styles.rowSubtitle} numberOfLines={2}>{result.address}</Text>
+                <View style={styles.resultActions}>
+                  <TouchableOpacity onPress={() => handleUseResult(result)}>
+                    <Text style={styles.actionText}>Search here</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => {
+                      setPendingResult(isPending ? null : result);
+                      setPlaceName('');
+                    }}
+                  >
+                    <Text style={styles.actionText}>☆ Save…</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {isPending && (
+                  <View style={styles.searchRow}>
+                    <TextInput
+                      style={styles.input}
+                      value={placeName}
+                      onChangeText={setPlaceName}
+                      placeholder='Name, e.g. "Office"'
+                      placeholderTextColor="#999"
+                      autoFocus
+                      returnKeyType="done"
+                      onSubmitEditing={handleSaveResult}
+                    />
+                    <TouchableOpacity
+                      style={[styles.searchButton, !placeName.trim() && styles.searchButtonDisabled]}
+                      onPress={handleSaveResult}
+                      disabled={!placeName.trim()}
+                    >
+                      <Text style={styles.searchButtonText}>Save</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerButton: {
+    minWidth: 60,
+    paddingVertical: 8,
+  },
+  cancelText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  row: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: '#f9f9f9',
+  },
+  rowSelected: {
+    borderColor: '#4ECDC4',
+    borderWidth: 2,
+  },
+  savedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  savedRowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  rowSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  removeButton: {
+    marginLeft: 10,
+    padding: 8,
+  },
+  removeText: {
+    color: '#c62828',
+    fontSize: 18,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  searchButton: {
+    marginLeft: 10,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  searchButtonDisabled: {
+    opacity: 0.4,
+  },
+  searchButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  resultActions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 8,
+  },
+  actionText: {
+    color: '#007AFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { MIN_PASS_AND_PLAY_PLAYERS } from '../services/passAndPlayService';
+
+interface PassAndPlaySetupModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onStart: (playerNames: string[]) => void;
+}
+
+export const PassAndPlaySetupModal: React.FC<PassAndPlaySetupModalProps> = ({
+  visible,
+  onClose,
+  onStart,
+}) => {
+  const [playerNames, setPlayerNames] = useState<string[]>(['', '']);
+
+  const namedPlayers = playerNames.filter((name) => name.trim());
+  const canStart = namedPlayers.length >= MIN_PASS_AND_PLAY_PLAYERS;
+
+  const updateName = (index: number, name: string) => {
+    setPlayerNames((prev) => prev.map((value, i) => (i === index ? name : value)));
+  };
+
+  const removePlayer = (index: number) => {
+    setPlayerNames((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleStart = () => {
+    if (!canStart) return;
+    onStart(namedPlayers);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Pass &amp; Play</Text>
+          <TouchableOpacity
+            onPress={handleStart}
+            style={[styles.headerButton, !canStart && styles.headerButtonDisabled]}
+            disabled={!canStart}
+          >
+            <Text style={styles.startText}>Start</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            Everyone takes a turn swiping the same restaurants on this phone. When the last player is
+            done, you&apos;ll see which places the group agrees on.
+          </Text>
+
+          {playerNames.map((name, index) => (
+            <View key={index} style={styles.playerRow}>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={(value) => updateName(index, value)}
+                placeholder={`Player ${index + 1}`}
+                placeholderTextColor="#999"
+                returnKeyType="next"
+              />
+              {playerNames.length > MIN_PASS_AND_PLAY_PLAYERS && (
+                <TouchableOpacity
+                  onPress={() => removePlayer(index)}
+                  style={styles.removeButton}
+                  accessibilityLabel={`Remove player ${index + 1}`}
+                >
+                  <Text style={styles.removeText}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          <TouchableOpacity
+            onPress={() => setPlayerNames((prev) => [...prev, ''])}
+            style={styles.addButton}
+          >
+            <Text style={styles.addText}>+ Add player</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
+  cancelText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  startText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  content: {
+    padding: 20,
+  },
+  description: {
+    fontSize: 15,
+    color: '#555',
+    lineHeight: 21,
+    marginBottom: 20,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  removeButton: {
+    marginLeft: 10,
+    padding: 8,
+  },
+  removeText: {
+    color: '#c62828',
+    fontSize: 18,
+  },
+  addButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  addText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -7,11 +7,13 @@ import {
   ImageBackground,
 } from 'react-native';
 import { Restaurant } from '../types/restaurant';
-import { LocationCoordinates, LocationService } from '../services/locationService';
+import { LocationCoordinates, LocationResult, LocationService } from '../services/locationService';
+import { OpeningHoursService } from '../services/openingHoursService';
+import { describeCuisine } from '../constants/cuisines';
 
 interface RestaurantCardProps {
   restaurant: Restaurant;
-  currentLocation?: LocationCoordinates;
+  currentLocation?: LocationCoordinates | LocationResult;
 }
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -33,6 +35,14 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
     return LocationService.calculateDistance(currentLocation, restaurantLocation);
   };
 
+  const openingStatus = OpeningHoursService.getRestaurantStatus(restaurant);
+
+  // Distances are only as good as the position they're measured from
+  const locationDescription =
+    currentLocation && 'source' in currentLocation
+      ? LocationService.describeLocation(currentLocation)
+      : null;
+
   const renderStars = (rating: number) => {
     const stars = [];
     const fullStars = Math.floor(rating);
@@ -64,13 +74,13 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
 
         {/* Top section with status indicator */}
         <View style={styles.topSection}>
-          {restaurant.isOpen !== undefined && (
+          {openingStatus && (
             <View style={[
               styles.statusBadge,
-              { backgroundColor: restaurant.isOpen ? '#4CAF50' : '#F44336' }
+              { backgroundColor: openingStatus.isOpen ? '#4CAF50' : '#F44336' }
             ]}>
               <Text style={styles.statusText}>
-                {restaurant.isOpen ? 'Open' : 'Closed'}
+                {OpeningHoursService.formatStatus(openingStatus)}
               </Text>
             </View>
           )}
@@ -80,13 +90,21 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
         <View style={styles.bottomSection}>
           <View style={styles.mainInfo}>
             <Text style={styles.name}>{restaurant.name}</Text>
-            <Text style={styles.cuisine}>{restaurant.cuisine}</Text>
+            <Text style={styles.cuisine}>
+              {describeCuisine(restaurant.cuisine, restaurant.cuisineConfidence)}
+            </Text>
           </View>
 
           <View style={styles.details}>
             <View style={styles.ratingContainer}>
-              <Text style={styles.stars}>{renderStars(restaurant.rating)}</Text>
-              <Text style={styles.rating}>{restaurant.rating.toFixed(1)}</Text>
+              {restaurant.rating !== undefined ? (
+                <>
+                  <Text style={styles.stars}>{renderStars(restaurant.rating)}</Text>
+                  <Text style={styles.rating}>{restaurant.rating.toFixed(1)}</Text>
+                </>
+              ) : (
+                <Text style={styles.noRating}>No rating yet</Text>
+              )}
             </View>
 
             <View style={styles.distanceContainer}>
@@ -96,6 +114,10 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
               )}
             </View>
           </View>
+
+          {locationDescription && (
+            <Text style={styles.locationFreshness}>📍 {locationDescription}</Text>
+          )}
         </View>
       </ImageBackground>
     </View>
@@ -189,6 +211,11 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  noRating: {
+    fontSize: 14,
+    color: '#ccc',
+    fontStyle: 'italic',
+  },
   distanceContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -204,4 +231,9 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: 'bold',
   },
+  locationFreshness: {
+    fontSize: 12,
+    color: '#ccc',
+    marginTop: 10,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, Easing, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Restaurant } from '../types/restaurant';
+import { describeCuisine } from '../constants/cuisines';
+
+interface RouletteModalProps {
+  visible: boolean;
+  reel: Restaurant[]; // The last entry is the pick
+  onComplete: (restaurant: Restaurant) => void;
+  onCancel: () => void;
+}
+
+// The reel starts fast and slows down towards the pick
+const FIRST_TICK_MS = 60;
+const LAST_TICK_MS = 380;
+// How long the pick stays on screen before opening its details
+const LANDED_PAUSE_MS = 900;
+
+export const RouletteModal: React.FC<RouletteModalProps> = ({
+  visible,
+  reel,
+  onComplete,
+  onCancel,
+}) => {
+  const [position, setPosition] = useState(0);
+  const [hasLanded, setHasLanded] = useState(false);
+  const roll = useRef(new Animated.Value(0));
+  // Read the latest callback when the reel lands without restarting the spin
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  useEffect(() => {
+    if (!visible || reel.length === 0) return;
+
+    setPosition(0);
+    setHasLanded(false);
+
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = (index: number) => {
+      setPosition(index);
+      roll.current.setValue(-1);
+      Animated.timing(roll.current, {
+        toValue: 0,
+        duration: FIRST_TICK_MS,
+        easing: Easing.out(Easing.quad),
+        useNativeDriver: true,
+      }).start();
+
+      if (index === reel.length - 1) {
+        setHasLanded(true);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        timer = setTimeout(() => onCompleteRef.current(reel[index]), LANDED_PAUSE_MS);
+        return;
+      }
+
+      Haptics.selectionAsync();
+      const progress = index / (reel.length - 1);
+      const delay = FIRST_TICK_MS + (LAST_TICK_MS - FIRST_TICK_MS) * progress * progress;
+      timer = setTimeout(() => tick(index + 1), delay);
+    };
+
+    tick(0);
+    return () => clearTimeout(timer);
+  }, [visible, reel]);
+
+  const current = reel[position];
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.panel}>
+          <Text style={styles.title}>{hasLanded ? 'Tonight you\'re eating at' : 'Picking for you...'}</Text>
+
+          <View style={[styles.window, hasLanded && styles.windowLanded]}>
+            {current && (
+              <Animated.View
+                style={{
+                  transform: [
+                    { translateY: roll.current.interpolate({ inputRange: [-1, 0], outputRange: [-40, 0] }) },
+                  ],
+                }}
+              >
+                <Text style={styles.name} numberOfLines={2}>
+                  {current.name}
+                </Text>
+                <Text style={styles.cuisine} numberOfLines={1}>
+                  {describeCuisine(current.cuisine, current.cuisineConfidence)}
+                </Text>
+              </Animated.View>
+            )}
+          </View>
+
+          {!hasLanded && (
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  panel: {
+    width: '100%',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    color: '#ccc',
+    marginBottom: 20,
+  },
+  window: {
+    width: '100%',
+    height: 110,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: '#444',
+    backgroundColor: '#1a1a1a',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    overflow: 'hidden',
+  },
+  windowLanded: {
+    borderColor: '#4ECDC4',
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  cuisine: {
+    fontSize: 14,
+    color: '#4ECDC4',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  cancelButton: {
+    marginTop: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  cancelText: {
+    color: '#999',
+    fontSize: 16,
+  },
+});
@@ -11,6 +11,7 @@ import { RestaurantCard } from "../RestaurantCard";
 jest.mock("../../services/locationService", () => ({
   LocationService: {
     calculateDistance: jest.fn().mockReturnValue(0), // Default return value
+    describeLocation: jest.fn().mockReturnValue("Last known position · 12 min ago"),
   },
 }));
 
@@ -197,4 +198,61 @@ describe("RestaurantCard", () => {
 
     expect(getByText("4.5")).toBeTruthy();
   });
+
+  it("shows a placeholder instead of stars when there is no rating", () => {
+    const { rating, ...restaurantWithoutRating } = mockRestaurant;
+    const { getByText, queryByText } = render(
+      <RestaurantCard
+        restaurant={restaurantWithoutRating}
+        currentLocation={mockLocation}
+      />
+    );
+
+    expect(getByText("No rating yet")).toBeTruthy();
+    expect(queryByText("☆☆☆☆☆")).toBeNull();
+  });
+
+  it("shows a countdown when the parsed schedule closes soon", () => {
+    jest.useFakeTimers({ now: new Date("2025-10-15T16:00:00Z") });
+    const restaurantWithSchedule: Restaurant = {
+      ...mockRestaurant,
+      hours: "Mo-Su 10:00-16:40",
+      openingHours: {
+        weekly: Array.from({ length: 7 }, () => [{ start: 600, end: 1000 }]),
+      },
+      timezone: {
+        name: "UTC",
+        offsetStdSeconds: 0,
+        offsetDstSeconds: 0,
+      },
+    };
+
+    const { getByText } = render(
+      <RestaurantCard
+        restaurant={restaurantWithSchedule}
+        currentLocation={mockLocation}
+      />
+    );
+
+    expect(getByText("Closes in 40 min")).toBeTruthy();
+    jest.useRealTimers();
+  });
+
+  it("shows how fresh the position behind the distance is", () => {
+    const { getByText, queryByText, rerender } = render(
+      <RestaurantCard restaurant={mockRestaurant} currentLocation={mockLocation} />
+    );
+    expect(queryByText(/min ago/)).toBeNull();
+
+    rerender(
+      <RestaurantCard
+        restaurant={mockRestaurant}
+        currentLocation={{ ...mockLocation, source: "last_known", accuracy: null, timestamp: Date.now() }}
+      />
+    );
+    expect(getByText("📍 Last known position · 12 min ago")).toBeTruthy();
+    expect(mockLocationService.describeLocation).toHaveBeenCalledWith(
+      expect.objectContaining({ source: "last_known" })
+    );
+  });
 });
@@ -0,0 +1,156 @@
+/**
+ * Cuisine vocabulary shared by restaurant classification and user preferences.
+ */
+
+import { CuisineConfidence } from "../types/restaurant";
+
+// Maps OSM cuisine tag values to display cuisines
+export const CUISINE_NORMALIZATION_MAP: { [key: string]: string } = {
+  chinese: "Chinese",
+  italian: "Italian",
+  japanese: "Japanese",
+  mexican: "Mexican",
+  indian: "Indian",
+  french: "French",
+  thai: "Thai",
+  korean: "Korean",
+  vietnamese: "Vietnamese",
+  mediterranean: "Mediterranean",
+  greek: "Greek",
+  spanish: "Spanish",
+  tapas: "Spanish",
+  turkish: "Turkish",
+  kebab: "Turkish",
+  american: "American",
+  burger: "American",
+  barbecue: "American",
+  bbq: "American",
+  steak_house: "American",
+  seafood: "Seafood",
+  fish: "Seafood",
+  pizza: "Pizza",
+  sushi: "Japanese",
+  ramen: "Japanese",
+  coffee_shop: "Coffee_shop",
+  bubble_tea: "Bubble_tea",
+  ice_cream: "Ice_cream",
+  vegetarian: "Vegetarian",
+  vegan: "Vegetarian",
+};
+
+export interface CuisineKeywordRule {
+  cuisine: string;
+  priority: number; // Lower wins when a name matches several rules
+  keywords: string[]; // Whole words or phrases, matched without accents
+}
+
+// Priority tiers for name keywords
+const DISH = 1; // Dishes and cuisine names: "sushi", "taqueria"
+const PLACE = 2; // Cities and cultural hints: "tokyo", "trattoria"
+const VENUE = 3; // Generic venue types: "grill", "cafe"
+
+// Restaurant name keywords that hint at a cuisine
+export const CUISINE_KEYWORDS: CuisineKeywordRule[] = [
+  { cuisine: "Pizza", priority: DISH, keywords: ["pizza", "pizzeria", "pizzas"] },
+  {
+    cuisine: "Italian",
+    priority: DISH,
+    keywords: ["pasta", "italian", "italiano", "italiana", "gelato", "risotto"],
+  },
+  { cuisine: "Italian", priority: PLACE, keywords: ["trattoria", "osteria", "ristorante", "enoteca"] },
+  {
+    cuisine: "Chinese",
+    priority: DISH,
+    keywords: ["chinese", "dim sum", "dumpling", "dumplings", "wok", "szechuan", "sichuan", "hunan", "cantonese"],
+  },
+  { cuisine: "Chinese", priority: PLACE, keywords: ["china", "beijing", "shanghai", "canton"] },
+  {
+    cuisine: "Japanese",
+    priority: DISH,
+    keywords: ["sushi", "ramen", "izakaya", "hibachi", "teriyaki", "udon", "yakitori", "japanese"],
+  },
+  { cuisine: "Japanese", priority: PLACE, keywords: ["tokyo", "osaka", "kyoto", "sakura"] },
+  { cuisine: "Korean", priority: DISH, keywords: ["korean", "bibimbap", "bulgogi", "kimchi"] },
+  { cuisine: "Korean", priority: PLACE, keywords: ["seoul"] },
+  { cuisine: "Vietnamese", priority: DISH, keywords: ["vietnamese", "pho", "banh mi"] },
+  { cuisine: "Vietnamese", priority: PLACE, keywords: ["saigon", "hanoi"] },
+  { cuisine: "Thai", priority: DISH, keywords: ["thai", "pad thai", "tom yum"] },
+  { cuisine: "Thai", priority: PLACE, keywords: ["bangkok", "siam"] },
+  {
+    cuisine: "Indian",
+    priority: DISH,
+    keywords: ["indian", "curry", "tandoor", "tandoori", "masala", "biryani", "tikka", "dosa"],
+  },
+  { cuisine: "Indian", priority: PLACE, keywords: ["bombay", "mumbai", "delhi", "punjab", "malabar", "taj"] },
+  {
+    cuisine: "Mexican",
+    priority: DISH,
+    keywords: ["mexican", "taco", "tacos", "taqueria", "burrito", "burritos", "tortilla", "tortilleria", "cantina"],
+  },
+  { cuisine: "Turkish", priority: DISH, keywords: ["turkish", "kebab", "kebap", "doner", "kabab"] },
+  { cuisine: "Turkish", priority: PLACE, keywords: ["istanbul", "anatolia"] },
+  { cuisine: "Mediterranean", priority: DISH, keywords: ["mediterranean", "shawarma", "falafel", "hummus"] },
+  { cuisine: "Greek", priority: DISH, keywords: ["greek", "gyro", "gyros", "souvlaki"] },
+  { cuisine: "Greek", priority: PLACE, keywords: ["taverna", "athens"] },
+  { cuisine: "Spanish", priority: DISH, keywords: ["tapas", "paella", "spanish"] },
+  { cuisine: "French", priority: DISH, keywords: ["french", "creperie", "crepes", "boulangerie"] },
+  { cuisine: "French", priority: PLACE, keywords: ["bistro", "brasserie", "paris"] },
+  { cuisine: "Seafood", priority: DISH, keywords: ["seafood", "oyster", "oysters", "fish", "lobster", "crab"] },
+  {
+    cuisine: "American",
+    priority: DISH,
+    keywords: ["burger", "burgers", "bbq", "barbecue", "smokehouse", "steakhouse", "wings"],
+  },
+  { cuisine: "Bubble_tea", priority: DISH, keywords: ["bubble tea", "boba"] },
+  { cuisine: "Ice_cream", priority: DISH, keywords: ["ice cream", "creamery", "gelateria"] },
+  { cuisine: "Coffee_shop", priority: DISH, keywords: ["coffee", "espresso", "roasters", "kaffee"] },
+  { cuisine: "Vegetarian", priority: DISH, keywords: ["vegetarian", "vegan", "plant based"] },
+  { cuisine: "American", priority: VENUE, keywords: ["diner", "grill", "eatery"] },
+  { cuisine: "Cafe", priority: VENUE, keywords: ["cafe", "caffe", "bakery", "tea room"] },
+  { cuisine: "Bar & Grill", priority: VENUE, keywords: ["lounge"] },
+];
+
+// Geoapify categories that imply a cuisine when nothing more specific is known
+export const CATEGORY_CUISINES: { [category: string]: string } = {
+  "catering.fast_food": "Fast Food",
+  "catering.cafe": "Cafe",
+  "catering.bar": "Bar & Grill",
+};
+
+// Stable labels for places without a known cuisine
+export const GENERIC_RESTAURANT_CUISINE = "Restaurant";
+export const UNKNOWN_CUISINE = "Unknown";
+
+// Every cuisine the app can assign, sorted for display
+export const CUISINE_VOCABULARY: string[] = Array.from(
+  new Set([
+    ...Object.values(CUISINE_NORMALIZATION_MAP),
+    ...CUISINE_KEYWORDS.map((rule) => rule.cuisine),
+    ...Object.values(CATEGORY_CUISINES),
+  ])
+).sort();
+
+/**
+ * Display label for a cuisine, e.g. "Coffee_shop" -> "Coffee shop"
+ */
+export const formatCuisineLabel = (cuisine: string): string => cuisine.replace(/_/g, " ");
+
+/**
+ * Cuisine text for cards, flagging guesses so users know how far to trust them.
+ * `suffix` is appended to the label, e.g. " Cuisine" -> "Thai Cuisine (guessed)".
+ */
+export const describeCuisine = (
+  cuisine: string,
+  confidence?: CuisineConfidence,
+  suffix: string = ""
+): string => {
+  switch (confidence) {
+    case "unknown":
+      return "Cuisine not listed";
+    case "name":
+    case "category":
+      return `${formatCuisineLabel(cuisine)}${suffix} (guessed)`;
+    default:
+      return `${formatCuisineLabel(cuisine)}${suffix}`;
+  }
+};
@@ -66,6 +66,8 @@ jest.mock("expo-location", () => ({
       coords: { latitude: 37.7749, longitude: -122.4194 },
     })
   ),
+  getLastKnownPositionAsync: jest.fn(() => Promise.resolve(null)),
+  watchPositionAsync: jest.fn(() => Promise.resolve({ remove: jest.fn() })),
   Accuracy: {
     Balanced: 3,
     High: 4,
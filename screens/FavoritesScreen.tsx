@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FavoriteRestaurant, FavoriteSortOrder, FavoritesService } from '../services/favoritesService';
+import { LocationCoordinates, LocationService } from '../services/locationService';
+import { describeCuisine } from '../constants/cuisines';
+
+const SORT_OPTIONS: { value: FavoriteSortOrder; label: string }[] = [
+  { value: 'recent', label: 'Recent' },
+  { value: 'name', label: 'Name' },
+  { value: 'distance', label: 'Distance' },
+];
+
+interface FavoritesScreenProps {
+  navigation: any;
+  isFocused?: boolean; // Reload when the tab comes back into view
+}
+
+export const FavoritesScreen: React.FC<FavoritesScreenProps> = ({ navigation, isFocused = true }) => {
+  const [favorites, setFavorites] = useState<FavoriteRestaurant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sortOrder, setSortOrder] = useState<FavoriteSortOrder>('recent');
+  const [query, setQuery] = useState('');
+  const [currentLocation, setCurrentLocation] = useState<LocationCoordinates | null>(null);
+
+  useEffect(() => {
+    if (isFocused) {
+      loadFavorites();
+    }
+  }, [isFocused]);
+
+  useEffect(() => {
+    const getCurrentLocation = async () => {
+      try {
+        const location = await LocationService.getCurrentLocation();
+        if (location) {
+          setCurrentLocation(location);
+        }
+      } catch (error) {
+        console.error('Error getting current location:', error);
+      }
+    };
+
+    getCurrentLocation();
+  }, []);
+
+  const loadFavorites = async () => {
+    try {
+      setFavorites(await FavoritesService.syncFavorites());
+    } catch (error) {
+      console.error('Error loading favorites:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = async (restaurantId: string) => {
+    try {
+      await FavoritesService.removeFavorite(restaurantId);
+      setFavorites((prev) => prev.filter((item) => item.restaurant.id !== restaurantId));
+    } catch (error) {
+      console.error('Error removing favorite:', error);
+    }
+  };
+
+  const visibleFavorites = useMemo(
+    () =>
+      FavoritesService.sortFavorites(
+        FavoritesService.searchFavorites(favorites, query),
+        sortOrder,
+        currentLocation
+      ),
+    [favorites, query, sortOrder, currentLocation]
+  );
+
+  const renderFavorite = ({ item }: { item: FavoriteRestaurant }) => {
+    const { restaurant } = item;
+    const origin = currentLocation || item.location;
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => navigation.navigate('RestaurantDetail', { restaurant })}
+      >
+        <Image source={{ uri: restaurant.image }} style={styles.thumbnail} />
+        <View style={styles.rowContent}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{restaurant.name}</Text>
+          <Text style={styles.rowSubtitle} numberOfLines={1}>
+            {describeCuisine(restaurant.cuisine, restaurant.cuisineConfidence)}
+            {origin ? ` • ${LocationService.calculateDistance(origin, restaurant).toFixed(1)} km` : ''}
+          </Text>
+          <Text style={styles.rowMeta}>
+            Matched {new Date(item.favoritedAt).toLocaleDateString()}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.removeButton}
+          onPress={() => handleRemove(restaurant.id)}
+          accessibilityLabel={`Remove ${restaurant.name} from favorites`}
+        >
+          <Text style={styles.removeButtonText}>♥</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#1a1a1a" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Favorites</Text>
+        <Text style={styles.headerSubtitle}>Every restaurant you swiped right on</Text>
+      </View>
+
+      <View style={styles.controls}>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search by name, cuisine or address"
+          placeholderTextColor="#777"
+          autoCorrect={false}
+        />
+        <View style={styles.chipRow}>
+          {SORT_OPTIONS.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, sortOrder === value && styles.chipSelected]}
+              onPress={() => setSortOrder(value)}
+            >
+              <Text style={[styles.chipText, sortOrder === value && styles.chipTextSelected]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Loading favorites...</Text>
+        </View>
+      ) : visibleFavorites.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>
+            {favorites.length === 0 ? 'No matches yet' : 'No favorites match your search'}
+          </Text>
+          {favorites.length === 0 && (
+            <Text style={styles.emptySubtext}>Swipe right on a restaurant to save it here</Text>
+          )}
+        </View>
+      ) : (
+        <FlatList
+          data={visibleFavorites}
+          keyExtractor={(item) => item.restaurant.id}
+          renderItem={renderFavorite}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#999',
+  },
+  controls: {
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+    gap: 10,
+  },
+  searchInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#333',
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  chipSelected: {
+    backgroundColor: '#4ECDC4',
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#1a1a1a',
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#333',
+  },
+  rowContent: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  rowSubtitle: {
+    fontSize: 14,
+    color: '#ccc',
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#777',
+    marginTop: 4,
+  },
+  removeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeButtonText: {
+    color: '#FF6B6B',
+    fontSize: 20,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+});
@@ -0,0 +1,452 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Swiper from 'react-native-deck-swiper';
+import * as Haptics from 'expo-haptics';
+import { RestaurantCard } from '../components/RestaurantCard';
+import {
+  GroupParticipant,
+  GroupSession,
+  GroupSessionService,
+  GroupSessionState,
+} from '../services/groupSessionService';
+import { LocationCoordinates, LocationService } from '../services/locationService';
+import { SettingsService } from '../services/settingsService';
+import { SavedPlacesService } from '../services/savedPlacesService';
+import { PlaceProviderError } from '../services/placeProviderError';
+
+const QUORUM_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Everyone' },
+  { value: 2, label: '2 people' },
+  { value: 3, label: '3 people' },
+];
+
+interface GroupSessionScreenProps {
+  navigation: any;
+}
+
+export const GroupSessionScreen: React.FC<GroupSessionScreenProps> = ({ navigation }) => {
+  const [name, setName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [quorum, setQuorum] = useState<number | null>(null);
+  const [isAvailable, setIsAvailable] = useState(GroupSessionService.isAvailable());
+  const [isBusy, setIsBusy] = useState(false);
+  const [participant, setParticipant] = useState<GroupParticipant | null>(null);
+  const [session, setSession] = useState<GroupSession | null>(null);
+  const [sessionState, setSessionState] = useState<GroupSessionState | null>(null);
+  const [cardIndex, setCardIndex] = useState(0);
+  const [currentLocation, setCurrentLocation] = useState<LocationCoordinates | null>(null);
+
+  // Follow the room once we're in one
+  useEffect(() => {
+    if (!session) return;
+
+    return GroupSessionService.watchSession(session.code, {
+      onState: setSessionState,
+      onMatch: (match) => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert(
+          "It's a group match! 🎉",
+          `${match.likes} of you swiped right on ${match.restaurant.name}.`,
+          [
+            { text: 'Keep swiping', style: 'cancel' },
+            {
+              text: 'View',
+              onPress: () => navigation.navigate('RestaurantDetail', { restaurant: match.restaurant }),
+            },
+          ]
+        );
+      },
+    });
+  }, [session]);
+
+  const startSession = async (mode: 'create' | 'join') => {
+    if (!name.trim()) {
+      Alert.alert('Add your name', 'Your group sees it next to your swipes.');
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      const member = participant || GroupSessionService.createParticipant(name);
+      let joined: GroupSession;
+
+      if (mode === 'create') {
+        const location = await LocationService.getSearchLocation();
+        if (!location) {
+          throw new Error('Unable to get your location. Please enable location services.');
+        }
+        setCurrentLocation(location);
+
+        const settings = await SavedPlacesService.getSearchSettings();
+        joined = await GroupSessionService.createSession(
+          member,
+          location,
+          SettingsService.kmToMeters(settings.maxRadius),
+          {
+            quorum,
+            deckOptions: {
+              availability: settings.availability,
+              cuisinePreferences: settings.cuisinePreferences,
+              ordering: settings.deckOrdering,
+            },
+          }
+        );
+      } else {
+        joined = await GroupSessionService.joinSession(joinCode, member);
+        setCurrentLocation(await LocationService.getCurrentLocation());
+      }
+
+      setParticipant(member);
+      setCardIndex(0);
+      setSession(joined);
+    } catch (error) {
+      console.error('Error starting group session:', error);
+      const message =
+        error instanceof PlaceProviderError
+          ? error.userMessage
+          : error instanceof Error
+            ? error.message
+            : 'Something went wrong.';
+      Alert.alert('Group session', message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startLocalRoom = () => {
+    GroupSessionService.setBackendOverride(GroupSessionService.createLocalBackend());
+    setIsAvailable(true);
+  };
+
+  const onSwiped = (index: number, liked: boolean) => {
+    setCardIndex(index + 1);
+    if (!session || !participant) return;
+
+    const restaurant = session.restaurants[index];
+    GroupSessionService.recordSwipe(session.code, participant.id, restaurant.id, liked).catch((error) =>
+      console.error('Error syncing group swipe:', error)
+    );
+  };
+
+  const leaveSession = () => {
+    setSession(null);
+    setSessionState(null);
+  };
+
+  const renderSetup = () => (
+    <View style={styles.content}>
+      {!isAvailable ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Supabase not configured</Text>
+          <Text style={styles.sectionDescription}>
+            Group sessions sync through Supabase. See SUPABASE_SETUP.md, or try a room that only lives on this device.
+          </Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={startLocalRoom}>
+            <Text style={styles.secondaryButtonText}>Use a local test room</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Your name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Sam"
+              placeholderTextColor="#777"
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Start a room</Text>
+            <Text style={styles.sectionDescription}>
+              Everyone swipes the same restaurants. Pick how many right swipes make a match.
+            </Text>
+            <View style={styles.chipRow}>
+              {QUORUM_OPTIONS.map(({ value, label }) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.chip, quorum === value && styles.chipSelected]}
+                  onPress={() => setQuorum(value)}
+                >
+                  <Text style={[styles.chipText, quorum === value && styles.chipTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+              onPress={() => startSession('create')}
+              disabled={isBusy}
+            >
+              <Text style={styles.primaryButtonText}>Create room</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Join a room</Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              value={joinCode}
+              onChangeText={setJoinCode}
+              placeholder="ROOM CODE"
+              placeholderTextColor="#777"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, (isBusy || !joinCode.trim()) && styles.buttonDisabled]}
+              onPress={() => startSession('join')}
+              disabled={isBusy || !joinCode.trim()}
+            >
+              <Text style={styles.primaryButtonText}>Join</Text>
+            </TouchableOpacity>
+          </View>
+
+          {isBusy && <ActivityIndicator size="large" color="#4ECDC4" />}
+        </>
+      )}
+    </View>
+  );
+
+  const renderSession = (activeSession: GroupSession) => {
+    const members = sessionState?.participants ?? [];
+    const matches = sessionState?.matches ?? [];
+
+    return (
+      <View style={styles.sessionContainer}>
+        <View style={styles.roomBanner}>
+          <View>
+            <Text style={styles.roomLabel}>Room code</Text>
+            <Text style={styles.roomCode}>{activeSession.code}</Text>
+          </View>
+          <View style={styles.roomStats}>
+            <Text style={styles.roomStat}>
+              {members.length} {members.length === 1 ? 'member' : 'members'}
+            </Text>
+            <Text style={styles.roomStat}>
+              {matches.length} {matches.length === 1 ? 'match' : 'matches'}
+            </Text>
+          </View>
+        </View>
+
+        {cardIndex < activeSession.restaurants.length ? (
+          <View style={styles.swiperContainer}>
+            <Swiper
+              cards={activeSession.restaurants}
+              renderCard={(restaurant) =>
+                restaurant ? (
+                  <RestaurantCard restaurant={restaurant} currentLocation={currentLocation ?? undefined} />
+                ) : null
+              }
+              onSwipedLeft={(index) => onSwiped(index, false)}
+              onSwipedRight={(index) => onSwiped(index, true)}
+              cardIndex={cardIndex}
+              backgroundColor="transparent"
+              stackSize={3}
+              disableBottomSwipe
+              disableTopSwipe
+              verticalSwipe={false}
+              cardVerticalMargin={0}
+              marginTop={0}
+              marginBottom={0}
+            />
+          </View>
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>You're done swiping</Text>
+            <Text style={styles.sectionDescription}>
+              {matches.length > 0
+                ? `Your group matched on ${matches.map((match) => match.restaurant.name).join(', ')}.`
+                : 'No matches yet. Waiting for the others to finish.'}
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#1a1a1a" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={session ? leaveSession : () => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Group Session</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {session ? renderSession(session) : renderSetup()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40, // Same as back button for centering
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    marginBottom: 20,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 15,
+    lineHeight: 20,
+  },
+  input: {
+    backgroundColor: '#333',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 16,
+  },
+  codeInput: {
+    letterSpacing: 4,
+    marginBottom: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#333',
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  chipSelected: {
+    backgroundColor: '#4ECDC4',
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#1a1a1a',
+    fontWeight: '600',
+  },
+  primaryButton: {
+    backgroundColor: '#4ECDC4',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a1a',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    backgroundColor: '#333',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#4ECDC4',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  sessionContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  roomBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+  },
+  roomLabel: {
+    fontSize: 12,
+    color: '#999',
+  },
+  roomCode: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#4ECDC4',
+    letterSpacing: 4,
+  },
+  roomStats: {
+    alignItems: 'flex-end',
+  },
+  roomStat: {
+    fontSize: 14,
+    color: '#ccc',
+  },
+  swiperContainer: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,195 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  FlatList,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { PassAndPlayResult } from '../services/passAndPlayService';
+import { describeCuisine } from '../constants/cuisines';
+
+interface PassAndPlayResultsScreenProps {
+  route: {
+    params: {
+      players: string[];
+      results: PassAndPlayResult[];
+    };
+  };
+  navigation: any;
+}
+
+export const PassAndPlayResultsScreen: React.FC<PassAndPlayResultsScreenProps> = ({
+  route,
+  navigation,
+}) => {
+  const { players, results } = route.params;
+  const winner = results.find((result) => result.likes > 0);
+
+  const renderResult = ({ item, index }: { item: PassAndPlayResult; index: number }) => (
+    <TouchableOpacity
+      style={[styles.row, item === winner && styles.winnerRow]}
+      onPress={() => navigation.navigate('RestaurantDetail', { restaurant: item.restaurant })}
+    >
+      <Text style={styles.rank}>{index + 1}</Text>
+      <View style={styles.rowContent}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{item.restaurant.name}</Text>
+        <Text style={styles.rowSubtitle} numberOfLines={1}>
+          {describeCuisine(item.restaurant.cuisine, item.restaurant.cuisineConfidence)}
+          {item.distance !== null ? ` • ${item.distance.toFixed(1)} km` : ''}
+        </Text>
+        <Text style={styles.rowMeta} numberOfLines={2}>
+          {item.likedBy.length > 0 ? `Liked by ${item.likedBy.join(', ')}` : 'Nobody liked this one'}
+        </Text>
+        <View style={styles.scoreTrack}>
+          <View style={[styles.scoreFill, { width: `${Math.round(item.score * 100)}%` }]} />
+        </View>
+      </View>
+      <Text style={styles.score}>
+        {item.likes}/{players.length}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#1a1a1a" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Results</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.summary}>
+        <Text style={styles.summaryTitle}>
+          {winner ? `${winner.restaurant.name} wins! 🎉` : 'No agreement this time'}
+        </Text>
+        <Text style={styles.summaryText}>
+          {winner
+            ? `${winner.likes} of ${players.length} players swiped right.`
+            : 'Nobody swiped right. Try another round with more restaurants.'}
+        </Text>
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.restaurant.id}
+        renderItem={renderResult}
+        contentContainerStyle={styles.listContent}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40, // Same as back button for centering
+  },
+  summary: {
+    padding: 20,
+  },
+  summaryTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#4ECDC4',
+    marginBottom: 6,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  winnerRow: {
+    borderWidth: 2,
+    borderColor: '#4ECDC4',
+  },
+  rank: {
+    width: 28,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#999',
+  },
+  rowContent: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  rowSubtitle: {
+    fontSize: 14,
+    color: '#ccc',
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#777',
+    marginTop: 4,
+  },
+  scoreTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#333',
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  scoreFill: {
+    height: 4,
+    backgroundColor: '#4ECDC4',
+  },
+  score: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4ECDC4',
+  },
+});
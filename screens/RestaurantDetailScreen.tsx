@@ -18,6 +18,8 @@ import { Restaurant } from '../types/restaurant';
 import { RestaurantService } from '../services/restaurantService';
 import { LocationCoordinates, LocationService } from '../services/locationService';
 import { SettingsService } from '../services/settingsService';
+import { OpeningHoursService } from '../services/openingHoursService';
+import { describeCuisine } from '../constants/cuisines';
 import { ImageUploadModal } from '../components/ImageUploadModal';
 import { BlacklistService } from '../services/blacklistService';
 
@@ -41,11 +43,11 @@ export const RestaurantDetailScreen: React.FC<RestaurantDetailScreenProps> = ({
   const [currentLocation, setCurrentLocation] = useState<LocationCoordinates | null>(null);
   const [isImageModalVisible, setIsImageModalVisible] = useState(false);
 
-  // Get current location when component mounts
+  // Get the search location when component mounts; image updates are cached under it
   useEffect(() => {
     const getCurrentLocation = async () => {
       try {
-        const location = await LocationService.getCurrentLocation();
+        const location = await LocationService.getSearchLocation();
         if (location) {
           setCurrentLocation(location);
         }
@@ -64,7 +66,7 @@ export const RestaurantDetailScreen: React.FC<RestaurantDetailScreenProps> = ({
       if (!restaurant.phoneNumber || !restaurant.address) {
         setIsLoadingDetails(true);
         try {
-          const detailedRestaurant = await RestaurantService.fetchRestaurantDetails(restaurant.id, currentLocation || undefined);
+          const detailedRestaurant = await RestaurantService.fetchRestaurantDetails(restaurant.id);
           if (detailedRestaurant) {
             // Merge detailed data with existing data, preserving coordinates and other computed fields
             setRestaurant(prev => ({
@@ -72,6 +74,8 @@ export const RestaurantDetailScreen: React.FC<RestaurantDetailScreenProps> = ({
               address: detailedRestaurant.address || prev.address,
               phoneNumber: detailedRestaurant.phoneNumber || prev.phoneNumber,
               hours: detailedRestaurant.hours || prev.hours,
+              openingHours: detailedRestaurant.openingHours || prev.openingHours,
+              timezone: detailedRestaurant.timezone || prev.timezone,
             }));
           }
         } catch (error) {
@@ -85,6 +89,8 @@ export const RestaurantDetailScreen: React.FC<RestaurantDetailScreenProps> = ({
     fetchDetails();
   }, [restaurant.id, restaurant.phoneNumber, restaurant.address, currentLocation]);
 
+  const openingStatus = OpeningHoursService.getRestaurantStatus(restaurant);
+
   const calculateDistance = (): number => {
     if (!currentLocation) {
       return 0; // Default fallback
@@ -307,13 +313,15 @@ export const RestaurantDetailScreen: React.FC<RestaurantDetailScreenProps> = ({
           </TouchableOpacity>
 
           {/* Status Badge */}
-          {restaurant.isOpen !== undefined && (
+          {openingStatus && (
             <View style={[
               styles.statusBadge,
-              { backgroundColor: restaurant.isOpen ? '#4CAF50' : '#F44336' }
+              { backgroundColor: openingStatus.isOpen ? '#4CAF50' : '#F44336' }
             ]}>
               <Text style={styles.statusText}>
-                {restaurant.isOpen ? 'Open Now' : 'Closed'}
+                {openingStatus.nextChange
+                  ? OpeningHoursService.formatStatus(openingStatus)
+                  : openingStatus.isOpen ? 'Open Now' : 'Closed'}
               </Text>
             </View>
           )}
@@ -324,12 +332,24 @@ export const RestaurantDetailScreen: React.FC<RestaurantDetailScreenProps> = ({
           {/* Restaurant Name and Basic Info */}
           <View style={styles.headerSection}>
             <Text style={styles.restaurantName}>{restaurant.name}</Text>
-            <Text style={styles.cuisine}>{restaurant.cuisine} Cuisine</Text>
+            <Text style={styles.cuisine}>
+              {describeCuisine(
+                (restaurant.cuisines || [restaurant.cuisine]).join(', '),
+                restaurant.cuisineConfidence,
+                ' Cuisine'
+              )}
+            </Text>
 
             <View style={styles.quickInfo}>
               <View style={styles.ratingContainer}>
-                <Text style={styles.stars}>{renderStars(restaurant.rating)}</Text>
-                <Text style={styles.ratingText}>{restaurant.rating.toFixed(1)} rating</Text>
+                {restaurant.rating !== undefined ? (
+                  <>
+                    <Text style={styles.stars}>{renderStars(restaurant.rating)}</Text>
+                    <Text style={styles.ratingText}>{restaurant.rating.toFixed(1)} rating</Text>
+                  </>
+                ) : (
+                  <Text style={styles.ratingText}>No rating yet</Text>
+                )}
               </View>
 
               <View style={styles.distanceContainer}>
@@ -376,12 +396,30 @@ export const RestaurantDetailScreen: React.FC<RestaurantDetailScreenProps> = ({
               </TouchableOpacity>
             )}
 
-            {restaurant.hours && (
+            {restaurant.openingHours ? (
+              <View style={styles.contactItem}>
+                <Text style={styles.contactLabel}>Hours</Text>
+                {OpeningHoursService.formatWeeklySchedule(restaurant.openingHours).map(({ day, hours }) => (
+                  <View key={day} style={styles.hoursRow}>
+                    <Text style={styles.hoursDay}>{day}</Text>
+                    <Text style={styles.hoursValue}>{hours}</Text>
+                  </View>
+                ))}
+                {restaurant.openingHours.publicHolidays && (
+                  <View style={styles.hoursRow}>
+                    <Text style={styles.hoursDay}>Holidays</Text>
+                    <Text style={styles.hoursValue}>
+                      {OpeningHoursService.formatSpans(restaurant.openingHours.publicHolidays)}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            ) : restaurant.hours ? (
               <View style={styles.contactItem}>
                 <Text style={styles.contactLabel}>Hours</Text>
                 <Text style={styles.contactValue}>{restaurant.hours}</Text>
               </View>
-            )}
+            ) : null}
           </View>
 
           {/* Action Buttons */}
@@ -586,6 +624,22 @@ const styles = StyleSheet.create({
     color: '#4ECDC4',
     fontStyle: 'italic',
   },
+  hoursRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  hoursDay: {
+    fontSize: 15,
+    color: '#ccc',
+    width: 80,
+  },
+  hoursValue: {
+    flex: 1,
+    fontSize: 15,
+    color: '#fff',
+    textAlign: 'right',
+  },
   actionSection: {
     marginBottom: 25,
   },
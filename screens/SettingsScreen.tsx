@@ -6,11 +6,67 @@ import {
   StatusBar,
   TouchableOpacity,
   Alert,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Slider from '@react-native-community/slider';
-import { SettingsService, AppSettings, DEFAULT_SETTINGS } from '../services/settingsService';
+import {
+  SettingsService,
+  AppSettings,
+  DEFAULT_SETTINGS,
+  FollowLocationMode,
+} from '../services/settingsService';
+import {
+  AvailabilityFilter,
+  AvailabilityMode,
+  OpeningHoursService,
+  UnknownHoursHandling,
+} from '../services/openingHoursService';
+import {
+  CuisinePreferenceList,
+  CuisinePreferenceService,
+} from '../services/cuisinePreferenceService';
+import { CUISINE_VOCABULARY, formatCuisineLabel } from '../constants/cuisines';
+import { PlaceProviderService } from '../services/placeProvider';
+import { DeckOrdering } from '../services/deckOrderingService';
+import { PlaceSettings, SavedPlace, SavedPlacesService } from '../services/savedPlacesService';
+
+const AVAILABILITY_MODES: { value: AvailabilityMode; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'open_now', label: 'Open now' },
+  { value: 'open_at', label: 'Open at…' },
+  { value: 'open_for', label: 'Open for…' },
+];
+
+const CUISINE_LISTS: { value: CuisinePreferenceList; label: string; color: string }[] = [
+  { value: 'include', label: 'Only show', color: '#4ECDC4' },
+  { value: 'boost', label: 'Boost', color: '#FFD700' },
+  { value: 'exclude', label: 'Hide', color: '#FF6B6B' },
+];
+
+const GUESSED_CUISINE_OPTIONS: { value: boolean; label: string }[] = [
+  { value: true, label: 'Count as matches' },
+  { value: false, label: 'Tagged cuisines only' },
+];
+
+const DECK_ORDERINGS: { value: DeckOrdering; label: string; description: string }[] = [
+  { value: 'random', label: 'Random', description: 'Shuffled. Wide searches start with nearby restaurants and mix farther ones in as they load' },
+  { value: 'nearest', label: 'Nearest first', description: 'Closest restaurants first, farther ones later' },
+  { value: 'distance_weighted', label: 'Mostly nearby', description: 'Random, but closer restaurants tend to come up sooner' },
+  { value: 'ring_interleaved', label: 'Mix of distances', description: 'Alternates between near, middle and far restaurants, as farther ones load' },
+];
 
+const FOLLOW_LOCATION_MODES: { value: FollowLocationMode; label: string; description: string }[] = [
+  { value: 'ask', label: 'Ask first', description: 'Offer to update the deck when you have moved' },
+  { value: 'auto', label: 'Update automatically', description: 'Quietly add restaurants that come into range and drop ones that fall out' },
+  { value: 'off', label: 'Off', description: 'Keep the deck where it was built' },
+];
+
+const UNKNOWN_HOURS_OPTIONS: { value: UnknownHoursHandling; label: string }[] = [
+  { value: 'include', label: 'Mix in' },
+  { value: 'last', label: 'Show last' },
+  { value: 'exclude', label: 'Hide' },
+];
 interface SettingsScreenProps {
   navigation: any;
 }
@@ -18,6 +74,13 @@ interface SettingsScreenProps {
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
+  const [activeCuisineList, setActiveCuisineList] = useState<CuisinePreferenceList>('include');
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [editingPlaceId, setEditingPlaceId] = useState<string | null>(null); // null = app-wide settings
+
+  // Radius, deck order and cuisines as they apply to the place being edited
+  const editingPlace = savedPlaces.find((place) => place.id === editingPlaceId) || null;
+  const effectiveSettings = SavedPlacesService.applyPlaceSettings(settings, editingPlace);
 
   // Load settings when component mounts
   useEffect(() => {
@@ -26,8 +89,12 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
 
   const loadSettings = async () => {
     try {
-      const loadedSettings = await SettingsService.loadSettings();
+      const [loadedSettings, loadedPlaces] = await Promise.all([
+        SettingsService.loadSettings(),
+        SavedPlacesService.getSavedPlaces(),
+      ]);
       setSettings(loadedSettings);
+      setSavedPlaces(loadedPlaces);
     } catch (error) {
       console.error('Error loading settings:', error);
     } finally {
@@ -45,11 +112,66 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     }
   };
 
+  // Save to the place being edited, or to the app settings
+  const savePlaceSettings = async (changes: PlaceSettings) => {
+    if (!editingPlace) {
+      saveSettings({ ...settings, ...changes });
+      return;
+    }
+
+    try {
+      const updatedPlace = await SavedPlacesService.updatePlaceSettings(editingPlace.id, changes);
+      if (updatedPlace) {
+        setSavedPlaces((prev) => prev.map((place) => (place.id === updatedPlace.id ? updatedPlace : place)));
+      }
+    } catch (error) {
+      console.error('Error saving place settings:', error);
+      Alert.alert('Error', 'Failed to save settings. Please try again.');
+    }
+  };
+
+  const resetPlaceSettings = async (place: SavedPlace) => {
+    const updatedPlace = await SavedPlacesService.updatePlaceSettings(place.id, null);
+    if (updatedPlace) {
+      setSavedPlaces((prev) => prev.map((saved) => (saved.id === updatedPlace.id ? updatedPlace : saved)));
+    }
+  };
+
   const handleRadiusChange = (value: number) => {
-    const newSettings = { ...settings, maxRadius: value };
+    savePlaceSettings({ maxRadius: value });
+  };
+
+  const handleAvailabilityChange = (changes: Partial<AvailabilityFilter>) => {
+    const newSettings = {
+      ...settings,
+      availability: { ...settings.availability, ...changes },
+    };
     saveSettings(newSettings);
   };
 
+  const handleCuisineToggle = (cuisine: string) => {
+    savePlaceSettings({
+      cuisinePreferences: CuisinePreferenceService.toggleCuisine(
+        effectiveSettings.cuisinePreferences,
+        activeCuisineList,
+        cuisine
+      ),
+    });
+  };
+
+  const handleMatchGuessedCuisinesChange = (matchGuessedCuisines: boolean) => {
+    savePlaceSettings({
+      cuisinePreferences: { ...effectiveSettings.cuisinePreferences, matchGuessedCuisines },
+    });
+  };
+
+  const getCuisineChipColor = (cuisine: string): string | null => {
+    const list = CUISINE_LISTS.find(({ value }) =>
+      effectiveSettings.cuisinePreferences[value].includes(cuisine)
+    );
+    return list ? list.color : null;
+  };
+
   const resetSettings = () => {
     Alert.alert(
       'Reset Settings',
@@ -97,7 +219,38 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
       </View>
 
       {/* Content */}
-      <View style={styles.content}>
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        {/* Saved place being edited */}
+        {savedPlaces.length > 0 && (
+          <View style={styles.settingSection}>
+            <Text style={styles.sectionTitle}>Settings For</Text>
+            <Text style={styles.sectionDescription}>
+              Saved places can have their own radius, deck order and cuisines. Opening hours and data source apply everywhere.
+            </Text>
+            <View style={styles.chipRow}>
+              {[null, ...savedPlaces].map((place) => {
+                const isSelected = (place?.id || null) === editingPlaceId;
+                return (
+                  <TouchableOpacity
+                    key={place?.id || 'all'}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setEditingPlaceId(place?.id || null)}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {place ? `⭐ ${place.name}` : 'All places'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {editingPlace?.settings && (
+              <TouchableOpacity onPress={() => resetPlaceSettings(editingPlace)}>
+                <Text style={styles.linkText}>Use app settings for {editingPlace.name}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Maximum Radius Setting */}
         <View style={styles.settingSection}>
           <Text style={styles.sectionTitle}>Search Radius</Text>
@@ -108,7 +261,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
           <View style={styles.sliderContainer}>
             <View style={styles.sliderLabelContainer}>
               <Text style={styles.sliderLabel}>1 km</Text>
-              <Text style={styles.currentValue}>{settings.maxRadius.toFixed(1)} km</Text>
+              <Text style={styles.currentValue}>{effectiveSettings.maxRadius.toFixed(1)} km</Text>
               <Text style={styles.sliderLabel}>30 km</Text>
             </View>
 
@@ -116,7 +269,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
               style={styles.slider}
               minimumValue={1}
               maximumValue={30}
-              value={settings.maxRadius}
+              value={effectiveSettings.maxRadius}
               onValueChange={handleRadiusChange}
               minimumTrackTintColor="#4ECDC4"
               maximumTrackTintColor="#666"
@@ -131,11 +284,225 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
           </View>
         </View>
 
+        {/* Deck Ordering */}
+        <View style={styles.settingSection}>
+          <Text style={styles.sectionTitle}>Deck Order</Text>
+          <Text style={styles.sectionDescription}>
+            {DECK_ORDERINGS.find(({ value }) => value === effectiveSettings.deckOrdering)?.description}
+          </Text>
+          <View style={styles.chipRow}>
+            {DECK_ORDERINGS.map(({ value, label }) => {
+              const isSelected = effectiveSettings.deckOrdering === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => savePlaceSettings({ deckOrdering: value })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Following the user's location */}
+        <View style={styles.settingSection}>
+          <Text style={styles.sectionTitle}>When You Move</Text>
+          <Text style={styles.sectionDescription}>
+            {FOLLOW_LOCATION_MODES.find(({ value }) => value === settings.followLocation)?.description}
+          </Text>
+          <View style={styles.chipRow}>
+            {FOLLOW_LOCATION_MODES.map(({ value, label }) => {
+              const isSelected = settings.followLocation === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => saveSettings({ ...settings, followLocation: value })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Opening Hours Filter */}
+        <View style={styles.settingSection}>
+          <Text style={styles.sectionTitle}>Opening Hours</Text>
+          <Text style={styles.sectionDescription}>
+            Only show restaurants that are open when you want to eat
+          </Text>
+
+          <View style={styles.chipRow}>
+            {AVAILABILITY_MODES.map(({ value, label }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, settings.availability.mode === value && styles.chipSelected]}
+                onPress={() => handleAvailabilityChange({ mode: value })}
+              >
+                <Text style={[styles.chipText, settings.availability.mode === value && styles.chipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {settings.availability.mode === 'open_at' && (
+            <View style={styles.sliderContainer}>
+              <View style={styles.sliderLabelContainer}>
+                <Text style={styles.sliderLabel}>12:00 AM</Text>
+                <Text style={styles.currentValue}>
+                  {OpeningHoursService.formatTime(settings.availability.openAtMinutes)}
+                </Text>
+                <Text style={styles.sliderLabel}>11:30 PM</Text>
+              </View>
+              <Slider
+                style={styles.slider}
+                minimumValue={0}
+                maximumValue={23.5 * 60}
+                value={settings.availability.openAtMinutes}
+                onValueChange={(value) => handleAvailabilityChange({ openAtMinutes: value })}
+                minimumTrackTintColor="#4ECDC4"
+                maximumTrackTintColor="#666"
+                step={30}
+              />
+            </View>
+          )}
+
+          {settings.availability.mode === 'open_for' && (
+            <View style={styles.sliderContainer}>
+              <View style={styles.sliderLabelContainer}>
+                <Text style={styles.sliderLabel}>15 min</Text>
+                <Text style={styles.currentValue}>
+                  {settings.availability.minOpenMinutes} min
+                </Text>
+                <Text style={styles.sliderLabel}>4 h</Text>
+              </View>
+              <Slider
+                style={styles.slider}
+                minimumValue={15}
+                maximumValue={240}
+                value={settings.availability.minOpenMinutes}
+                onValueChange={(value) => handleAvailabilityChange({ minOpenMinutes: value })}
+                minimumTrackTintColor="#4ECDC4"
+                maximumTrackTintColor="#666"
+                step={15}
+              />
+            </View>
+          )}
+
+          {settings.availability.mode !== 'any' && (
+            <>
+              <Text style={styles.subsectionTitle}>Restaurants with unknown hours</Text>
+              <View style={styles.chipRow}>
+                {UNKNOWN_HOURS_OPTIONS.map(({ value, label }) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.chip, settings.availability.unknownHours === value && styles.chipSelected]}
+                    onPress={() => handleAvailabilityChange({ unknownHours: value })}
+                  >
+                    <Text style={[styles.chipText, settings.availability.unknownHours === value && styles.chipTextSelected]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Cuisine Preferences */}
+        <View style={styles.settingSection}>
+          <Text style={styles.sectionTitle}>Cuisines</Text>
+          <Text style={styles.sectionDescription}>
+            Pick a list, then tap cuisines to add or remove them
+          </Text>
+
+          <View style={styles.segmentedControl}>
+            {CUISINE_LISTS.map(({ value, label, color }) => (
+              <TouchableOpacity
+                key={value}
+                style={[
+                  styles.segment,
+                  activeCuisineList === value && { backgroundColor: color },
+                ]}
+                onPress={() => setActiveCuisineList(value)}
+              >
+                <Text style={[styles.segmentText, activeCuisineList === value && styles.chipTextSelected]}>
+                  {label} ({effectiveSettings.cuisinePreferences[value].length})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.chipRow}>
+            {CUISINE_VOCABULARY.map((cuisine) => {
+              const chipColor = getCuisineChipColor(cuisine);
+              return (
+                <TouchableOpacity
+                  key={cuisine}
+                  style={[
+                    styles.chip,
+                    chipColor !== null && { backgroundColor: chipColor, borderColor: chipColor },
+                  ]}
+                  onPress={() => handleCuisineToggle(cuisine)}
+                >
+                  <Text style={[styles.chipText, chipColor !== null && styles.chipTextSelected]}>
+                    {formatCuisineLabel(cuisine)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.subsectionTitle}>Cuisines guessed from the name or category</Text>
+          <View style={styles.chipRow}>
+            {GUESSED_CUISINE_OPTIONS.map(({ value, label }) => {
+              const isSelected = effectiveSettings.cuisinePreferences.matchGuessedCuisines === value;
+              return (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => handleMatchGuessedCuisinesChange(value)}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Data Source */}
+        <View style={styles.settingSection}>
+          <Text style={styles.sectionTitle}>Data Source</Text>
+          <Text style={styles.sectionDescription}>
+            Where restaurant listings come from
+          </Text>
+          <View style={styles.chipRow}>
+            {PlaceProviderService.getProviders().map((provider) => {
+              const isSelected = settings.placeProvider === provider.id;
+              return (
+                <TouchableOpacity
+                  key={provider.id}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => saveSettings({ ...settings, placeProvider: provider.id })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {provider.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
         {/* Future Settings Placeholder */}
         <View style={styles.settingSection}>
           <Text style={styles.sectionTitle}>More Filters</Text>
           <Text style={styles.comingSoon}>
-            Price range, cuisine type, and rating filters coming soon! 🚀
+            Price range and rating filters coming soon! 🚀
           </Text>
         </View>
 
@@ -145,7 +512,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
             <Text style={styles.resetButtonText}>Reset to Defaults</Text>
           </TouchableOpacity>
         </View>
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 };
@@ -196,6 +563,9 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
+  },
+  contentContainer: {
+    flexGrow: 1,
     paddingHorizontal: 20,
     paddingVertical: 20,
   },
@@ -255,6 +625,61 @@ const styles = StyleSheet.create({
     marginTop: 10,
     fontStyle: 'italic',
   },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ccc',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#333',
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  chipSelected: {
+    backgroundColor: '#4ECDC4',
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#1a1a1a',
+    fontWeight: '600',
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: '#333',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 15,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  segmentText: {
+    color: '#ccc',
+    fontSize: 13,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#4ECDC4',
+    fontWeight: '600',
+    marginTop: 12,
+  },
   comingSoon: {
     fontSize: 16,
     color: '#999',
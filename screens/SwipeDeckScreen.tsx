@@ -1,8 +1,10 @@
-import React, { useEffect, useRef, useState } from "react";
+import { useFocusEffect } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
   Dimensions,
+  ScrollView,
   StatusBar,
   StyleSheet,
   Text,
@@ -11,10 +13,24 @@ import {
 } from "react-native";
 import Swiper from "react-native-deck-swiper";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { PassAndPlaySetupModal } from "../components/PassAndPlaySetupModal";
 import { RestaurantCard } from "../components/RestaurantCard";
-import { LocationService } from "../services/locationService";
-import { RestaurantService } from "../services/restaurantService";
-import { SettingsService } from "../services/settingsService";
+import { RouletteModal } from "../components/RouletteModal";
+import { LocationPickerModal } from "../components/LocationPickerModal";
+import { DeckPage, DeckPagerService } from "../services/deckPagerService";
+import { FavoritesService } from "../services/favoritesService";
+import { LocationCoordinates, LocationService } from "../services/locationService";
+import {
+  PassAndPlayAction,
+  PassAndPlayService,
+  PassAndPlayState,
+} from "../services/passAndPlayService";
+import { PlaceProviderError } from "../services/placeProviderError";
+import { DeckOptions, DeckSource, RestaurantService } from "../services/restaurantService";
+import { RouletteService } from "../services/rouletteService";
+import { SavedPlace, SavedPlacesService, SelectedLocation } from "../services/savedPlacesService";
+import { AppSettings, SettingsService } from "../services/settingsService";
+import { SwipeHistoryService } from "../services/swipeHistoryService";
 import { Restaurant } from "../types/restaurant";
 
 interface SwipeDeckScreenProps {
@@ -23,6 +39,19 @@ interface SwipeDeckScreenProps {
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
+// Retryable fetch errors are retried after 1 s, 2 s and 4 s before giving up
+const MAX_AUTO_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Pull the next page while this many cards are still left, so it's in before the deck runs out
+const DECK_PREFETCH_THRESHOLD = 10;
+
+const getDeckOptions = (settings: AppSettings): DeckOptions => ({
+  availability: settings.availability,
+  cuisinePreferences: settings.cuisinePreferences,
+  ordering: settings.deckOrdering,
+});
+
 export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
   navigation,
 }) => {
@@ -30,10 +59,37 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
   const [cardIndex, setCardIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [needsManualLocation, setNeedsManualLocation] = useState(false);
+  const [fetchError, setFetchError] = useState<PlaceProviderError | null>(null);
+  const [partialDeckError, setPartialDeckError] = useState<PlaceProviderError | null>(null); // Some searches for the deck failed
+  const [deckSource, setDeckSource] = useState<DeckSource | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fetchControllerRef = useRef<AbortController | null>(null);
+  const lastFetchRadiusRef = useRef<number | null>(null);
+  const pagerRef = useRef<AsyncGenerator<DeckPage, void, undefined> | null>(null);
+  const pagerSearchRef = useRef<{ location: LocationCoordinates; deckOptions: DeckOptions } | null>(null);
+  const pageStartRef = useRef(0); // Where the page being fetched starts in the deck
+  const isLoadingMoreRef = useRef(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<PlaceProviderError | null>(null);
+  const [isDeckExhausted, setIsDeckExhausted] = useState(false);
   const [seenRestaurantIds, setSeenRestaurantIds] = useState<string[]>([]);
   const [currentLocation, setCurrentLocation] = useState<any>(null);
   const [lastFetchLocation, setLastFetchLocation] = useState<any>(null);
-  const swiperRef = useRef<Swiper<Restaurant>>(null);
+  const [passAndPlay, setPassAndPlay] = useState<PassAndPlayState | null>(null);
+  const [isPassAndPlaySetupVisible, setIsPassAndPlaySetupVisible] = useState(false);
+  const [rouletteReel, setRouletteReel] = useState<Restaurant[] | null>(null);
+  const [searchLocation, setSearchLocation] = useState<SelectedLocation | null>(null);
+  const [isLocationPickerVisible, setIsLocationPickerVisible] = useState(false);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [pendingMove, setPendingMove] = useState<{ location: LocationCoordinates; distanceKm: number } | null>(null);
+  const swiperRef = useRef<Swiper<Restaurant> | null>(null);
+  const rewindableSwipesRef = useRef(0); // Swipes the mounted Swiper can animate back
+  const isRewindingRef = useRef(false);
+
+  // Latest deck for location updates that finish after more swipes
+  const deckRef = useRef({ restaurants, cardIndex });
+  deckRef.current = { restaurants, cardIndex };
 
   // Check if user has moved significantly to warrant new API call
   const hasMovedSignificantly = (
@@ -48,74 +104,355 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
     return distance > 0.5; // 500m threshold
   };
 
-  // Fetch nearby restaurants on component mount
+  // Restore swipe history and the chosen location, then fetch nearby restaurants on component mount
+  useEffect(() => {
+    const loadDeck = async () => {
+      const [seenIds, selectedLocation] = await Promise.all([
+        SwipeHistoryService.getSeenRestaurantIds(),
+        SavedPlacesService.getSelectedLocation(),
+      ]);
+      setSeenRestaurantIds(seenIds);
+      setSearchLocation(selectedLocation);
+      await fetchNearbyRestaurants(false, seenIds);
+      refreshSavedPlaces();
+    };
+
+    loadDeck();
+  }, []);
+
+  // Don't fire a scheduled retry after leaving the screen
   useEffect(() => {
-    fetchNearbyRestaurants();
+    const retryTimer = retryTimerRef;
+    return () => {
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
   }, []);
 
-  const fetchNearbyRestaurants = async (isRefresh: boolean = false) => {
+  // Leaving the screen cancels a deck that is still loading, but keeps paging through one that's
+  // being swiped. Coming back carries on where it left off, and only starts over for a cancelled
+  // fetch, a new search location or a new radius; the first focus is handled by loadDeck.
+  const onFocusRef = useRef(() => {});
+  onFocusRef.current = () => resumeDeck();
+  const isLoadingRef = useRef(isLoading);
+  isLoadingRef.current = isLoading;
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocusedRef.current) {
+        onFocusRef.current();
+      }
+      hasFocusedRef.current = true;
+      return () => {
+        if (isLoadingRef.current) fetchControllerRef.current?.abort();
+      };
+    }, [])
+  );
+
+  const fetchNearbyRestaurants = async (
+    isRefresh: boolean = false,
+    seenIds: string[] = seenRestaurantIds,
+    attempt: number = 0
+  ) => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    // A newer fetch replaces any that is still running
+    fetchControllerRef.current?.abort();
+    const controller = new AbortController();
+    fetchControllerRef.current = controller;
+    pagerRef.current = null;
+
     try {
       setIsLoading(true);
       setError(null);
+      setFetchError(null);
+      setPartialDeckError(null);
+      setNeedsManualLocation(false);
 
-      // Get user's current location
-      const location = await LocationService.getCurrentLocation();
+      // Search around the picked location, or the user's current, last known or last used location
+      const location = await LocationService.getSearchLocation();
 
       if (!location) {
+        // Last step of the fallback chain: ask where to search
+        setNeedsManualLocation(true);
+        setIsLocationPickerVisible(true);
         throw new Error(
-          "Unable to get your location. Please enable location services."
+          "We couldn't find your location. Enter an address or city to search from, or enable location services."
         );
       }
 
-      // Check if user has moved significantly since last fetch
-      if (!isRefresh && !hasMovedSignificantly(lastFetchLocation, location)) {
+      // Get maximum radius and deck filters from settings, as the selected place overrides them
+      const settings = await SavedPlacesService.getSearchSettings();
+      const maxRadiusMeters = SettingsService.kmToMeters(settings.maxRadius);
+      const deckOptions = getDeckOptions(settings);
+
+      // Check if user has moved significantly or changed the radius since last fetch
+      if (
+        !isRefresh &&
+        !hasMovedSignificantly(lastFetchLocation, location) &&
+        lastFetchRadiusRef.current === maxRadiusMeters
+      ) {
         console.log("User has not moved significantly, skipping API call");
-        setIsLoading(false);
+        // Page on from here, skipping cards already in the deck
+        if (!isDeckExhausted) {
+          const { restaurants: deck } = deckRef.current;
+          startPaging(location, maxRadiusMeters, deckOptions, [...seenIds, ...deck.map(({ id }) => id)], false, controller);
+        }
         return;
       }
 
       // Store current location for later use
       setCurrentLocation(location);
-      setLastFetchLocation(location);
-
-      // Get maximum radius from settings
-      const maxRadiusKm = await SettingsService.getMaxRadius();
-      const maxRadiusMeters = SettingsService.kmToMeters(maxRadiusKm);
 
-      let nearbyRestaurants: Restaurant[];
+      // Restaurants swiped in earlier sessions are skipped, unless that would empty the deck.
+      // Looking for new ones also skips the caches.
+      const isFreshFetch = isRefresh && seenIds.length > 0;
+      const pager = startPaging(location, maxRadiusMeters, deckOptions, seenIds, isFreshFetch, controller);
+      const { value: firstPage } = await pager.next();
 
-      if (isRefresh && seenRestaurantIds.length > 0) {
-        // Try to fetch fresh restaurants that haven't been seen
-        nearbyRestaurants = await RestaurantService.fetchFreshRestaurants(
-          location,
-          maxRadiusMeters, // Use user's preferred radius
-          500, // max 500 restaurants
-          seenRestaurantIds
-        );
-      } else {
-        // Initial fetch or no restaurants seen yet
-        nearbyRestaurants = await RestaurantService.fetchNearbyRestaurants(
-          location,
-          maxRadiusMeters, // Use user's preferred radius
-          500 // max 500 restaurants
-        );
+      if (firstPage && !firstPage.ok) {
+        throw firstPage.error;
       }
 
-      if (nearbyRestaurants.length === 0) {
+      if (!firstPage || firstPage.restaurants.length === 0) {
+        const hasFilters =
+          settings.availability.mode !== "any" ||
+          settings.cuisinePreferences.include.length > 0 ||
+          settings.cuisinePreferences.exclude.length > 0;
         throw new Error(
-          "No restaurants found in your area. Please try again later."
+          hasFilters
+            ? "No restaurants match your filters. Try loosening them in settings."
+            : "No restaurants found in your area. Please try again later."
         );
       }
 
-      setRestaurants(nearbyRestaurants);
+      setRestaurants(firstPage.restaurants);
       setCardIndex(0); // Reset card index
+      setDeckSource(firstPage.source);
+      setPartialDeckError(firstPage.error ?? null);
+      // Only after success, so a failed or cancelled fetch is retried
+      setLastFetchLocation(location);
+      lastFetchRadiusRef.current = maxRadiusMeters;
     } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to load restaurants";
-      setError(errorMessage);
+      if (fetchControllerRef.current === controller) {
+        pagerRef.current = null; // Its first page failed; the next fetch starts a new one
+      }
+      if (controller.signal.aborted) {
+        console.log("Restaurant fetch cancelled");
+        return;
+      }
       console.error("Error fetching restaurants:", err);
+
+      if (!(err instanceof PlaceProviderError)) {
+        setError(err instanceof Error ? err.message : "Failed to load restaurants");
+        return;
+      }
+
+      setFetchError(err);
+      if (err.isRetryable && attempt < MAX_AUTO_RETRIES) {
+        const delay = err.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt;
+        setError(`${err.userMessage} Trying again in ${Math.ceil(delay / 1000)} s…`);
+        retryTimerRef.current = setTimeout(
+          () => fetchNearbyRestaurants(isRefresh, seenIds, attempt + 1),
+          delay
+        );
+      } else {
+        setError(err.userMessage);
+      }
+    } finally {
+      if (fetchControllerRef.current === controller) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Back on the deck: keep it and its pager unless the search moved or the radius changed in settings
+  const resumeDeck = async () => {
+    if (passAndPlay) return;
+
+    const [location, settings] = await Promise.all([
+      LocationService.getSearchLocation(),
+      SavedPlacesService.getSearchSettings(),
+    ]);
+    const isSameSearch =
+      location !== null &&
+      lastFetchLocation !== null &&
+      !hasMovedSignificantly(lastFetchLocation, location) &&
+      lastFetchRadiusRef.current === SettingsService.kmToMeters(settings.maxRadius);
+    if (isSameSearch && (pagerRef.current || isDeckExhausted)) {
+      return;
+    }
+    fetchNearbyRestaurants(false);
+  };
+
+  // Page through the deck around a location, ring by ring, stopping when the controller is aborted
+  const startPaging = (
+    location: LocationCoordinates,
+    maxRadiusMeters: number,
+    deckOptions: DeckOptions,
+    excludedIds: string[],
+    forceRefresh: boolean,
+    controller: AbortController
+  ) => {
+    const pager = DeckPagerService.pages({
+      location,
+      maxRadiusInMeters: maxRadiusMeters,
+      deckOptions,
+      excludedIds,
+      forceRefresh,
+      signal: controller.signal,
+      // Wide rings stream in, so cards can be added before the page is complete. The first
+      // page isn't streamed: it replaces the deck once it is in.
+      onPartialPage: (restaurants) => {
+        if (pagerRef.current !== pager || !isLoadingMoreRef.current || restaurants.length === 0) return;
+        setRestaurants((deck) => mergePage(deck, restaurants));
+      },
+    });
+    pagerRef.current = pager;
+    pagerSearchRef.current = { location, deckOptions };
+    setIsDeckExhausted(false);
+    setLoadMoreError(null);
+    return pager;
+  };
+
+  // Cards of earlier pages, and of this one up to the card on top, stay where they are
+  const mergePage = (deck: Restaurant[], page: Restaurant[]) =>
+    RestaurantService.mergeStreamedDeck(deck, Math.max(deckRef.current.cardIndex, pageStartRef.current - 1), page);
+
+  // Append the next page of the deck; a failed page is fetched again on the next pull
+  const loadMoreRestaurants = async () => {
+    const pager = pagerRef.current;
+    if (!pager || isLoadingMoreRef.current) return;
+
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    pageStartRef.current = deckRef.current.restaurants.length;
+    try {
+      const page = await pager.next();
+      if (pagerRef.current !== pager) return; // Replaced by a newer search
+
+      if (page.done) {
+        pagerRef.current = null;
+        setIsDeckExhausted(true);
+      } else if (page.value.ok) {
+        const { restaurants: pageRestaurants, error: pageError, radiusInMeters } = page.value;
+        const { location, deckOptions } = pagerSearchRef.current!;
+        // Mix the ring into the cards still to come, so the deck keeps to its ordering
+        setRestaurants((deck) =>
+          RestaurantService.reorderUpcoming(
+            mergePage(deck, pageRestaurants),
+            deckRef.current.cardIndex,
+            deckOptions,
+            location,
+            radiusInMeters
+          )
+        );
+        if (pageError) setPartialDeckError(pageError);
+      } else if (page.value.error.kind === "cancelled") {
+        pagerRef.current = null; // Coming back to the deck starts a new one
+      } else {
+        console.error("Error fetching more restaurants:", page.value.error);
+        setLoadMoreError(page.value.error);
+      }
     } finally {
-      setIsLoading(false);
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Pull the next page once the cards left drop below the threshold
+  const loadMoreRef = useRef(loadMoreRestaurants);
+  loadMoreRef.current = loadMoreRestaurants;
+  useEffect(() => {
+    if (isLoading || passAndPlay || restaurants.length === 0) return;
+    if (restaurants.length - cardIndex < DECK_PREFETCH_THRESHOLD) {
+      loadMoreRef.current();
+    }
+  }, [isLoading, passAndPlay, restaurants.length, cardIndex]);
+
+  // Follow the user while searching from GPS, so the deck keeps up when they drive across town
+  const onLocationChangeRef = useRef((_location: LocationCoordinates) => {});
+  onLocationChangeRef.current = async (location: LocationCoordinates) => {
+    if (passAndPlay || isLoading || !lastFetchLocation) return;
+    if (!hasMovedSignificantly(lastFetchLocation, location)) return;
+
+    const settings = await SettingsService.loadSettings();
+    if (settings.followLocation === "auto") {
+      updateDeckForLocation(location);
+    } else if (settings.followLocation === "ask") {
+      setPendingMove({ location, distanceKm: LocationService.calculateDistance(lastFetchLocation, location) });
+    }
+  };
+
+  useEffect(() => {
+    if (searchLocation !== null) return;
+
+    let subscription: { remove: () => void } | null = null;
+    let isCancelled = false;
+    const startWatching = async () => {
+      const settings = await SettingsService.loadSettings();
+      if (settings.followLocation === "off") return;
+
+      const watch = await LocationService.watchLocation((location) => onLocationChangeRef.current(location));
+      if (isCancelled) {
+        watch?.remove();
+      } else {
+        subscription = watch;
+      }
+    };
+
+    startWatching();
+    return () => {
+      isCancelled = true;
+      subscription?.remove();
+    };
+  }, [searchLocation]);
+
+  // Re-center the deck on a new location, keeping the current card and everything already swiped
+  const updateDeckForLocation = async (location: LocationCoordinates) => {
+    setPendingMove(null);
+    try {
+      const settings = await SavedPlacesService.getSearchSettings();
+      const maxRadiusMeters = SettingsService.kmToMeters(settings.maxRadius);
+      const deckOptions = getDeckOptions(settings);
+      const result = await RestaurantService.fetchNearbyRestaurants(
+        location,
+        maxRadiusMeters,
+        500,
+        false,
+        deckOptions
+      );
+      if (!result.ok) {
+        throw result.error;
+      }
+
+      const { restaurants: deck, cardIndex: currentIndex } = deckRef.current;
+      const merged = RestaurantService.mergeDeckForLocation(
+        deck,
+        currentIndex,
+        result.restaurants,
+        location,
+        maxRadiusMeters,
+        seenRestaurantIds
+      );
+      console.log(`Moved: added ${merged.added} restaurants, dropped ${merged.removed} out of range`);
+
+      setRestaurants(merged.deck);
+      setCurrentLocation(location);
+      setLastFetchLocation(location);
+      setPartialDeckError(result.error ?? null);
+
+      // Further pages come from around the new location
+      fetchControllerRef.current?.abort();
+      const controller = new AbortController();
+      fetchControllerRef.current = controller;
+      const excludedIds = [...seenRestaurantIds, ...merged.deck.map(({ id }) => id)];
+      startPaging(location, maxRadiusMeters, deckOptions, excludedIds, false, controller);
+    } catch (err) {
+      console.error("Error updating deck for new location:", err);
     }
   };
 
@@ -123,10 +460,66 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
     fetchNearbyRestaurants(true); // Force refresh to get new restaurants
   };
 
+  // Demo data is only ever shown when asked for, and is labelled as such
+  const loadDemoDeck = async () => {
+    if (!currentLocation) return;
+
+    const settings = await SavedPlacesService.getSearchSettings();
+    const demoRestaurants = await RestaurantService.fetchDemoRestaurants(
+      currentLocation,
+      SettingsService.kmToMeters(settings.maxRadius),
+      500,
+      getDeckOptions(settings)
+    );
+
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    pagerRef.current = null;
+    setIsDeckExhausted(true);
+    setRestaurants(demoRestaurants);
+    setCardIndex(0);
+    setDeckSource("demo");
+    setError(null);
+    setFetchError(null);
+    setPartialDeckError(null);
+  };
+
+  // Reload the places shown in the switcher and fill their caches in the background
+  const refreshSavedPlaces = async () => {
+    setSavedPlaces(await SavedPlacesService.getSavedPlaces());
+    RestaurantService.prewarmSavedPlaces().catch((err) =>
+      console.error("Error pre-warming saved places:", err)
+    );
+  };
+
+  // Switch the search location and rebuild the deck around it.
+  // Saved places are usually pre-warmed, so this is served from the local cache.
+  const onSelectSearchLocation = async (location: SelectedLocation | null) => {
+    setIsLocationPickerVisible(false);
+    setPendingMove(null);
+    setSearchLocation(location);
+    await SavedPlacesService.setSelectedLocation(location);
+    await fetchNearbyRestaurants(false);
+    refreshSavedPlaces();
+  };
+
+  const closeLocationPicker = () => {
+    setIsLocationPickerVisible(false);
+    refreshSavedPlaces(); // Places may have been saved or removed in the picker
+  };
+
+  // A remounted Swiper starts without swipes to rewind
+  const attachSwiper = useCallback((swiper: Swiper<Restaurant> | null) => {
+    swiperRef.current = swiper;
+    rewindableSwipesRef.current = 0;
+  }, []);
+
   // Handle when user swipes left (dismiss)
   const onSwipedLeft = (cardIndex: number) => {
     const restaurant = restaurants[cardIndex];
+    setCardIndex(cardIndex + 1);
+    rewindableSwipesRef.current++;
     console.log("Dismissed:", restaurant.name);
+    SwipeHistoryService.recordSwipe(restaurant, "pass");
 
     // Track this restaurant as seen
     setSeenRestaurantIds((prev) => {
@@ -140,6 +533,8 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
   // Handle when user swipes right (match)
   const onSwipedRight = (cardIndex: number) => {
     const restaurant = restaurants[cardIndex];
+    setCardIndex(cardIndex + 1);
+    rewindableSwipesRef.current++;
     console.log("Matched:", restaurant.name);
 
     // Track this restaurant as seen
@@ -150,29 +545,127 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
       return prev;
     });
 
+    // Remember the match, and whether it's what made the restaurant a favorite so undo leaves older
+    // favorites alone; a storage failure should not block navigation
+    FavoritesService.isFavorite(restaurant.id)
+      .catch(() => true)
+      .then((wasFavorite) => {
+        SwipeHistoryService.recordSwipe(restaurant, "match", { createdFavorite: !wasFavorite });
+        return FavoritesService.addFavorite(restaurant, currentLocation);
+      })
+      .catch((error) => console.error("Error saving favorite:", error));
+
     // Navigate to detail screen
     navigation.navigate("RestaurantDetail", { restaurant });
   };
 
-  // Handle when all cards are swiped
-  const onSwipedAll = () => {
-    const hasSeenRestaurants = seenRestaurantIds.length > 0;
-    const alertMessage = hasSeenRestaurants
-      ? "Looking for new restaurants within your set radius."
-      : "Would you like to find more restaurants in your area?";
-
-    Alert.alert("No more restaurants!", alertMessage, [
-      {
-        text: "No thanks",
-        style: "cancel",
-      },
-      {
-        text: hasSeenRestaurants ? "Find new ones" : "Find more",
-        onPress: () => {
-          retryFetchRestaurants();
-        },
-      },
+  // Rewind the last swipe in both the deck and the stored history. The Swiper reports a swipe back
+  // through onSwiped too, so the index is only set here and in onSwipedLeft/Right. Past the end of
+  // the deck, or after a remount, there is no swipe to animate back.
+  const onUndo = () => {
+    if (cardIndex === 0 || isRewindingRef.current) return;
+
+    const swiper = swiperRef.current;
+    if (swiper && rewindableSwipesRef.current > 0) {
+      isRewindingRef.current = true;
+      rewindableSwipesRef.current--;
+      swiper.swipeBack((previousCardIndex) => {
+        isRewindingRef.current = false;
+        rewindTo(previousCardIndex - 1);
+      });
+      return;
+    }
+
+    swiper?.jumpToCardIndex(cardIndex - 1);
+    rewindTo(cardIndex - 1);
+  };
+
+  const rewindTo = async (index: number) => {
+    setCardIndex(Math.max(index, 0));
+
+    const entry = await SwipeHistoryService.undoLastSwipe();
+    if (!entry) return;
+
+    setSeenRestaurantIds((prev) => prev.filter((id) => id !== entry.restaurantId));
+    if (entry.direction === "match" && entry.createdFavorite) {
+      await FavoritesService.removeFavorite(entry.restaurantId);
+    }
+  };
+
+  // Pass and play: everyone swipes the rest of the current deck in turn
+  const startPassAndPlay = (playerNames: string[]) => {
+    try {
+      const remaining = restaurants.slice(cardIndex);
+      setPassAndPlay(
+        PassAndPlayService.createGame(
+          playerNames,
+          remaining.length > 0 ? remaining : restaurants
+        )
+      );
+      setIsPassAndPlaySetupVisible(false);
+    } catch (err) {
+      Alert.alert(
+        "Pass & Play",
+        err instanceof Error ? err.message : "Could not start the game."
+      );
+    }
+  };
+
+  const dispatchPassAndPlay = (action: PassAndPlayAction) => {
+    setPassAndPlay((prev) => prev && PassAndPlayService.transition(prev, action));
+  };
+
+  // Show the results once the last player has finished
+  useEffect(() => {
+    if (passAndPlay?.phase !== "finished") return;
+
+    navigation.navigate("PassAndPlayResults", {
+      players: passAndPlay.players,
+      results: PassAndPlayService.getResults(passAndPlay, currentLocation),
+    });
+    setPassAndPlay(null);
+  }, [passAndPlay]);
+
+  // "Just pick for me": spin a weighted roulette over everything nearby, swiped cards included, so past
+  // matches and passes tilt the odds instead of being left out
+  const pickForMe = async () => {
+    const settings = await SavedPlacesService.getSearchSettings();
+    const [history, nearby] = await Promise.all([
+      SwipeHistoryService.getHistory(),
+      currentLocation
+        ? RestaurantService.fetchCachedRestaurants(
+            currentLocation,
+            SettingsService.kmToMeters(settings.maxRadius),
+            getDeckOptions(settings)
+          )
+        : null,
     ]);
+    // The cached search also holds restaurants swiped in earlier sessions, which the deck skips
+    const deckIds = new Set(restaurants.map(({ id }) => id));
+    const pool = [
+      ...restaurants,
+      ...(nearby?.ok ? nearby.restaurants.filter(({ id }) => !deckIds.has(id)) : []),
+    ];
+
+    const pick = RouletteService.pick(pool, {
+      origin: currentLocation,
+      maxDistanceKm: settings.maxRadius,
+      cuisinePreferences: settings.cuisinePreferences,
+      history,
+    });
+
+    if (!pick) {
+      Alert.alert("Nothing to pick", "None of these restaurants match your preferences.");
+      return;
+    }
+
+    console.log("Roulette picked:", pick.restaurant.name);
+    setRouletteReel(RouletteService.buildReel(pool, pick.restaurant));
+  };
+
+  const onRouletteComplete = (restaurant: Restaurant) => {
+    setRouletteReel(null);
+    navigation.navigate("RestaurantDetail", { restaurant });
   };
 
   // Handle card index change
@@ -201,6 +694,40 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
     </View>
   );
 
+  // Shown once every card is swiped: more are on the way, or the search can be widened or redone
+  const renderDeckEnd = () => {
+    if (isLoadingMore) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4ECDC4" />
+          <Text style={styles.loadingText}>Finding more restaurants...</Text>
+        </View>
+      );
+    }
+    if (loadMoreError) {
+      return (
+        <View style={styles.noMoreCards}>
+          <Text style={styles.noMoreCardsText}>Couldn&apos;t load more</Text>
+          <Text style={styles.errorSubtext}>{loadMoreError.userMessage}</Text>
+          <Text style={styles.retryButton} onPress={loadMoreRestaurants}>
+            Tap to retry
+          </Text>
+        </View>
+      );
+    }
+    return (
+      <View style={styles.noMoreCards}>
+        <Text style={styles.noMoreCardsText}>No more restaurants!</Text>
+        <Text style={styles.errorSubtext}>
+          That&apos;s every restaurant within your radius. Look again for new ones, or widen the radius in settings.
+        </Text>
+        <Text style={styles.retryButton} onPress={retryFetchRestaurants}>
+          Find new ones
+        </Text>
+      </View>
+    );
+  };
+
   const renderLoading = () => (
     <View style={styles.loadingContainer}>
       <ActivityIndicator size="large" color="#4ECDC4" />
@@ -208,13 +735,121 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
     </View>
   );
 
+  const renderPassAndPlay = (game: PassAndPlayState) => {
+    const player = PassAndPlayService.getCurrentPlayer(game);
+
+    if (game.phase === "handoff") {
+      return (
+        <View style={styles.noMoreCards}>
+          <Text style={styles.noMoreCardsText}>Pass the phone to {player}</Text>
+          <Text style={styles.noMoreCardsSubtext}>
+            Player {game.playerIndex + 1} of {game.players.length} •{" "}
+            {game.deck.length} restaurants
+          </Text>
+          <Text
+            style={[styles.retryButton, styles.handoffButton]}
+            onPress={() => dispatchPassAndPlay({ type: "ready" })}
+          >
+            I&apos;m {player}, start
+          </Text>
+          <Text style={styles.quitText} onPress={() => setPassAndPlay(null)}>
+            Quit game
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <Swiper
+        key={`pass-and-play-${game.playerIndex}`}
+        cards={game.deck}
+        renderCard={renderCard}
+        onSwipedLeft={() => dispatchPassAndPlay({ type: "swipe", liked: false })}
+        onSwipedRight={() => dispatchPassAndPlay({ type: "swipe", liked: true })}
+        cardIndex={game.cardIndex}
+        backgroundColor="transparent"
+        stackSize={3}
+        disableBottomSwipe
+        disableTopSwipe
+        verticalSwipe={false}
+        cardVerticalMargin={0}
+        marginTop={0}
+        marginBottom={0}
+      />
+    );
+  };
+
+  // One tap switches between GPS, saved places and the last searched address
+  const renderPlaceSwitcher = () => {
+    const isUnsavedLocation = searchLocation !== null && !searchLocation.savedPlaceId;
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.placeSwitcher}
+        contentContainerStyle={styles.placeSwitcherContent}
+      >
+        <TouchableOpacity
+          style={[styles.placeChip, searchLocation === null && styles.placeChipSelected]}
+          onPress={() => searchLocation !== null && onSelectSearchLocation(null)}
+          accessibilityLabel="Search near my current location"
+        >
+          <Text style={styles.placeChipText}>📍 Here</Text>
+        </TouchableOpacity>
+        {savedPlaces.map((place) => (
+          <TouchableOpacity
+            key={place.id}
+            style={[
+              styles.placeChip,
+              searchLocation?.savedPlaceId === place.id && styles.placeChipSelected,
+            ]}
+            onPress={() =>
+              searchLocation?.savedPlaceId !== place.id &&
+              onSelectSearchLocation(SavedPlacesService.toSelectedLocation(place))
+            }
+            accessibilityLabel={`Search near ${place.name}`}
+          >
+            <Text style={styles.placeChipText}>⭐ {place.name}</Text>
+          </TouchableOpacity>
+        ))}
+        {isUnsavedLocation && (
+          <View style={[styles.placeChip, styles.placeChipSelected]}>
+            <Text style={styles.placeChipText} numberOfLines={1}>
+              {searchLocation.name}
+            </Text>
+          </View>
+        )}
+        <TouchableOpacity
+          style={styles.placeChip}
+          onPress={() => setIsLocationPickerVisible(true)}
+          accessibilityLabel="Choose where to search"
+        >
+          <Text style={styles.placeChipText}>🔎 Search…</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
   const renderError = () => (
     <View style={styles.errorContainer}>
       <Text style={styles.errorText}>Oops!</Text>
       <Text style={styles.errorSubtext}>{error}</Text>
+      {needsManualLocation && (
+        <Text
+          style={[styles.retryButton, styles.enterLocationButton]}
+          onPress={() => setIsLocationPickerVisible(true)}
+        >
+          Enter a location
+        </Text>
+      )}
       <Text style={styles.retryButton} onPress={retryFetchRestaurants}>
         Tap to retry
       </Text>
+      {fetchError && currentLocation && (
+        <Text style={styles.demoLink} onPress={loadDemoDeck}>
+          Try demo data instead
+        </Text>
+      )}
     </View>
   );
 
@@ -228,9 +863,59 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
           <View style={styles.headerTitleContainer}>
             <Text style={styles.headerTitle}>RandoBites</Text>
             <Text style={styles.headerSubtitle}>
-              Swipe right to match • Swipe left to pass
+              {passAndPlay
+                ? `${PassAndPlayService.getCurrentPlayer(passAndPlay)}'s turn • ${Math.min(
+                    passAndPlay.cardIndex + 1,
+                    passAndPlay.deck.length
+                  )}/${passAndPlay.deck.length}`
+                : "Swipe right to match • Swipe left to pass"}
             </Text>
           </View>
+          {passAndPlay ? (
+            passAndPlay.phase === "swiping" && (
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => dispatchPassAndPlay({ type: "endTurn" })}
+                accessibilityLabel="End turn"
+              >
+                <Text style={styles.settingsIcon}>⏭️</Text>
+              </TouchableOpacity>
+            )
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.headerButton, cardIndex === 0 && styles.headerButtonDisabled]}
+                onPress={onUndo}
+                disabled={cardIndex === 0}
+                accessibilityLabel="Undo last swipe"
+              >
+                <Text style={styles.settingsIcon}>↩️</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={pickForMe}
+                disabled={restaurants.length === 0}
+                accessibilityLabel="Just pick for me"
+              >
+                <Text style={styles.settingsIcon}>🎰</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => navigation.navigate("GroupSession")}
+                accessibilityLabel="Start a group session"
+              >
+                <Text style={styles.settingsIcon}>👥</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => setIsPassAndPlaySetupVisible(true)}
+                disabled={restaurants.length === 0}
+                accessibilityLabel="Pass and play"
+              >
+                <Text style={styles.settingsIcon}>🎲</Text>
+              </TouchableOpacity>
+            </>
+          )}
           <TouchableOpacity
             style={styles.settingsButton}
             onPress={() => navigation.navigate("Settings")}
@@ -238,23 +923,61 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
             <Text style={styles.settingsIcon}>⚙️</Text>
           </TouchableOpacity>
         </View>
+        {!passAndPlay && renderPlaceSwitcher()}
       </View>
 
+      {deckSource === "demo" && !isLoading && !error && (
+        <View style={styles.moveBanner}>
+          <Text style={styles.moveBannerText}>Demo data: these restaurants aren&apos;t real</Text>
+          <TouchableOpacity onPress={retryFetchRestaurants}>
+            <Text style={styles.moveBannerAction}>Try live data</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {partialDeckError && !isLoading && !error && !passAndPlay && (
+        <View style={styles.moveBanner}>
+          <Text style={styles.moveBannerText}>Part of the area couldn&apos;t be searched</Text>
+          <TouchableOpacity onPress={retryFetchRestaurants}>
+            <Text style={styles.moveBannerAction}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setPartialDeckError(null)} accessibilityLabel="Dismiss">
+            <Text style={styles.moveBannerDismiss}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {pendingMove && !passAndPlay && (
+        <View style={styles.moveBanner}>
+          <Text style={styles.moveBannerText}>
+            You&apos;ve moved {pendingMove.distanceKm.toFixed(1)} km
+          </Text>
+          <TouchableOpacity onPress={() => updateDeckForLocation(pendingMove.location)}>
+            <Text style={styles.moveBannerAction}>Update deck</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setPendingMove(null)} accessibilityLabel="Dismiss">
+            <Text style={styles.moveBannerDismiss}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Content Container */}
       <View style={styles.swiperContainer}>
         {isLoading ? (
           renderLoading()
         ) : error ? (
           renderError()
+        ) : passAndPlay ? (
+          renderPassAndPlay(passAndPlay)
+        ) : cardIndex >= restaurants.length && restaurants.length > 0 ? (
+          renderDeckEnd()
         ) : restaurants.length > 0 ? (
           <Swiper
-            ref={swiperRef}
+            ref={attachSwiper}
             cards={restaurants}
             renderCard={renderCard}
-            onSwiped={(cardIndex) => setCardIndex(cardIndex + 1)}
             onSwipedLeft={onSwipedLeft}
             onSwipedRight={onSwipedRight}
-            onSwipedAll={onSwipedAll}
             onSwiping={onSwiping}
             cardIndex={cardIndex}
             backgroundColor="transparent"
@@ -318,12 +1041,32 @@ export const SwipeDeckScreen: React.FC<SwipeDeckScreenProps> = ({
               },
             }}
           >
-            {renderNoMoreCards()}
+            {renderDeckEnd()}
           </Swiper>
         ) : (
           renderNoMoreCards()
         )}
       </View>
+
+      <PassAndPlaySetupModal
+        visible={isPassAndPlaySetupVisible}
+        onClose={() => setIsPassAndPlaySetupVisible(false)}
+        onStart={startPassAndPlay}
+      />
+
+      <LocationPickerModal
+        visible={isLocationPickerVisible}
+        selectedLocation={searchLocation}
+        onClose={closeLocationPicker}
+        onSelect={onSelectSearchLocation}
+      />
+
+      <RouletteModal
+        visible={rouletteReel !== null}
+        reel={rouletteReel || []}
+        onComplete={onRouletteComplete}
+        onCancel={() => setRouletteReel(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -355,11 +1098,79 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#999",
   },
+  moveBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 20,
+    marginBottom: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#1f3b39",
+    gap: 14,
+  },
+  moveBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#fff",
+  },
+  moveBannerAction: {
+    fontSize: 14,
+    color: "#4ECDC4",
+    fontWeight: "600",
+  },
+  moveBannerDismiss: {
+    fontSize: 16,
+    color: "#999",
+  },
+  placeSwitcher: {
+    marginTop: 12,
+    marginHorizontal: -20,
+  },
+  placeSwitcherContent: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  placeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "#333",
+    maxWidth: 180,
+  },
+  placeChipSelected: {
+    borderColor: "#4ECDC4",
+    backgroundColor: "#1f3b39",
+  },
+  placeChipText: {
+    fontSize: 14,
+    color: "#fff",
+    fontWeight: "600",
+  },
   settingsButton: {
     padding: 8,
     borderRadius: 20,
     backgroundColor: "#333",
   },
+  headerButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: "#333",
+    marginRight: 10,
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
+  handoffButton: {
+    marginTop: 30,
+  },
+  quitText: {
+    fontSize: 14,
+    color: "#999",
+    marginTop: 20,
+  },
   settingsIcon: {
     fontSize: 20,
   },
@@ -442,4 +1253,14 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     overflow: "hidden",
   },
+  enterLocationButton: {
+    marginBottom: 12,
+  },
+  demoLink: {
+    fontSize: 15,
+    color: "#999",
+    textAlign: "center",
+    textDecorationLine: "underline",
+    marginTop: 20,
+  },
 });
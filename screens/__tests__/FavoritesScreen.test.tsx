@@ -0,0 +1,95 @@
+import React from 'react';
+import { act, fireEvent, render, waitFor } from '@testing-library/react-native';
+import { FavoritesScreen } from '../FavoritesScreen';
+import { FavoriteRestaurant, FavoritesService } from '../../services/favoritesService';
+import { Restaurant } from '../../types/restaurant';
+
+jest.mock('react-native-safe-area-context', () => ({
+  SafeAreaView: jest.fn(({ children, ...props }) => {
+    const React = require('react');
+    const { View } = require('react-native');
+    return React.createElement(View, props, children);
+  }),
+}));
+
+const makeFavorite = (id: string, name: string, cuisine: string, favoritedAt: number): FavoriteRestaurant => {
+  const restaurant: Restaurant = {
+    id,
+    name,
+    cuisine,
+    cuisines: [cuisine],
+    cuisineConfidence: 'explicit',
+    image: `https://example.com/${id}.jpg`,
+    latitude: 37.7749,
+    longitude: -122.4194,
+    dataSource: 'api',
+  };
+  return { restaurant, favoritedAt, location: null };
+};
+
+describe('FavoritesScreen', () => {
+  const mockNavigation = {
+    navigate: jest.fn(),
+    goBack: jest.fn(),
+  };
+
+  const favorites = [
+    makeFavorite('a', 'Golden Dragon', 'Chinese', 2000),
+    makeFavorite('b', 'Luigi\'s', 'Italian', 1000),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(FavoritesService, 'syncFavorites').mockResolvedValue(favorites);
+    jest.spyOn(FavoritesService, 'removeFavorite').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows an empty state when nothing has been matched', async () => {
+    jest.spyOn(FavoritesService, 'syncFavorites').mockResolvedValue([]);
+
+    const { getByText } = render(<FavoritesScreen navigation={mockNavigation} />);
+
+    await waitFor(() => {
+      expect(getByText('No matches yet')).toBeTruthy();
+    });
+  });
+
+  it('filters favorites by the search query', async () => {
+    const { getByText, queryByText, getByPlaceholderText } = render(
+      <FavoritesScreen navigation={mockNavigation} />
+    );
+    await waitFor(() => expect(getByText('Golden Dragon')).toBeTruthy());
+
+    fireEvent.changeText(getByPlaceholderText('Search by name, cuisine or address'), 'italian');
+
+    expect(queryByText('Golden Dragon')).toBeNull();
+    expect(getByText('Luigi\'s')).toBeTruthy();
+  });
+
+  it('opens the detail screen with the saved snapshot', async () => {
+    const { getByText } = render(<FavoritesScreen navigation={mockNavigation} />);
+    await waitFor(() => expect(getByText('Luigi\'s')).toBeTruthy());
+
+    fireEvent.press(getByText('Luigi\'s'));
+
+    expect(mockNavigation.navigate).toHaveBeenCalledWith('RestaurantDetail', {
+      restaurant: favorites[1].restaurant,
+    });
+  });
+
+  it('un-favorites a restaurant', async () => {
+    const { getByLabelText, queryByText } = render(<FavoritesScreen navigation={mockNavigation} />);
+    await waitFor(() => expect(queryByText('Golden Dragon')).toBeTruthy());
+
+    await act(async () => {
+      fireEvent.press(getByLabelText('Remove Golden Dragon from favorites'));
+    });
+
+    expect(queryByText('Golden Dragon')).toBeNull();
+    expect(FavoritesService.removeFavorite).toHaveBeenCalledWith('a');
+  });
+});
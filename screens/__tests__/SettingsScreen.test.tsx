@@ -1,7 +1,9 @@
 import React from 'react';
-import { render, waitFor } from '@testing-library/react-native';
+import { fireEvent, render, waitFor } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SettingsScreen } from '../SettingsScreen';
 import { SettingsService, DEFAULT_SETTINGS } from '../../services/settingsService';
+import { SavedPlacesService } from '../../services/savedPlacesService';
 
 // Mock SettingsService
 jest.mock('../../services/settingsService', () => ({
@@ -9,9 +11,7 @@ jest.mock('../../services/settingsService', () => ({
     loadSettings: jest.fn(),
     saveSettings: jest.fn(),
   },
-  DEFAULT_SETTINGS: {
-    maxRadius: 5,
-  },
+  DEFAULT_SETTINGS: jest.requireActual('../../services/settingsService').DEFAULT_SETTINGS,
 }));
 
 // Mock Slider component
@@ -47,8 +47,9 @@ describe('SettingsScreen', () => {
     goBack: jest.fn(),
   };
 
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
+    await AsyncStorage.clear();
   });
 
   it('renders loading state initially', () => {
@@ -76,4 +77,22 @@ describe('SettingsScreen', () => {
     // Add a small delay to let any async operations complete
     await new Promise(resolve => setTimeout(resolve, 100));
   });
-});
\ No newline at end of file
+
+  it('saves deck order changes to the saved place being edited', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockSettingsService.loadSettings.mockResolvedValue(DEFAULT_SETTINGS);
+    await SavedPlacesService.savePlace('Office', { latitude: 37.79, longitude: -122.4 });
+
+    const { findByText, getByText } = render(<SettingsScreen navigation={mockNavigation} />);
+
+    fireEvent.press(await findByText('⭐ Office'));
+    fireEvent.press(getByText('Nearest first'));
+
+    await waitFor(async () => {
+      const [place] = await SavedPlacesService.getSavedPlaces();
+      expect(place.settings).toEqual({ deckOrdering: 'nearest' });
+    });
+    expect(await findByText('Use app settings for Office')).toBeTruthy();
+    expect(mockSettingsService.saveSettings).not.toHaveBeenCalled();
+  });
+});
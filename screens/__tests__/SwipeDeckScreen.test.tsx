@@ -0,0 +1,153 @@
+import React from 'react';
+import { act, fireEvent, render, waitFor } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SwipeDeckScreen } from '../SwipeDeckScreen';
+import { DeckPage, DeckPagerService } from '../../services/deckPagerService';
+import { LocationService } from '../../services/locationService';
+import { RestaurantService } from '../../services/restaurantService';
+import { SwipeHistoryService } from '../../services/swipeHistoryService';
+import { makeRestaurant, TEST_ORIGIN } from '../../test-utils/restaurants';
+
+jest.mock('react-native-safe-area-context', () => ({
+  SafeAreaView: jest.fn(({ children, ...props }) => {
+    const React = require('react');
+    const { View } = require('react-native');
+    return React.createElement(View, props, children);
+  }),
+}));
+
+jest.mock('expo-router', () => ({
+  useFocusEffect: jest.fn(),
+}));
+
+// Calls back like react-native-deck-swiper 2.0.19, which reports a swipe back through onSwiped too
+jest.mock('react-native-deck-swiper', () => {
+  const React = require('react');
+  const { Text, TouchableOpacity, View } = require('react-native');
+
+  class MockSwiper extends React.Component<any, { index: number; swiped: number }> {
+    state = { index: this.props.cardIndex, swiped: 0 };
+
+    swipe = (onSwipedDirection: (index: number) => void) => {
+      const { index, swiped } = this.state;
+      this.props.onSwiped?.(index);
+      onSwipedDirection(index);
+      this.setState({ index: index + 1, swiped: swiped + 1 });
+    };
+
+    swipeBack = (callback?: (previousCardIndex: number) => void) => {
+      const { index, swiped } = this.state;
+      if (swiped === 0) return;
+      this.props.onSwiped?.(index);
+      callback?.(index);
+      this.setState({ index: index - 1, swiped: swiped - 1 });
+    };
+
+    jumpToCardIndex = (index: number) => this.setState({ index });
+
+    render() {
+      const card = this.props.cards[this.state.index];
+      return React.createElement(
+        View,
+        null,
+        React.createElement(Text, null, `Showing ${card?.name}`),
+        React.createElement(Text, null, `Card index ${this.props.cardIndex}`),
+        React.createElement(
+          TouchableOpacity,
+          { accessibilityLabel: 'Swipe left', onPress: () => this.swipe(this.props.onSwipedLeft) },
+          React.createElement(Text, null, 'Pass')
+        )
+      );
+    }
+  }
+
+  return MockSwiper;
+});
+
+describe('SwipeDeckScreen', () => {
+  const mockNavigation = {
+    navigate: jest.fn(),
+    goBack: jest.fn(),
+  };
+
+  const deck = ['a', 'b', 'c'].map((id) => makeRestaurant(id));
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+    jest.spyOn(LocationService, 'getSearchLocation').mockResolvedValue({
+      ...TEST_ORIGIN,
+      source: 'gps',
+      accuracy: 10,
+      timestamp: Date.now(),
+    });
+    jest.spyOn(RestaurantService, 'prewarmSavedPlaces').mockResolvedValue(0);
+    jest.spyOn(DeckPagerService, 'pages').mockImplementation(async function* () {
+      const page: DeckPage = { ok: true, restaurants: deck, source: 'live', radiusInMeters: 2000 };
+      yield page;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const renderDeck = async () => {
+    const screen = render(<SwipeDeckScreen navigation={mockNavigation} />);
+    await waitFor(() => {
+      expect(screen.getByText('Showing Restaurant a')).toBeTruthy();
+    }, { timeout: 3000 }); // The first render loads the whole screen
+    return screen;
+  };
+
+  it('keeps the card index in step with the deck after an undo', async () => {
+    const { getByLabelText, getByText } = await renderDeck();
+
+    fireEvent.press(getByLabelText('Swipe left'));
+    fireEvent.press(getByLabelText('Swipe left'));
+    expect(getByText('Showing Restaurant c')).toBeTruthy();
+    expect(getByText('Card index 2')).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.press(getByLabelText('Undo last swipe'));
+    });
+
+    expect(getByText('Showing Restaurant b')).toBeTruthy();
+    expect(getByText('Card index 1')).toBeTruthy();
+    await waitFor(async () => {
+      expect(await SwipeHistoryService.getSeenRestaurantIds()).toEqual(['a']);
+    });
+
+    // Swiping on from there still reaches the last card before the deck ends
+    fireEvent.press(getByLabelText('Swipe left'));
+    expect(getByText('Showing Restaurant c')).toBeTruthy();
+    expect(getByText('Card index 2')).toBeTruthy();
+  });
+
+  it('brings the last card back when undoing at the end of the deck', async () => {
+    const { getByLabelText, getByText, queryByText } = await renderDeck();
+
+    fireEvent.press(getByLabelText('Swipe left'));
+    fireEvent.press(getByLabelText('Swipe left'));
+    fireEvent.press(getByLabelText('Swipe left'));
+    await waitFor(() => {
+      expect(getByText('No more restaurants!')).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent.press(getByLabelText('Undo last swipe'));
+    });
+
+    expect(queryByText('No more restaurants!')).toBeNull();
+    expect(getByText('Showing Restaurant c')).toBeTruthy();
+    expect(getByText('Card index 2')).toBeTruthy();
+
+    // The remounted deck has nothing to animate back, but undo still steps back a card
+    await act(async () => {
+      fireEvent.press(getByLabelText('Undo last swipe'));
+    });
+
+    expect(getByText('Showing Restaurant b')).toBeTruthy();
+    expect(getByText('Card index 1')).toBeTruthy();
+  });
+});
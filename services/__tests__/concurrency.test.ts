@@ -0,0 +1,59 @@
+import { createLimiter } from "../concurrency";
+
+// A task that finishes when the test says so
+const deferred = () => {
+  let resolve: (value: string) => void = () => {};
+  const promise = new Promise<string>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createLimiter", () => {
+  it("runs at most the given number of tasks at once, in order", async () => {
+    const limit = createLimiter(2);
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = tasks.map((task, index) =>
+      limit(() => {
+        started.push(index);
+        return task.promise;
+      })
+    );
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].resolve("second");
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].resolve("first");
+    tasks[2].resolve("third");
+    expect(await Promise.all(results)).toEqual(["first", "second", "third"]);
+  });
+
+  it("drops waiting tasks when their signal is aborted", async () => {
+    const limit = createLimiter(1);
+    const running = deferred();
+    const controller = new AbortController();
+    const waitingTask = jest.fn(() => Promise.resolve("never"));
+
+    const first = limit(() => running.promise, controller.signal);
+    const second = limit(waitingTask, controller.signal);
+    controller.abort();
+
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    running.resolve("done");
+    expect(await first).toBe("done"); // Already running, so it's left to finish
+    expect(waitingTask).not.toHaveBeenCalled();
+  });
+
+  it("keeps going after a task fails", async () => {
+    const limit = createLimiter(1);
+
+    await expect(limit(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(await limit(() => Promise.resolve("next"))).toBe("next");
+  });
+});
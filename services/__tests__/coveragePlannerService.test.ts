@@ -0,0 +1,127 @@
+import { CoveragePlannerService, MIN_TILE_RADIUS_METERS, SearchArea, SearchTile } from "../coveragePlannerService";
+import { LocationCoordinates } from "../locationService";
+
+const center: LocationCoordinates = { latitude: 37.7749, longitude: -122.4194 };
+
+const offset = (from: LocationCoordinates, northMeters: number, eastMeters: number): LocationCoordinates => ({
+  latitude: from.latitude + northMeters / 111195,
+  longitude: from.longitude + eastMeters / (111195 * Math.cos((from.latitude * Math.PI) / 180)),
+});
+
+// Points on rings out to the edge of a circle, every 10° around
+const samplePoints = (area: SearchArea): LocationCoordinates[] => {
+  const points = [area.center];
+  for (let ring = 1; ring <= 20; ring++) {
+    const distance = (area.radiusInMeters * ring) / 20;
+    for (let angle = 0; angle < 360; angle += 10) {
+      const radians = (angle * Math.PI) / 180;
+      points.push(offset(area.center, distance * Math.cos(radians), distance * Math.sin(radians)));
+    }
+  }
+  return points;
+};
+
+const isCovered = (point: LocationCoordinates, tiles: SearchTile[]) =>
+  tiles.some((tile) => CoveragePlannerService.distanceInMeters(point, tile.center) <= tile.radiusInMeters);
+
+describe("CoveragePlannerService", () => {
+  describe("planCoverage", () => {
+    it("searches an area that fits in one tile with a single circle", () => {
+      expect(CoveragePlannerService.planCoverage(center, 25000)).toEqual([
+        { center, radiusInMeters: 25000, hexagonRadiusInMeters: 25000, depth: 0 },
+      ]);
+      expect(CoveragePlannerService.planCoverage(center, 5000, 10000)).toHaveLength(1);
+    });
+
+    it.each([
+      [2500, 1000],
+      [7000, 5000],
+      [25000, 10000],
+      [40000, 6000],
+    ])("covers every point of a %dm radius with %dm tiles", (radiusInMeters, tileRadius) => {
+      const area = { center, radiusInMeters };
+      const tiles = CoveragePlannerService.planCoverage(center, radiusInMeters, tileRadius);
+
+      expect(tiles.length).toBeGreaterThan(1);
+      expect(samplePoints(area).filter((point) => !isCovered(point, tiles))).toEqual([]);
+    });
+
+    it("only plans tiles that reach the area", () => {
+      const tiles = CoveragePlannerService.planCoverage(center, 25000, 5000);
+
+      for (const tile of tiles) {
+        expect(CoveragePlannerService.distanceInMeters(center, tile.center)).toBeLessThan(25000 + tile.radiusInMeters);
+        expect(tile.depth).toBe(0);
+      }
+    });
+  });
+
+  describe("getTileRadius", () => {
+    it("grows tiles with the provider's page so each is expected to hold about one page", () => {
+      const radius = CoveragePlannerService.getTileRadius(500);
+
+      expect(radius).toBeGreaterThan(MIN_TILE_RADIUS_METERS);
+      expect(CoveragePlannerService.getTileRadius(2000)).toBeCloseTo(radius * 2);
+    });
+
+    it("never goes below the smallest tile", () => {
+      expect(CoveragePlannerService.getTileRadius(1)).toBe(MIN_TILE_RADIUS_METERS);
+    });
+  });
+
+  describe("subdivide", () => {
+    const area = { center, radiusInMeters: 25000 };
+
+    it.each([
+      ["the center", 0, 0],
+      ["the edge of the area", 18000, -12000],
+    ])("covers the part of a tile at %s that lies in the area", (_, northMeters, eastMeters) => {
+      const tile = { center: offset(center, northMeters, eastMeters), radiusInMeters: 8000, hexagonRadiusInMeters: 8000, depth: 1 };
+      const children = CoveragePlannerService.subdivide(tile, area);
+
+      const inBoth = samplePoints(tile).filter(
+        (point) => CoveragePlannerService.distanceInMeters(center, point) <= area.radiusInMeters
+      );
+      expect(inBoth.filter((point) => !isCovered(point, children))).toEqual([]);
+      for (const child of children) {
+        expect(child.depth).toBe(2);
+        expect(child.radiusInMeters).toBeLessThan(tile.radiusInMeters);
+      }
+    });
+
+    it("halves the tile size at every split without compounding the overlap", () => {
+      const [tile] = CoveragePlannerService.planHexTiling(area, 8000, 0);
+      const [child] = CoveragePlannerService.subdivide(tile, area);
+      const [grandchild] = CoveragePlannerService.subdivide(child, area);
+
+      expect(child.radiusInMeters).toBeCloseTo(tile.radiusInMeters / 2);
+      expect(grandchild.radiusInMeters).toBeCloseTo(tile.radiusInMeters / 4);
+    });
+
+    it("leaves out smaller tiles that fall entirely outside the area", () => {
+      const edgeTile = { center: offset(center, 0, 25000), radiusInMeters: 8000, hexagonRadiusInMeters: 8000, depth: 0 };
+
+      expect(CoveragePlannerService.subdivide(edgeTile, area).length).toBeLessThan(
+        CoveragePlannerService.subdivide({ ...edgeTile, center }, area).length
+      );
+    });
+
+    it("stops splitting once tiles would get too small", () => {
+      const tile = {
+        center,
+        radiusInMeters: MIN_TILE_RADIUS_METERS * 1.5,
+        hexagonRadiusInMeters: MIN_TILE_RADIUS_METERS * 1.5,
+        depth: 4,
+      };
+
+      expect(CoveragePlannerService.subdivide(tile, area)).toEqual([]);
+    });
+  });
+
+  describe("distanceInMeters", () => {
+    it("measures great-circle distance", () => {
+      expect(CoveragePlannerService.distanceInMeters(center, center)).toBe(0);
+      expect(CoveragePlannerService.distanceInMeters(center, offset(center, 10000, 0))).toBeCloseTo(10000, -1);
+    });
+  });
+});
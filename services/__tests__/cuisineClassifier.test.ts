@@ -0,0 +1,101 @@
+import { CuisineClassifier } from "../cuisineClassifier";
+
+describe("CuisineClassifier", () => {
+  describe("inferFromName", () => {
+    // [name, expected cuisines in priority order]
+    const cases: [string, string[]][] = [
+      // Word boundaries: fragments inside other words must not match
+      ["Paddy's Pub", []],
+      ["Spicewood Kitchen", []],
+      ["El Farolito", []],
+      ["La Boulange", []],
+      ["Le Bernardin", []],
+      ["Casablanca Lounge", ["Bar & Grill"]],
+      ["Teahouse Records", []],
+
+      // Single cuisines
+      ["Tony's Pizzeria", ["Pizza"]],
+      ["Golden Wok", ["Chinese"]],
+      ["Sushi Zen", ["Japanese"]],
+      ["Pho 24", ["Vietnamese"]],
+      ["Taqueria Cancun", ["Mexican"]],
+      ["Bombay Palace", ["Indian"]],
+      ["Pad Thai House", ["Thai"]],
+      ["Boba Guys", ["Bubble_tea"]],
+      ["Joe's Ice Cream", ["Ice_cream"]],
+      ["Blue Bottle Coffee", ["Coffee_shop"]],
+
+      // Multilingual keywords and accents
+      ["Trattoria da Enzo", ["Italian"]],
+      ["Café de Flore", ["Cafe"]],
+      ["Crêperie Bretonne", ["French"]],
+      ["Döner Haus", ["Turkish"]],
+      ["Caffè Trieste", ["Cafe"]],
+
+      // Priority: dishes beat places, places beat venue types
+      ["Tokyo Grill", ["Japanese", "American"]],
+      ["Bangkok Bistro", ["Thai", "French"]],
+      ["Sushi & Ramen Tokyo", ["Japanese"]],
+      ["Burger & Pizza Diner", ["American", "Pizza"]],
+      ["Istanbul Kebab", ["Turkish"]],
+    ];
+
+    it.each(cases)("%s -> %p", (name, expected) => {
+      expect(CuisineClassifier.inferFromName(name)).toEqual(expected);
+    });
+
+    it("returns nothing for a missing name", () => {
+      expect(CuisineClassifier.inferFromName(undefined)).toEqual([]);
+      expect(CuisineClassifier.inferFromName("")).toEqual([]);
+    });
+  });
+
+  describe("parseCuisineTag", () => {
+    const cases: [string | undefined, string[]][] = [
+      ["pizza;italian", ["Pizza", "Italian"]],
+      ["burger;american", ["American"]],
+      ["sushi; ramen", ["Japanese"]],
+      ["coffee_shop", ["Coffee_shop"]],
+      ["ice cream", ["Ice_cream"]],
+      ["Thai", ["Thai"]],
+      ["sandwich", ["Sandwich"]],
+      ["regional,german", ["Regional", "German"]],
+      ["", []],
+      [undefined, []],
+    ];
+
+    it.each(cases)("%p -> %p", (tag, expected) => {
+      expect(CuisineClassifier.parseCuisineTag(tag)).toEqual(expected);
+    });
+  });
+
+  describe("classify", () => {
+    it("prefers the OSM cuisine tag over the name", () => {
+      expect(
+        CuisineClassifier.classify({ cuisineTag: "pizza;italian", name: "Tokyo Grill" })
+      ).toEqual({ cuisines: ["Pizza", "Italian"], confidence: "explicit" });
+    });
+
+    it("falls back to the name, then the category", () => {
+      expect(
+        CuisineClassifier.classify({ name: "Tokyo Grill", categories: ["catering.restaurant"] })
+      ).toEqual({ cuisines: ["Japanese", "American"], confidence: "name" });
+      expect(
+        CuisineClassifier.classify({ name: "Paddy's Pub", categories: ["catering.bar"] })
+      ).toEqual({ cuisines: ["Bar & Grill"], confidence: "category" });
+    });
+
+    it("labels places without any hint consistently", () => {
+      expect(
+        CuisineClassifier.classify({ name: "Corner Spot", categories: ["catering.restaurant"] })
+      ).toEqual({ cuisines: ["Restaurant"], confidence: "unknown" });
+      expect(CuisineClassifier.classify({})).toEqual({ cuisines: ["Unknown"], confidence: "unknown" });
+    });
+  });
+
+  describe("tokenize", () => {
+    it("drops accents, case and punctuation", () => {
+      expect(CuisineClassifier.tokenize("Café Döner's, No.1")).toEqual(["cafe", "doner", "s", "no", "1"]);
+    });
+  });
+});
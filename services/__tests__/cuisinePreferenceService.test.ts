@@ -0,0 +1,131 @@
+import {
+  CuisinePreferences,
+  CuisinePreferenceService,
+  EMPTY_CUISINE_PREFERENCES,
+} from "../cuisinePreferenceService";
+import { Restaurant } from "../../types/restaurant";
+import { makeRestaurant } from "../../test-utils/restaurants";
+
+const prefs = (overrides: Partial<CuisinePreferences>): CuisinePreferences => ({
+  ...EMPTY_CUISINE_PREFERENCES,
+  ...overrides,
+});
+
+describe("CuisinePreferenceService", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("getCuisineLabels", () => {
+    it("splits and normalizes compound OSM cuisines", () => {
+      expect(CuisinePreferenceService.getCuisineLabels(makeRestaurant("1", { cuisine: "sushi;Ice_cream" }))).toEqual([
+        "japanese",
+        "ice_cream",
+      ]);
+    });
+  });
+
+  describe("isAllowed", () => {
+    it("allows everything when no preferences are set", () => {
+      expect(CuisinePreferenceService.isAllowed(makeRestaurant("1", { cuisine: "Thai" }), EMPTY_CUISINE_PREFERENCES)).toBe(true);
+    });
+
+    it("rejects excluded cuisines, including inside compound values", () => {
+      const preferences = prefs({ exclude: ["American"] });
+      expect(CuisinePreferenceService.isAllowed(makeRestaurant("1", { cuisine: "American" }), preferences)).toBe(false);
+      expect(CuisinePreferenceService.isAllowed(makeRestaurant("2", { cuisine: "pizza;burger" }), preferences)).toBe(false);
+      expect(CuisinePreferenceService.isAllowed(makeRestaurant("3", { cuisine: "Thai" }), preferences)).toBe(true);
+    });
+
+    it("only allows included cuisines when the include list is non-empty", () => {
+      const preferences = prefs({ include: ["Thai", "Indian"] });
+      expect(CuisinePreferenceService.isAllowed(makeRestaurant("1", { cuisine: "Thai" }), preferences)).toBe(true);
+      expect(CuisinePreferenceService.isAllowed(makeRestaurant("2", { cuisine: "Pizza" }), preferences)).toBe(false);
+    });
+
+    it("lets exclusions win over inclusions", () => {
+      const preferences = prefs({ include: ["Pizza"], exclude: ["Italian"] });
+      expect(CuisinePreferenceService.isAllowed(makeRestaurant("1", { cuisine: "pizza;italian" }), preferences)).toBe(false);
+    });
+  });
+
+  describe("matchGuessedCuisines", () => {
+    const guessed: Restaurant = { ...makeRestaurant("1", { cuisine: "Thai" }), cuisineConfidence: "name" };
+    const tagged: Restaurant = { ...makeRestaurant("2", { cuisine: "Thai" }), cuisineConfidence: "explicit" };
+
+    it("only matches tagged cuisines for include and boost when turned off", () => {
+      const preferences = prefs({ include: ["Thai"], boost: ["Thai"], matchGuessedCuisines: false });
+
+      expect(CuisinePreferenceService.isAllowed(guessed, preferences)).toBe(false);
+      expect(CuisinePreferenceService.isAllowed(tagged, preferences)).toBe(true);
+      expect(CuisinePreferenceService.getWeight(guessed, preferences)).toBe(1);
+      expect(CuisinePreferenceService.getWeight(tagged, preferences)).toBeGreaterThan(1);
+    });
+
+    it("still hides guessed cuisines that are excluded", () => {
+      const preferences = prefs({ exclude: ["Thai"], matchGuessedCuisines: false });
+      expect(CuisinePreferenceService.isAllowed(guessed, preferences)).toBe(false);
+    });
+  });
+
+  describe("getWeight", () => {
+    it("weights boosted cuisines above the rest", () => {
+      const preferences = prefs({ boost: ["Japanese"] });
+      const boosted = CuisinePreferenceService.getWeight(makeRestaurant("1", { cuisine: "sushi" }), preferences);
+      const normal = CuisinePreferenceService.getWeight(makeRestaurant("2", { cuisine: "Thai" }), preferences);
+      expect(boosted).toBeGreaterThan(normal);
+      expect(normal).toBe(1);
+    });
+  });
+
+  describe("filterRestaurants", () => {
+    it("keeps only allowed restaurants in their original order", () => {
+      const restaurants = [
+        makeRestaurant("1", { cuisine: "Thai" }),
+        makeRestaurant("2", { cuisine: "Pizza" }),
+        makeRestaurant("3", { cuisine: "Indian" }),
+      ];
+      const filtered = CuisinePreferenceService.filterRestaurants(restaurants, prefs({ exclude: ["Pizza"] }));
+      expect(filtered.map((r) => r.id)).toEqual(["1", "3"]);
+    });
+  });
+
+  describe("toggleCuisine", () => {
+    it("adds a cuisine to the chosen list and removes it on a second toggle", () => {
+      const added = CuisinePreferenceService.toggleCuisine(EMPTY_CUISINE_PREFERENCES, "boost", "Thai");
+      expect(added.boost).toEqual(["Thai"]);
+
+      const removed = CuisinePreferenceService.toggleCuisine(added, "boost", "Thai");
+      expect(removed).toEqual(EMPTY_CUISINE_PREFERENCES);
+    });
+
+    it("moves a cuisine between lists instead of duplicating it", () => {
+      const included = CuisinePreferenceService.toggleCuisine(EMPTY_CUISINE_PREFERENCES, "include", "Thai");
+      const excluded = CuisinePreferenceService.toggleCuisine(included, "exclude", "Thai");
+      expect(excluded).toEqual(prefs({ exclude: ["Thai"] }));
+    });
+  });
+
+  describe("sanitize", () => {
+    it("returns empty lists for missing or malformed input", () => {
+      expect(CuisinePreferenceService.sanitize(undefined)).toEqual(EMPTY_CUISINE_PREFERENCES);
+      expect(
+        CuisinePreferenceService.sanitize({ include: "Thai" as unknown as string[] })
+      ).toEqual(EMPTY_CUISINE_PREFERENCES);
+    });
+
+    it("drops unknown cuisines and keeps excluded ones over other lists", () => {
+      expect(
+        CuisinePreferenceService.sanitize({
+          include: ["Thai", "Martian"],
+          boost: ["Pizza", "Pizza"],
+          exclude: ["Thai"],
+        })
+      ).toEqual({ include: [], exclude: ["Thai"], boost: ["Pizza"], matchGuessedCuisines: true });
+    });
+  });
+});
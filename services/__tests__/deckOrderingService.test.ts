@@ -0,0 +1,129 @@
+import { makeRestaurant, TEST_ORIGIN } from "../../test-utils/restaurants";
+import { Restaurant } from "../../types/restaurant";
+import { DeckOrderingService, DeckSortContext } from "../deckOrderingService";
+import { RandomService } from "../randomService";
+
+const origin = TEST_ORIGIN;
+
+// Roughly 1.11 km per 0.01 degrees of latitude
+const atDistance = (id: string, distanceKm: number): Restaurant =>
+  makeRestaurant(id, { latitude: origin.latitude + distanceKm / 111.2 });
+
+const ids = (restaurants: Restaurant[]) => restaurants.map((restaurant) => restaurant.id);
+
+const makeContext = (overrides: Partial<DeckSortContext> = {}): DeckSortContext => ({
+  origin,
+  radiusKm: 30,
+  random: RandomService.createRandom(1),
+  ...overrides,
+});
+
+describe("DeckOrderingService", () => {
+  const deck = [
+    atDistance("far", 28),
+    atDistance("near", 0.2),
+    atDistance("middle", 15),
+    atDistance("close", 3),
+  ];
+
+  describe("nearestFirst", () => {
+    it("sorts by distance from the origin", () => {
+      expect(ids(DeckOrderingService.nearestFirst(deck, makeContext()))).toEqual([
+        "near",
+        "close",
+        "middle",
+        "far",
+      ]);
+    });
+
+    it("keeps the order without a location", () => {
+      expect(DeckOrderingService.nearestFirst(deck, makeContext({ origin: null }))).toEqual(deck);
+    });
+  });
+
+  describe("distanceWeighted", () => {
+    it("puts a 200 m restaurant ahead of a 28 km one most of the time", () => {
+      const random = RandomService.createRandom(2);
+      let nearAhead = 0;
+
+      for (let i = 0; i < 500; i++) {
+        const order = ids(DeckOrderingService.distanceWeighted(deck, makeContext({ random })));
+        if (order.indexOf("near") < order.indexOf("far")) nearAhead++;
+      }
+
+      // Weights are about 0.97 and 0.21, so near comes first ~82% of the time
+      expect(nearAhead / 500).toBeGreaterThan(0.75);
+    });
+
+    it("combines the distance weight with the context weight", () => {
+      const random = RandomService.createRandom(3);
+      const pair = [atDistance("a", 5), atDistance("b", 5)];
+      let boostedFirst = 0;
+
+      for (let i = 0; i < 500; i++) {
+        const order = DeckOrderingService.distanceWeighted(
+          pair,
+          makeContext({ random, getWeight: (restaurant) => (restaurant.id === "b" ? 3 : 1) })
+        );
+        if (order[0].id === "b") boostedFirst++;
+      }
+
+      expect(boostedFirst / 500).toBeCloseTo(0.75, 1);
+    });
+  });
+
+  describe("interleaveRings", () => {
+    it("deals one restaurant from each ring in turn", () => {
+      // Rings end at 2, 4, 8, 16 and 30 km
+      const zoned = [
+        atDistance("a1", 0.5),
+        atDistance("a2", 1.5),
+        atDistance("b1", 3),
+        atDistance("c1", 12),
+        atDistance("d1", 25),
+        atDistance("d2", 26),
+      ];
+      const sorter = DeckOrderingService.interleaveRings(DeckOrderingService.nearestFirst);
+
+      expect(ids(sorter(zoned, makeContext()))).toEqual(["a1", "b1", "c1", "d1", "a2", "d2"]);
+    });
+
+    it("keeps every restaurant", () => {
+      const sorter = DeckOrderingService.interleaveRings();
+      expect(ids(sorter(deck, makeContext())).sort()).toEqual(ids(deck).sort());
+    });
+  });
+
+  describe("getRingEdges", () => {
+    it("uses the rings the deck is paged in by", () => {
+      expect(DeckOrderingService.getRingEdges(30)).toEqual([2, 4, 8, 16, 30]);
+      expect(DeckOrderingService.getRingEdges(5)).toEqual([2, 5]);
+    });
+
+    it("splits a radius fetched in one ring into equal rings", () => {
+      expect(DeckOrderingService.getRingEdges(1.5)).toEqual([0.5, 1, 1.5]);
+    });
+  });
+
+  describe("compose", () => {
+    it("runs sorters left to right", () => {
+      const reverse = (restaurants: Restaurant[]) => [...restaurants].reverse();
+      const sorter = DeckOrderingService.compose(DeckOrderingService.nearestFirst, reverse);
+
+      expect(ids(sorter(deck, makeContext()))).toEqual(["far", "middle", "close", "near"]);
+    });
+  });
+
+  describe("getSorter", () => {
+    it("returns a reproducible order for each setting", () => {
+      (["random", "nearest", "distance_weighted", "ring_interleaved"] as const).forEach((ordering) => {
+        const sorter = DeckOrderingService.getSorter(ordering);
+        const first = sorter(deck, makeContext({ random: RandomService.createRandom("seed") }));
+        const second = sorter(deck, makeContext({ random: RandomService.createRandom("seed") }));
+
+        expect(ids(second)).toEqual(ids(first));
+        expect(first).toHaveLength(deck.length);
+      });
+    });
+  });
+});
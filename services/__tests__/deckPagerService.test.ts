@@ -0,0 +1,182 @@
+import { makeRestaurant } from "../../test-utils/restaurants";
+import { DeckPage, DeckPagerService } from "../deckPagerService";
+import { PlaceProviderError } from "../placeProviderError";
+import { DeckResult, RestaurantService, RingResult } from "../restaurantService";
+
+const restaurants = (...ids: string[]) => ids.map((id) => makeRestaurant(id));
+
+const deck = (...ids: string[]): DeckResult => ({ ok: true, restaurants: restaurants(...ids), source: "live" });
+
+const ring = (...ids: string[]): RingResult => ({ deck: deck(...ids), found: restaurants(...ids) });
+
+const failedRing = (error: PlaceProviderError): RingResult => ({ deck: { ok: false, error }, found: [] });
+
+const ids = (page: DeckPage | void) => (page && page.ok ? page.restaurants.map((restaurant) => restaurant.id) : []);
+
+describe("DeckPagerService", () => {
+  const location = { latitude: 37.7749, longitude: -122.4194 };
+  let fetchRing: jest.SpyInstance;
+  let cacheArea: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(RestaurantService, "fetchCachedRestaurants").mockResolvedValue(null);
+    cacheArea = jest.spyOn(RestaurantService, "cacheAreaRestaurants").mockResolvedValue();
+    fetchRing = jest.spyOn(RestaurantService, "fetchRing");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("getRingRadii", () => {
+    it("doubles out to the full radius, folding a last ring that's nearly full size into it", () => {
+      expect(DeckPagerService.getRingRadii(25000)).toEqual([2000, 4000, 8000, 16000, 25000]);
+      expect(DeckPagerService.getRingRadii(5000)).toEqual([2000, 5000]);
+      expect(DeckPagerService.getRingRadii(1500)).toEqual([1500]);
+    });
+  });
+
+  describe("pages", () => {
+    it("fetches the ring just outside the last one per pull, each page holding only restaurants not seen before", async () => {
+      fetchRing
+        .mockResolvedValueOnce(ring("a", "b"))
+        .mockResolvedValueOnce(ring("b", "c"))
+        .mockResolvedValueOnce(ring("d"));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 10000 });
+
+      expect(ids((await pager.next()).value)).toEqual(["a", "b"]);
+      expect(fetchRing).toHaveBeenCalledTimes(1);
+      expect(fetchRing.mock.calls[0].slice(0, 3)).toEqual([location, 0, 2000]);
+
+      expect(ids((await pager.next()).value)).toEqual(["c"]);
+      expect(ids((await pager.next()).value)).toEqual(["d"]);
+      expect(fetchRing.mock.calls.map((call) => call.slice(1, 3))).toEqual([
+        [0, 2000],
+        [2000, 4000],
+        [4000, 10000],
+      ]);
+      expect((await pager.next()).done).toBe(true);
+    });
+
+    it("caches the whole area once, when its last ring is in", async () => {
+      fetchRing.mockResolvedValueOnce(ring("a")).mockResolvedValueOnce(ring("b", "c"));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 5000 });
+
+      await pager.next();
+      expect(cacheArea).not.toHaveBeenCalled();
+
+      await pager.next();
+      expect(cacheArea).toHaveBeenCalledTimes(1);
+      expect(cacheArea).toHaveBeenCalledWith(location, 5000, restaurants("a", "b", "c"));
+    });
+
+    it("doesn't cache an area with a ring that came back incomplete", async () => {
+      const error = new PlaceProviderError("server", "Geoapify API error: 503");
+      fetchRing
+        .mockResolvedValueOnce({ ...ring("a"), deck: { ...deck("a"), error } })
+        .mockResolvedValueOnce(ring("b"));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 5000 });
+
+      expect((await pager.next()).value).toMatchObject({ ok: true, error });
+      await pager.next();
+      expect(cacheArea).not.toHaveBeenCalled();
+    });
+
+    it("skips excluded restaurants and rings with nothing new", async () => {
+      fetchRing.mockResolvedValueOnce(ring("a")).mockResolvedValueOnce(ring("b"));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 5000, excludedIds: ["a"] });
+
+      expect(ids((await pager.next()).value)).toEqual(["b"]);
+      expect(fetchRing).toHaveBeenCalledTimes(2);
+    });
+
+    it("shows excluded restaurants again when nothing else is in range", async () => {
+      fetchRing.mockResolvedValueOnce(ring("a")).mockResolvedValueOnce(ring("b"));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 5000, excludedIds: ["a", "b"] });
+
+      expect(ids((await pager.next()).value)).toEqual(["a", "b"]);
+      expect((await pager.next()).done).toBe(true);
+    });
+
+    it("serves a cached deck for the full radius as one page without fetching", async () => {
+      jest.spyOn(RestaurantService, "fetchCachedRestaurants").mockResolvedValue({ ok: true, restaurants: restaurants("a", "b"), source: "cache" });
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 25000 });
+
+      const page = (await pager.next()).value;
+      expect(ids(page)).toEqual(["a", "b"]);
+      expect(page && page.ok && page.source).toBe("cache");
+      expect((await pager.next()).done).toBe(true);
+      expect(fetchRing).not.toHaveBeenCalled();
+    });
+
+    it("skips the cache when forced to refresh", async () => {
+      fetchRing.mockResolvedValue(ring("a"));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 1000, forceRefresh: true });
+
+      expect(ids((await pager.next()).value)).toEqual(["a"]);
+      expect(RestaurantService.fetchCachedRestaurants).not.toHaveBeenCalled();
+    });
+
+    it("yields a failed ring as an error and fetches it again on the next pull", async () => {
+      const error = new PlaceProviderError("server", "Geoapify API error: 503", 503, 0);
+      fetchRing.mockResolvedValueOnce(failedRing(error)).mockResolvedValueOnce(ring("a"));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 1000 });
+
+      expect((await pager.next()).value).toEqual({ ok: false, error, radiusInMeters: 1000 });
+      expect(ids((await pager.next()).value)).toEqual(["a"]);
+      expect(fetchRing.mock.calls.map((call) => call[2])).toEqual([1000, 1000]);
+    });
+
+    it("gives up on a ring after a few failed attempts", async () => {
+      const error = new PlaceProviderError("server", "Geoapify API error: 503", 503, 0);
+      fetchRing.mockResolvedValue(failedRing(error));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 5000 });
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        expect((await pager.next()).value).toMatchObject({ ok: false, error });
+      }
+      expect((await pager.next()).done).toBe(true);
+      expect(fetchRing).toHaveBeenCalledTimes(3);
+    });
+
+    it("stops after an error that fetching again won't fix", async () => {
+      const error = new PlaceProviderError("unauthorized", "Geoapify API error: 401", 401);
+      fetchRing.mockResolvedValue(failedRing(error));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 5000 });
+
+      expect((await pager.next()).value).toMatchObject({ ok: false, error });
+      expect((await pager.next()).done).toBe(true);
+      expect(fetchRing).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops once cancelled", async () => {
+      const error = new PlaceProviderError("cancelled", "Request was cancelled");
+      fetchRing.mockResolvedValue(failedRing(error));
+      const pager = DeckPagerService.pages({ location, maxRadiusInMeters: 5000 });
+
+      expect((await pager.next()).value).toMatchObject({ ok: false, error });
+      expect((await pager.next()).done).toBe(true);
+      expect(fetchRing).toHaveBeenCalledTimes(1);
+    });
+
+    it("streams a wide ring's partial results, leaving out ones already shown", async () => {
+      const partials: string[][] = [];
+      fetchRing
+        .mockResolvedValueOnce(ring("a"))
+        .mockImplementationOnce(async (...args: Parameters<typeof RestaurantService.fetchRing>) => {
+          args[4]?.onPartialResults?.(restaurants("a", "b"));
+          return ring("b", "c");
+        });
+      const pager = DeckPagerService.pages({
+        location,
+        maxRadiusInMeters: 5000,
+        onPartialPage: (page) => partials.push(page.map((restaurant) => restaurant.id)),
+      });
+
+      await pager.next();
+      expect(ids((await pager.next()).value)).toEqual(["b", "c"]);
+      expect(partials).toEqual([["b"]]);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Restaurant } from "../../types/restaurant";
+import { makeRestaurant } from "../../test-utils/restaurants";
+import { FavoriteRestaurant, FavoritesService } from "../favoritesService";
+
+let mockSupabase: any = null;
+jest.mock("../supabaseClient", () => ({
+  get supabase() {
+    return mockSupabase;
+  },
+}));
+
+// Favorites tests mostly save the same restaurant, varying one field at a time
+const luigis = makeRestaurant("r1", {
+  name: "Luigi's",
+  cuisines: ["Italian", "Pizza"],
+  image: "https://example.com/luigi.jpg",
+  address: "1 Market St, San Francisco",
+});
+
+const makeFavorite = (overrides: Partial<Restaurant>, favoritedAt: number): FavoriteRestaurant => ({
+  restaurant: { ...luigis, ...overrides },
+  favoritedAt,
+  location: { latitude: 37.7749, longitude: -122.4194 },
+});
+
+describe("FavoritesService", () => {
+  const location = { latitude: 37.775, longitude: -122.419 };
+
+  beforeEach(async () => {
+    mockSupabase = null;
+    await AsyncStorage.clear();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("addFavorite", () => {
+    it("stores a snapshot with timestamp and location", async () => {
+      jest.spyOn(Date, "now").mockReturnValue(1700000000000);
+
+      await FavoritesService.addFavorite(luigis, location);
+      const favorites = await FavoritesService.getFavorites();
+
+      expect(favorites).toHaveLength(1);
+      expect(favorites[0]).toEqual({
+        restaurant: luigis,
+        favoritedAt: 1700000000000,
+        location,
+      });
+    });
+
+    it("replaces an earlier entry for the same restaurant", async () => {
+      await FavoritesService.addFavorite({ ...luigis, name: "Old name" }, location);
+      await FavoritesService.addFavorite({ ...luigis, id: "r2", name: "Other" }, location);
+      await FavoritesService.addFavorite({ ...luigis, name: "New name" }, null);
+
+      const favorites = await FavoritesService.getFavorites();
+      expect(favorites.map((item) => item.restaurant.name)).toEqual(["New name", "Other"]);
+      expect(favorites[0].location).toBeNull();
+    });
+
+    it("keeps both favorites when they are saved at the same time", async () => {
+      await Promise.all([
+        FavoritesService.addFavorite(luigis, location),
+        FavoritesService.addFavorite({ ...luigis, id: "r2" }, location),
+      ]);
+
+      const ids = (await FavoritesService.getFavorites()).map((item) => item.restaurant.id);
+      expect(ids.sort()).toEqual(["r1", "r2"]);
+    });
+  });
+
+  describe("removeFavorite", () => {
+    it("removes only the given restaurant", async () => {
+      await FavoritesService.addFavorite(luigis, location);
+      await FavoritesService.addFavorite({ ...luigis, id: "r2" }, location);
+
+      await FavoritesService.removeFavorite("r1");
+
+      expect(await FavoritesService.isFavorite("r1")).toBe(false);
+      expect(await FavoritesService.isFavorite("r2")).toBe(true);
+    });
+
+    it("does not bring back a favorite removed while another is saved", async () => {
+      await FavoritesService.addFavorite(luigis, location);
+
+      await Promise.all([
+        FavoritesService.addFavorite({ ...luigis, id: "r2" }, location),
+        FavoritesService.removeFavorite("r1"),
+      ]);
+
+      expect(await FavoritesService.isFavorite("r1")).toBe(false);
+      expect(await FavoritesService.isFavorite("r2")).toBe(true);
+    });
+  });
+
+  describe("sortFavorites", () => {
+    const favorites = [
+      makeFavorite({ id: "near", name: "Bravo", latitude: 37.7751, longitude: -122.4194 }, 2000),
+      makeFavorite({ id: "far", name: "alpha", latitude: 37.8, longitude: -122.4194 }, 3000),
+      makeFavorite({ id: "mid", name: "Charlie", latitude: 37.78, longitude: -122.4194 }, 1000),
+    ];
+
+    it("sorts by most recent first", () => {
+      const ids = FavoritesService.sortFavorites(favorites, "recent").map((item) => item.restaurant.id);
+      expect(ids).toEqual(["far", "near", "mid"]);
+    });
+
+    it("sorts by name ignoring case", () => {
+      const ids = FavoritesService.sortFavorites(favorites, "name").map((item) => item.restaurant.id);
+      expect(ids).toEqual(["far", "near", "mid"]);
+    });
+
+    it("sorts by distance from the given origin", () => {
+      const origin = { latitude: 37.8, longitude: -122.4194 };
+      const ids = FavoritesService.sortFavorites(favorites, "distance", origin).map((item) => item.restaurant.id);
+      expect(ids).toEqual(["far", "mid", "near"]);
+    });
+
+    it("falls back to the location the favorite was recorded at", () => {
+      const ids = FavoritesService.sortFavorites(favorites, "distance").map((item) => item.restaurant.id);
+      expect(ids).toEqual(["near", "mid", "far"]);
+    });
+
+    it("does not mutate the input", () => {
+      FavoritesService.sortFavorites(favorites, "name");
+      expect(favorites.map((item) => item.restaurant.id)).toEqual(["near", "far", "mid"]);
+    });
+  });
+
+  describe("searchFavorites", () => {
+    const favorites = [
+      makeFavorite({ id: "a", name: "Golden Dragon", cuisine: "Chinese", cuisines: ["Chinese"] }, 1),
+      makeFavorite({ id: "b", name: "Luigi's", address: "42 Dragon Ave" }, 2),
+      makeFavorite({ id: "c", name: "Taqueria", cuisine: "Mexican", cuisines: undefined }, 3),
+    ];
+
+    it.each([
+      ["dragon", ["a", "b"]],
+      ["PIZZA", ["b"]],
+      ["mexican", ["c"]],
+      ["  ", ["a", "b", "c"]],
+      ["sushi", []],
+    ])("matches %p", (query, expectedIds) => {
+      const ids = FavoritesService.searchFavorites(favorites, query).map((item) => item.restaurant.id);
+      expect(ids).toEqual(expectedIds);
+    });
+  });
+
+  describe("with Supabase", () => {
+    const upsert = jest.fn();
+    const deleteEq = jest.fn();
+    const selectEq = jest.fn();
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      upsert.mockResolvedValue({ error: null });
+      deleteEq.mockResolvedValue({ error: null });
+      let session: { user: { id: string } } | null = null;
+      mockSupabase = {
+        auth: {
+          getSession: jest.fn(async () => ({ data: { session } })),
+          signInAnonymously: jest.fn(async () => {
+            session = { user: { id: `user-${Math.random()}` } };
+            return { data: { user: session.user }, error: null };
+          }),
+        },
+        from: jest.fn(() => ({
+          upsert,
+          delete: jest.fn(() => ({ eq: jest.fn(() => ({ eq: deleteEq })) })),
+          select: jest.fn(() => ({ eq: selectEq })),
+        })),
+      };
+    });
+
+    it("mirrors new favorites under one anonymous user, without the location", async () => {
+      await FavoritesService.addFavorite(luigis, location);
+      await FavoritesService.addFavorite({ ...luigis, id: "r2" }, location);
+
+      expect(mockSupabase.from).toHaveBeenCalledWith("favorite_restaurants");
+      expect(mockSupabase.auth.signInAnonymously).toHaveBeenCalledTimes(1);
+      expect(upsert).toHaveBeenCalledTimes(2);
+      const [first, second] = upsert.mock.calls.map(([record]) => record);
+      expect(first.restaurant_id).toBe("r1");
+      expect(first).not.toHaveProperty("location");
+      expect(first.owner_id).toBe(second.owner_id);
+      expect((await FavoritesService.getFavorites())[0].location).toEqual(location);
+    });
+
+    it("keeps the local favorite when anonymous sign-in fails", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      mockSupabase.auth.signInAnonymously.mockResolvedValue({
+        data: { user: null },
+        error: { message: "Anonymous sign-ins are disabled" },
+      });
+
+      await FavoritesService.addFavorite(luigis, location);
+
+      expect(upsert).not.toHaveBeenCalled();
+      expect(await FavoritesService.isFavorite("r1")).toBe(true);
+    });
+
+    it("keeps the local favorite when the shared write fails", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      upsert.mockResolvedValue({ error: { message: "offline" } });
+
+      await FavoritesService.addFavorite(luigis, location);
+
+      expect(await FavoritesService.isFavorite("r1")).toBe(true);
+    });
+
+    it("deletes the shared row on un-favorite", async () => {
+      await FavoritesService.addFavorite(luigis, location);
+      await FavoritesService.removeFavorite("r1");
+
+      expect(deleteEq).toHaveBeenCalledWith("restaurant_id", "r1");
+    });
+
+    it("restores favorites that only exist in Supabase", async () => {
+      await FavoritesService.addFavorite({ ...luigis, name: "Local copy" }, location);
+      selectEq.mockResolvedValue({
+        data: [
+          {
+            owner_id: "user",
+            restaurant_id: "r1",
+            restaurant: { ...luigis, name: "Remote copy" },
+            favorited_at: new Date(0).toISOString(),
+          },
+          {
+            owner_id: "user",
+            restaurant_id: "r9",
+            restaurant: { ...luigis, id: "r9", name: "Remote only" },
+            favorited_at: new Date(0).toISOString(),
+          },
+        ],
+        error: null,
+      });
+
+      const synced = await FavoritesService.syncFavorites();
+
+      expect(synced.map((item) => item.restaurant.name)).toEqual(["Local copy", "Remote only"]);
+      expect(await FavoritesService.isFavorite("r9")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { FixturePlaceProvider } from "../fixturePlaceProvider";
+import { LocationService } from "../locationService";
+
+describe("FixturePlaceProvider", () => {
+  const provider = new FixturePlaceProvider();
+  const tokyo = { latitude: 35.6762, longitude: 139.6503 };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("places every fixture restaurant inside the search circle around the center", async () => {
+    const restaurants = await provider.searchInCircle(tokyo, 2000, 500);
+
+    expect(restaurants.length).toBeGreaterThan(10);
+    restaurants.forEach((restaurant) => {
+      expect(LocationService.calculateDistance(tokyo, restaurant)).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it("returns the nearest restaurants first and respects the limit", async () => {
+    const restaurants = await provider.searchInCircle(tokyo, 5000, 5);
+    const distances = restaurants.map((restaurant) => LocationService.calculateDistance(tokyo, restaurant));
+
+    expect(restaurants).toHaveLength(5);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it("keeps ids and classifications stable between searches", async () => {
+    const first = await provider.searchInCircle(tokyo, 5000, 500);
+    const second = await provider.searchInCircle({ latitude: -33.8688, longitude: 151.2093 }, 5000, 500);
+
+    const summarize = (restaurants: typeof first) =>
+      restaurants.map((r) => `${r.id}:${r.cuisine}`).sort();
+    expect(summarize(second)).toEqual(summarize(first));
+  });
+
+  it("normalizes fixture features like live data, marking ratings and prices as demo values", async () => {
+    const restaurant = await provider.getPlaceDetails("fixture-01");
+
+    expect(restaurant).toMatchObject({
+      name: "Giuseppe's Italian Kitchen",
+      cuisine: "Italian",
+      cuisineConfidence: "explicit",
+      rating: 4.5,
+      ratingSource: "demo",
+      priceRange: "$$",
+      priceRangeSource: "demo",
+      dataSource: "api",
+    });
+    expect(restaurant?.openingHours).toBeDefined();
+  });
+
+  it("returns null for unknown place ids", async () => {
+    await expect(provider.getPlaceDetails("missing")).resolves.toBeNull();
+  });
+});
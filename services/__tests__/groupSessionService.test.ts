@@ -0,0 +1,164 @@
+import { makeRestaurant } from "../../test-utils/restaurants";
+import { GroupMatch, GroupSessionService, GroupSessionState } from "../groupSessionService";
+import { LocalGroupSessionBackend } from "../localGroupSessionBackend";
+import { RestaurantService } from "../restaurantService";
+
+// Let LocalGroupSessionBackend deliver its change events
+const flushChanges = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("GroupSessionService", () => {
+  const location = { latitude: 37.7749, longitude: -122.4194 };
+  const deck = ["a", "b", "c", "d"].map((id) => makeRestaurant(id));
+
+  beforeEach(() => {
+    GroupSessionService.setBackendOverride(new LocalGroupSessionBackend());
+    jest.spyOn(RestaurantService, "fetchNearbyRestaurants").mockResolvedValue({ ok: true, restaurants: deck, source: "live" });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    GroupSessionService.setBackendOverride(null);
+    jest.restoreAllMocks();
+  });
+
+  it("creates a room from the host's nearby restaurants, seeded by the room code", async () => {
+    const host = GroupSessionService.createParticipant("Ana");
+
+    const session = await GroupSessionService.createSession(host, location, 2000);
+
+    expect(RestaurantService.fetchNearbyRestaurants).toHaveBeenCalledWith(location, 2000, 500, false, {
+      seed: session.code,
+    });
+    expect(session.code).toMatch(/^[A-Z2-9]{6}$/);
+    expect(session.hostId).toBe(host.id);
+    expect(session.restaurants.map((restaurant) => restaurant.id)).toEqual(["a", "b", "c", "d"]);
+    expect(session.quorum).toBeNull();
+  });
+
+  it("gives joining members the same deck order", async () => {
+    const host = GroupSessionService.createParticipant("Ana");
+    const session = await GroupSessionService.createSession(host, location, 2000);
+
+    const joined = await GroupSessionService.joinSession(` ${session.code.toLowerCase()} `, GroupSessionService.createParticipant("Ben"));
+
+    expect(joined.restaurants.map((restaurant) => restaurant.id)).toEqual(["a", "b", "c", "d"]);
+    const state = await GroupSessionService.getState(session.code);
+    expect(state.participants.map((member) => member.name)).toEqual(["Ana", "Ben"]);
+  });
+
+  it("rejects unknown room codes", async () => {
+    await expect(
+      GroupSessionService.joinSession("NOPE42", GroupSessionService.createParticipant("Ben"))
+    ).rejects.toThrow("No group session found for code NOPE42.");
+  });
+
+  it("refuses to create a room without restaurants", async () => {
+    jest.spyOn(RestaurantService, "fetchNearbyRestaurants").mockResolvedValue({ ok: true, restaurants: [], source: "live" });
+
+    await expect(
+      GroupSessionService.createSession(GroupSessionService.createParticipant("Ana"), location, 2000)
+    ).rejects.toThrow("No restaurants found nearby");
+  });
+
+  describe("matching", () => {
+    it("matches when every member swipes right", async () => {
+      const ana = GroupSessionService.createParticipant("Ana");
+      const ben = GroupSessionService.createParticipant("Ben");
+      const { code } = await GroupSessionService.createSession(ana, location, 2000);
+      await GroupSessionService.joinSession(code, ben);
+
+      await GroupSessionService.recordSwipe(code, ana.id, "a", true);
+      await GroupSessionService.recordSwipe(code, ana.id, "b", true);
+      await GroupSessionService.recordSwipe(code, ben.id, "a", true);
+      await GroupSessionService.recordSwipe(code, ben.id, "b", false);
+
+      const { matches } = await GroupSessionService.getState(code);
+      expect(matches).toEqual([{ restaurant: deck[0], likes: 2, required: 2 }]);
+    });
+
+    it("uses the quorum when one is set", async () => {
+      const members = ["Ana", "Ben", "Cy"].map((name) => GroupSessionService.createParticipant(name));
+      const { code } = await GroupSessionService.createSession(members[0], location, 2000, { quorum: 2 });
+      await GroupSessionService.joinSession(code, members[1]);
+      await GroupSessionService.joinSession(code, members[2]);
+
+      await GroupSessionService.recordSwipe(code, members[0].id, "c", true);
+      await GroupSessionService.recordSwipe(code, members[2].id, "c", true);
+
+      const { matches } = await GroupSessionService.getState(code);
+      expect(matches.map((match) => [match.restaurant.id, match.likes, match.required])).toEqual([["c", 2, 2]]);
+    });
+
+    it("uses the latest swipe when a member changes their mind", async () => {
+      const ana = GroupSessionService.createParticipant("Ana");
+      const ben = GroupSessionService.createParticipant("Ben");
+      const { code } = await GroupSessionService.createSession(ana, location, 2000);
+      await GroupSessionService.joinSession(code, ben);
+
+      await GroupSessionService.recordSwipe(code, ana.id, "a", true);
+      await GroupSessionService.recordSwipe(code, ben.id, "a", true);
+      await GroupSessionService.recordSwipe(code, ben.id, "a", false);
+
+      expect((await GroupSessionService.getState(code)).matches).toEqual([]);
+    });
+
+    it("does not match in a room with a single member", async () => {
+      const ana = GroupSessionService.createParticipant("Ana");
+      const { code } = await GroupSessionService.createSession(ana, location, 2000);
+
+      await GroupSessionService.recordSwipe(code, ana.id, "a", true);
+
+      expect((await GroupSessionService.getState(code)).matches).toEqual([]);
+    });
+  });
+
+  describe("watchSession", () => {
+    it("notifies every device once when a restaurant reaches the quorum", async () => {
+      const ana = GroupSessionService.createParticipant("Ana");
+      const ben = GroupSessionService.createParticipant("Ben");
+      const { code } = await GroupSessionService.createSession(ana, location, 2000);
+      await GroupSessionService.joinSession(code, ben);
+
+      const anaMatches: GroupMatch[] = [];
+      const benMatches: GroupMatch[] = [];
+      const stopAna = GroupSessionService.watchSession(code, { onMatch: (match) => anaMatches.push(match) });
+      const stopBen = GroupSessionService.watchSession(code, { onMatch: (match) => benMatches.push(match) });
+
+      await GroupSessionService.recordSwipe(code, ana.id, "b", true);
+      await flushChanges();
+      expect(anaMatches).toEqual([]);
+
+      await GroupSessionService.recordSwipe(code, ben.id, "b", true);
+      await flushChanges();
+      await GroupSessionService.recordSwipe(code, ben.id, "c", false);
+      await flushChanges();
+
+      expect(anaMatches.map((match) => match.restaurant.id)).toEqual(["b"]);
+      expect(benMatches.map((match) => match.restaurant.id)).toEqual(["b"]);
+
+      stopAna();
+      stopBen();
+    });
+
+    it("stops delivering updates after unsubscribing", async () => {
+      const ana = GroupSessionService.createParticipant("Ana");
+      const { code } = await GroupSessionService.createSession(ana, location, 2000);
+      const states: GroupSessionState[] = [];
+
+      const stop = GroupSessionService.watchSession(code, { onState: (state) => states.push(state) });
+      await flushChanges();
+      stop();
+
+      await GroupSessionService.joinSession(code, GroupSessionService.createParticipant("Ben"));
+      await flushChanges();
+
+      expect(states).toHaveLength(1);
+      expect(states[0].participants).toHaveLength(1);
+    });
+  });
+
+  it("is unavailable without Supabase or a stand-in backend", () => {
+    GroupSessionService.setBackendOverride(null);
+    expect(GroupSessionService.isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { getRetryAfterMs, HttpClient, HttpClientOptions, TokenBucket } from "../httpClient";
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+  ({ ok: status < 400, status, headers: new Headers(headers) }) as Response;
+
+// A fetch that never answers, but rejects like the real one when its request is aborted
+const hangingFetch = (input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_, reject) => {
+    init?.signal?.addEventListener("abort", () => {
+      const error = new Error("Aborted");
+      error.name = "AbortError";
+      reject(error);
+    });
+  });
+
+describe("HttpClient", () => {
+  let delays: number[];
+
+  const createClient = (fetch: jest.Mock, options: HttpClientOptions = {}) =>
+    new HttpClient({
+      fetch,
+      random: () => 1,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+      ...options,
+    });
+
+  beforeEach(() => {
+    delays = [];
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns successful responses straight away", async () => {
+    const fetch = jest.fn().mockResolvedValue(response(200));
+    const client = createClient(fetch);
+
+    expect((await client.request("https://example.com/places")).status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe("https://example.com/places");
+  });
+
+  it("retries server errors with exponential backoff", async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(500))
+      .mockResolvedValueOnce(response(200));
+    const client = createClient(fetch, { baseDelayMs: 100 });
+
+    expect((await client.request("https://example.com")).status).toBe(200);
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it("spreads retries out with jitter", async () => {
+    const fetch = jest.fn().mockResolvedValueOnce(response(500)).mockResolvedValueOnce(response(200));
+    const client = createClient(fetch, { baseDelayMs: 100, random: () => 0.25 });
+
+    await client.request("https://example.com");
+
+    expect(delays).toEqual([25]);
+  });
+
+  it("gives up after the last retry and returns the failing response", async () => {
+    const fetch = jest.fn().mockResolvedValue(response(502));
+    const client = createClient(fetch, { maxRetries: 2 });
+
+    expect((await client.request("https://example.com")).status).toBe(502);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry client errors", async () => {
+    const fetch = jest.fn().mockResolvedValue(response(401));
+    const client = createClient(fetch);
+
+    expect((await client.request("https://example.com")).status).toBe(401);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits as long as a 429 asks, unless that's longer than the backoff cap", async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(response(429, { "Retry-After": "2" }))
+      .mockResolvedValueOnce(response(429, { "Retry-After": "60" }));
+    const client = createClient(fetch, { maxDelayMs: 5000 });
+
+    const result = await client.request("https://example.com");
+
+    expect(delays).toEqual([2000]);
+    expect(result.status).toBe(429); // Handed back so the caller can come back in a minute
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries network errors and rethrows the last one", async () => {
+    const fetch = jest.fn().mockRejectedValue(new TypeError("Network request failed"));
+    const client = createClient(fetch, { maxRetries: 1 });
+
+    await expect(client.request("https://example.com")).rejects.toThrow("Network request failed");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("times out attempts that take too long", async () => {
+    const fetch = jest.fn(hangingFetch);
+    const client = createClient(fetch, { timeoutMs: 10, maxRetries: 1 });
+
+    await expect(client.request("https://example.com")).rejects.toMatchObject({ name: "TimeoutError" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops without retrying when the request is cancelled", async () => {
+    const fetch = jest.fn(hangingFetch);
+    const client = createClient(fetch);
+    const controller = new AbortController();
+
+    const request = client.request("https://example.com", { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0)); // Let the request go out
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't send requests that were cancelled before they started", async () => {
+    const fetch = jest.fn().mockResolvedValue(response(200));
+    const client = createClient(fetch);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.request("https://example.com", { signal: controller.signal })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("reports every attempt at a named endpoint for usage metering", async () => {
+    const onRequest = jest.fn();
+    const fetch = jest.fn().mockResolvedValueOnce(response(500)).mockResolvedValue(response(200));
+    const client = createClient(fetch, { onRequest });
+
+    await client.request("https://example.com/places", { endpoint: "example/places" });
+    await client.request("https://example.com/unnamed");
+
+    expect(onRequest.mock.calls).toEqual([["example/places"], ["example/places"]]);
+  });
+
+  it("holds requests back once the rate limit's burst is used up", async () => {
+    let now = 0;
+    const fetch = jest.fn().mockResolvedValue(response(200));
+    const client = createClient(fetch, {
+      requestsPerSecond: 2,
+      burst: 2,
+      now: () => now,
+      sleep: async (ms) => {
+        delays.push(ms);
+        now += ms;
+      },
+    });
+
+    await Promise.all([1, 2, 3].map(() => client.request("https://example.com")));
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(delays).toEqual([500]); // The third request waited for a token
+  });
+});
+
+describe("TokenBucket", () => {
+  it("allows a burst, then refills at the given rate", () => {
+    let now = 0;
+    const bucket = new TokenBucket(2, 4, () => now);
+
+    expect(bucket.tryTake()).toBe(0);
+    expect(bucket.tryTake()).toBe(0);
+    expect(bucket.tryTake()).toBe(250);
+
+    now = 250;
+    expect(bucket.tryTake()).toBe(0);
+
+    now = 10000; // Never holds more than its capacity
+    expect([bucket.tryTake(), bucket.tryTake(), bucket.tryTake()]).toEqual([0, 0, 250]);
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  it("reads seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    expect(getRetryAfterMs(response(429, { "Retry-After": "3" }), now)).toBe(3000);
+    expect(getRetryAfterMs(response(429, { "Retry-After": "Thu, 01 Jan 2026 00:00:10 GMT" }), now)).toBe(10000);
+    expect(getRetryAfterMs(response(429), now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,33 @@
+import { LocalGeocoder } from "../localGeocoder";
+
+describe("LocalGeocoder", () => {
+  const geocoder = new LocalGeocoder();
+
+  it("finds cities by name, ignoring case and accents", async () => {
+    const [result] = await geocoder.search("sao paulo", 5);
+    expect(result).toMatchObject({ name: "São Paulo", latitude: -23.5505, longitude: -46.6333 });
+  });
+
+  it("lists names that start with the query first", async () => {
+    const results = await geocoder.search("to", 5);
+    expect(results.map((result) => result.name).slice(0, 2)).toEqual(["Toronto", "Tokyo"]);
+    expect(results.map((result) => result.name)).toContain("Boston");
+  });
+
+  it("matches on the address and respects the limit", async () => {
+    const results = await geocoder.search("Canada", 2);
+    expect(results).toHaveLength(2);
+    results.forEach((result) => expect(result.address).toContain("Canada"));
+  });
+
+  it("accepts raw coordinates", async () => {
+    expect(await geocoder.search("40.7, -74", 5)).toEqual([
+      { name: "40.7000, -74.0000", address: "40.7000, -74.0000", latitude: 40.7, longitude: -74 },
+    ]);
+    expect(await geocoder.search("140, 200", 5)).toEqual([]);
+  });
+
+  it("returns nothing for an unknown place", async () => {
+    expect(await geocoder.search("Atlantis", 5)).toEqual([]);
+  });
+});
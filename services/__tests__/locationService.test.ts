@@ -1,5 +1,8 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Location from "expo-location";
+import { Geocoder } from "../geocoder";
 import { LocationCoordinates, LocationService } from "../locationService";
+import { SavedPlacesService } from "../savedPlacesService";
 
 const mockLocation = Location as jest.Mocked<typeof Location>;
 
@@ -11,10 +14,13 @@ describe("LocationService", () => {
     "Error getting current location:",
     "Location permission not granted",
     "Location error",
+    "Error getting last known location:",
+    "Using the last location the app used",
   ];
 
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
+    await AsyncStorage.clear();
 
     // Suppress specific console messages for this test suite
     console.error = (...args) => {
@@ -86,7 +92,7 @@ describe("LocationService", () => {
       } as any);
 
       const result = await LocationService.getCurrentLocation();
-      expect(result).toEqual(mockCoordinates);
+      expect(result).toMatchObject({ ...mockCoordinates, source: "gps" });
       expect(mockLocation.getCurrentPositionAsync).toHaveBeenCalledWith({
         accuracy: expect.any(Number),
       });
@@ -129,7 +135,7 @@ describe("LocationService", () => {
       } as any);
 
       const result = await LocationService.getCurrentLocation();
-      expect(result).toEqual(mockCoordinates);
+      expect(result).toMatchObject(mockCoordinates);
     });
 
     it("should return null when an error occurs", async () => {
@@ -140,6 +146,78 @@ describe("LocationService", () => {
       const result = await LocationService.getCurrentLocation();
       expect(result).toBeNull();
     });
+
+    describe("when GPS is unavailable", () => {
+      const grantPermission = () =>
+        mockLocation.getForegroundPermissionsAsync.mockResolvedValue({
+          status: "granted" as any,
+          granted: true,
+          canAskAgain: true,
+          expires: "never",
+        });
+
+      it("falls back to the device's last known position", async () => {
+        grantPermission();
+        mockLocation.getCurrentPositionAsync.mockRejectedValue(new Error("Location error"));
+        mockLocation.getLastKnownPositionAsync.mockResolvedValueOnce({
+          coords: { latitude: 37.8, longitude: -122.3, accuracy: 65 },
+          timestamp: 1700000000000,
+        } as any);
+
+        expect(await LocationService.getCurrentLocation()).toEqual({
+          latitude: 37.8,
+          longitude: -122.3,
+          source: "last_known",
+          accuracy: 65,
+          timestamp: 1700000000000,
+        });
+      });
+
+      it("falls back to the last location the app used once permission is gone", async () => {
+        grantPermission();
+        mockLocation.getCurrentPositionAsync.mockResolvedValue({
+          coords: { latitude: 37.7749, longitude: -122.4194, accuracy: 12 },
+          timestamp: 1700000000000,
+        } as any);
+        await LocationService.getCurrentLocation();
+
+        const denied = {
+          status: "denied" as any,
+          granted: false,
+          canAskAgain: false,
+          expires: "never" as const,
+        };
+        mockLocation.getForegroundPermissionsAsync.mockResolvedValue(denied);
+        mockLocation.requestForegroundPermissionsAsync.mockResolvedValue(denied);
+
+        expect(await LocationService.getCurrentLocation()).toEqual({
+          latitude: 37.7749,
+          longitude: -122.4194,
+          source: "last_used",
+          accuracy: 12,
+          timestamp: 1700000000000,
+        });
+      });
+    });
+  });
+
+  describe("describeLocation", () => {
+    const now = 1700000000000;
+    const location = { latitude: 37.7749, longitude: -122.4194, accuracy: 12.4, timestamp: now };
+
+    it("says where the position came from and how old it is", () => {
+      expect(LocationService.describeLocation({ ...location, source: "gps" }, now)).toBe("GPS ±12 m · just now");
+      expect(
+        LocationService.describeLocation({ ...location, source: "last_known", accuracy: null }, now + 12 * 60000)
+      ).toBe("Last known position · 12 min ago");
+      expect(LocationService.describeLocation({ ...location, source: "last_used" }, now + 50 * 3600000)).toBe(
+        "Last used location ±12 m · 2 d ago"
+      );
+    });
+
+    it("doesn't give an age for chosen locations", () => {
+      expect(LocationService.describeLocation({ ...location, source: "manual" }, now)).toBe("Chosen location");
+    });
   });
 
   describe("calculateDistance", () => {
@@ -179,4 +257,144 @@ describe("LocationService", () => {
       expect(distance).toBeGreaterThan(20000);
     });
   });
+
+  describe("watchLocation", () => {
+    it("reports each new position until removed", async () => {
+      const remove = jest.fn();
+      mockLocation.getForegroundPermissionsAsync.mockResolvedValue({
+        status: "granted" as any,
+        granted: true,
+        canAskAgain: true,
+        expires: "never",
+      });
+      mockLocation.watchPositionAsync.mockResolvedValue({ remove });
+      const onChange = jest.fn();
+
+      const subscription = await LocationService.watchLocation(onChange, 250);
+      const [options, callback] = mockLocation.watchPositionAsync.mock.calls[0];
+      callback({ coords: { latitude: 37.8, longitude: -122.3 }, timestamp: Date.now() } as any);
+      subscription?.remove();
+
+      expect(options).toEqual({ accuracy: expect.any(Number), distanceInterval: 250 });
+      expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ latitude: 37.8, longitude: -122.3, source: "gps" }));
+      expect(remove).toHaveBeenCalled();
+    });
+
+    it("returns null without location permission", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      mockLocation.getForegroundPermissionsAsync.mockResolvedValue({
+        status: "denied" as any,
+        granted: false,
+        canAskAgain: false,
+        expires: "never",
+      });
+      mockLocation.requestForegroundPermissionsAsync.mockResolvedValue({
+        status: "denied" as any,
+        granted: false,
+        canAskAgain: false,
+        expires: "never",
+      });
+
+      expect(await LocationService.watchLocation(jest.fn())).toBeNull();
+      expect(mockLocation.watchPositionAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getSearchLocation", () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it("uses GPS when no location is picked", async () => {
+      mockLocation.getForegroundPermissionsAsync.mockResolvedValue({
+        status: "granted" as any,
+        granted: true,
+        canAskAgain: true,
+        expires: "never",
+      });
+      mockLocation.getCurrentPositionAsync.mockResolvedValue({
+        coords: { latitude: 37.7749, longitude: -122.4194 },
+        timestamp: Date.now(),
+      } as any);
+
+      expect(await LocationService.getSearchLocation()).toMatchObject({
+        latitude: 37.7749,
+        longitude: -122.4194,
+        source: "gps",
+      });
+    });
+
+    it("uses the picked location instead of GPS", async () => {
+      await SavedPlacesService.setSelectedLocation({ name: "Paris", latitude: 48.8566, longitude: 2.3522 });
+
+      expect(await LocationService.getSearchLocation()).toMatchObject({
+        latitude: 48.8566,
+        longitude: 2.3522,
+        source: "manual",
+      });
+      expect(mockLocation.getCurrentPositionAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("searchAddress", () => {
+    const mockFetch = jest.fn();
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      mockFetch.mockReset();
+      jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      LocationService.setGeocoderOverride(null);
+      jest.restoreAllMocks();
+    });
+
+    it("maps Geoapify geocoding results", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            results: [{ name: "Ferry Building", formatted: "1 Ferry Building, San Francisco, CA", lat: 37.7955, lon: -122.3937 }],
+          }),
+      });
+
+      const results = await LocationService.searchAddress("ferry building", 3);
+
+      expect(mockFetch.mock.calls[0][0]).toContain("text=ferry%20building&limit=3");
+      expect(results).toEqual([
+        { name: "Ferry Building", address: "1 Ferry Building, San Francisco, CA", latitude: 37.7955, longitude: -122.3937 },
+      ]);
+    });
+
+    it("falls back to the offline city list when the API fails", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 429 });
+
+      const results = await LocationService.searchAddress("Tokyo");
+
+      expect(results[0]).toMatchObject({ name: "Tokyo", latitude: 35.6762, longitude: 139.6503 });
+    });
+
+    it("uses the geocoder override", async () => {
+      const geocoder: Geocoder = {
+        id: "test",
+        name: "Test",
+        isConfigured: () => true,
+        search: jest.fn().mockResolvedValue([]),
+      };
+      LocationService.setGeocoderOverride(geocoder);
+
+      await LocationService.searchAddress("  Office  ");
+
+      expect(geocoder.search).toHaveBeenCalledWith("Office", 5);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("ignores blank queries", async () => {
+      expect(await LocationService.searchAddress("   ")).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
 });
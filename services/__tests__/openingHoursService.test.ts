@@ -0,0 +1,386 @@
+import { AvailabilityFilter, OpeningHoursService } from "../openingHoursService";
+import { Restaurant, RestaurantTimezone } from "../../types/restaurant";
+
+describe("OpeningHoursService", () => {
+  const toronto: RestaurantTimezone = {
+    name: "America/Toronto",
+    offsetStdSeconds: -18000,
+    offsetDstSeconds: -14400,
+  };
+
+  // Wednesday 15 October 2025, 12:00 in Toronto (EDT, UTC-4)
+  const wednesdayNoon = new Date("2025-10-15T16:00:00Z");
+
+  describe("parse", () => {
+    it("returns null for empty or missing input", () => {
+      expect(OpeningHoursService.parse(undefined)).toBeNull();
+      expect(OpeningHoursService.parse("")).toBeNull();
+    });
+
+    it("returns null for free-form text it cannot understand", () => {
+      expect(OpeningHoursService.parse("11:00 AM - 10:00 PM")).toBeNull();
+      expect(OpeningHoursService.parse("call for hours")).toBeNull();
+    });
+
+    it("parses 24/7", () => {
+      const hours = OpeningHoursService.parse("24/7");
+
+      expect(hours?.weekly.every((day) => day.length === 1 && day[0].start === 0 && day[0].end === 1440)).toBe(true);
+    });
+
+    it("parses weekday ranges", () => {
+      const hours = OpeningHoursService.parse("Mo-Fr 08:00-20:00; Sa 10:00-14:00");
+
+      expect(hours?.weekly[1]).toEqual([{ start: 480, end: 1200 }]);
+      expect(hours?.weekly[5]).toEqual([{ start: 480, end: 1200 }]);
+      expect(hours?.weekly[6]).toEqual([{ start: 600, end: 840 }]);
+      expect(hours?.weekly[0]).toEqual([]);
+    });
+
+    it("parses weekday lists and multiple spans", () => {
+      const hours = OpeningHoursService.parse("Mo,We 11:00-14:00,17:00-22:00");
+
+      expect(hours?.weekly[1]).toEqual([
+        { start: 660, end: 840 },
+        { start: 1020, end: 1320 },
+      ]);
+      expect(hours?.weekly[3]).toEqual(hours?.weekly[1]);
+      expect(hours?.weekly[2]).toEqual([]);
+    });
+
+    it("applies time-only rules to every day", () => {
+      const hours = OpeningHoursService.parse("11:00-23:00");
+
+      expect(hours?.weekly.every((day) => day[0]?.start === 660)).toBe(true);
+    });
+
+    it("lets later rules override earlier ones for the days they mention", () => {
+      const hours = OpeningHoursService.parse("Mo-Su 11:00-22:00; Tu off");
+
+      expect(hours?.weekly[2]).toEqual([]);
+      expect(hours?.weekly[3]).toEqual([{ start: 660, end: 1320 }]);
+    });
+
+    it("treats 'closed' like 'off'", () => {
+      const hours = OpeningHoursService.parse("Mo-Sa 09:00-17:00; Su closed");
+
+      expect(hours?.weekly[0]).toEqual([]);
+    });
+
+    it("parses wrapping weekday ranges", () => {
+      const hours = OpeningHoursService.parse("Fr-Mo 12:00-20:00");
+
+      expect([5, 6, 0, 1].every((day) => hours?.weekly[day].length === 1)).toBe(true);
+      expect([2, 3, 4].every((day) => hours?.weekly[day].length === 0)).toBe(true);
+    });
+
+    it("extends spans past midnight", () => {
+      const hours = OpeningHoursService.parse("Fr-Sa 18:00-02:00");
+
+      expect(hours?.weekly[5]).toEqual([{ start: 1080, end: 1560 }]);
+    });
+
+    it("keeps public holiday rules separate", () => {
+      const hours = OpeningHoursService.parse("Mo-Fr 09:00-17:00; PH off");
+
+      expect(hours?.publicHolidays).toEqual([]);
+      expect(hours?.weekly[1]).toEqual([{ start: 540, end: 1020 }]);
+    });
+
+    it("supports additional rules joined with a comma", () => {
+      const hours = OpeningHoursService.parse("Mo-Fr 10:00-18:00, PH 12:00-16:00");
+
+      expect(hours?.weekly[2]).toEqual([{ start: 600, end: 1080 }]);
+      expect(hours?.publicHolidays).toEqual([{ start: 720, end: 960 }]);
+    });
+
+    it("skips seasonal exception rules", () => {
+      const hours = OpeningHoursService.parse("Mo-Su 10:00-22:00; Dec 25 off");
+
+      expect(hours?.weekly[4]).toEqual([{ start: 600, end: 1320 }]);
+    });
+
+    it("ignores quoted comments", () => {
+      const hours = OpeningHoursService.parse('Mo-Fr 10:00-18:00 "kitchen closes earlier"');
+
+      expect(hours?.weekly[1]).toEqual([{ start: 600, end: 1080 }]);
+    });
+  });
+
+  describe("getStatus", () => {
+    it("reports open with the closing time", () => {
+      const hours = OpeningHoursService.parse("Mo-Su 11:00-22:00")!;
+
+      const status = OpeningHoursService.getStatus(hours, wednesdayNoon, toronto);
+
+      expect(status.isOpen).toBe(true);
+      expect(status.nextCloseAt).toBe(new Date("2025-10-16T02:00:00Z").getTime());
+      expect(status.nextChange).toEqual({ day: 3, minutes: 1320 });
+    });
+
+    it("reports closed with the next opening time", () => {
+      const hours = OpeningHoursService.parse("Mo-Su 17:00-22:00")!;
+
+      const status = OpeningHoursService.getStatus(hours, wednesdayNoon, toronto);
+
+      expect(status.isOpen).toBe(false);
+      expect(status.nextOpenAt).toBe(new Date("2025-10-15T21:00:00Z").getTime());
+    });
+
+    it("looks ahead across days when closed today", () => {
+      const hours = OpeningHoursService.parse("Fr 11:00-14:00")!;
+
+      const status = OpeningHoursService.getStatus(hours, wednesdayNoon, toronto);
+
+      expect(status.isOpen).toBe(false);
+      expect(status.nextChange).toEqual({ day: 5, minutes: 660 });
+    });
+
+    it("treats the previous day's overnight span as open", () => {
+      const hours = OpeningHoursService.parse("Tu 18:00-02:00")!;
+      // Wednesday 01:00 in Toronto
+      const now = new Date("2025-10-15T05:00:00Z");
+
+      const status = OpeningHoursService.getStatus(hours, now, toronto);
+
+      expect(status.isOpen).toBe(true);
+      expect(status.nextChange).toEqual({ day: 3, minutes: 120 });
+    });
+
+    it("wraps overnight spans from Sunday into Monday", () => {
+      const hours = OpeningHoursService.parse("Su 20:00-03:00")!;
+      // Monday 20 October 2025, 02:00 in Toronto
+      const now = new Date("2025-10-20T06:00:00Z");
+
+      expect(OpeningHoursService.getStatus(hours, now, toronto).isOpen).toBe(true);
+    });
+
+    it("merges back-to-back days into one open period", () => {
+      const hours = OpeningHoursService.parse("Mo-Su 00:00-24:00")!;
+
+      const status = OpeningHoursService.getStatus(hours, wednesdayNoon, toronto);
+
+      expect(status).toEqual({ isOpen: true });
+    });
+
+    it("never opens when every day is off", () => {
+      const hours = OpeningHoursService.parse("Mo-Su off")!;
+
+      expect(OpeningHoursService.getStatus(hours, wednesdayNoon, toronto)).toEqual({ isOpen: false });
+    });
+
+    it("falls back to the standard offset for unknown timezones", () => {
+      const hours = OpeningHoursService.parse("Mo-Su 11:00-22:00")!;
+      const unknownZone = { ...toronto, name: "Not/AZone" };
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      // 12:00 UTC is 07:00 at UTC-5
+      const status = OpeningHoursService.getStatus(hours, new Date("2025-10-15T12:00:00Z"), unknownZone);
+
+      expect(status.isOpen).toBe(false);
+      expect(status.nextChange).toEqual({ day: 3, minutes: 660 });
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("getRestaurantStatus", () => {
+    const restaurant: Restaurant = {
+      id: "1",
+      name: "Test",
+      cuisine: "Italian",
+      image: "",
+      rating: 4,
+      latitude: 0,
+      longitude: 0,
+      dataSource: "api",
+    };
+
+    it("prefers the parsed schedule over the stored flag", () => {
+      const status = OpeningHoursService.getRestaurantStatus(
+        {
+          ...restaurant,
+          isOpen: false,
+          openingHours: OpeningHoursService.parse("24/7")!,
+          timezone: toronto,
+        },
+        wednesdayNoon
+      );
+
+      expect(status?.isOpen).toBe(true);
+    });
+
+    it("falls back to the stored flag", () => {
+      expect(OpeningHoursService.getRestaurantStatus({ ...restaurant, isOpen: false })).toEqual({ isOpen: false });
+    });
+
+    it("returns null when hours are unknown", () => {
+      expect(OpeningHoursService.getRestaurantStatus(restaurant)).toBeNull();
+    });
+  });
+
+  describe("filterByAvailability", () => {
+    // Fixed-offset zone so "open at" tests don't depend on the machine's timezone
+    const utc: RestaurantTimezone = { name: "UTC", offsetStdSeconds: 0, offsetDstSeconds: 0 };
+    const base: Restaurant = {
+      id: "",
+      name: "",
+      cuisine: "Italian",
+      image: "",
+      rating: 4,
+      latitude: 0,
+      longitude: 0,
+      dataSource: "api",
+    };
+    const withHours = (id: string, hours: string): Restaurant => ({
+      ...base,
+      id,
+      hours,
+      openingHours: OpeningHoursService.parse(hours)!,
+      timezone: utc,
+    });
+
+    const lunch = withHours("lunch", "Mo-Su 11:00-14:00");
+    const allDay = withHours("all-day", "Mo-Su 08:00-23:00");
+    const dinner = withHours("dinner", "Mo-Su 17:00-22:00");
+    const unknown: Restaurant = { ...base, id: "unknown" };
+    const flaggedOpen: Restaurant = { ...base, id: "flagged", isOpen: true };
+    const restaurants = [unknown, lunch, allDay, dinner, flaggedOpen];
+
+    // Wednesday 13:30 UTC
+    const now = new Date("2025-10-15T13:30:00Z");
+    const filter = (changes: Partial<AvailabilityFilter>): AvailabilityFilter => ({
+      mode: "any",
+      openAtMinutes: 19 * 60,
+      minOpenMinutes: 60,
+      unknownHours: "include",
+      ...changes,
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const ids = (list: Restaurant[]) => list.map((restaurant) => restaurant.id);
+
+    it("returns everything for 'any'", () => {
+      expect(OpeningHoursService.filterByAvailability(restaurants, filter({}), now)).toBe(restaurants);
+    });
+
+    it("keeps restaurants open now, using stored flags when there is no schedule", () => {
+      expect(
+        ids(OpeningHoursService.filterByAvailability(restaurants, filter({ mode: "open_now", unknownHours: "exclude" }), now))
+      ).toEqual(["lunch", "all-day", "flagged"]);
+    });
+
+    it("keeps restaurants open for at least the requested time", () => {
+      expect(
+        ids(OpeningHoursService.filterByAvailability(restaurants, filter({ mode: "open_for", unknownHours: "exclude" }), now))
+      ).toEqual(["all-day"]);
+    });
+
+    it("keeps restaurants open at a chosen time later today", () => {
+      const result = OpeningHoursService.filterByAvailability(
+        restaurants,
+        filter({ mode: "open_at", unknownHours: "exclude" }),
+        now
+      );
+
+      expect(ids(result)).toEqual(["all-day", "dinner"]);
+    });
+
+    it("reads the chosen time on the restaurant's clock, not the device's", () => {
+      const deviceTimezone = process.env.TZ;
+      process.env.TZ = "Asia/Tokyo";
+      try {
+        // 09:30 in Toronto; open 18:00-20:00 Toronto time, so open at 19:00 there
+        const evening = { ...withHours("toronto", "Mo-Su 18:00-20:00"), timezone: toronto };
+        const breakfast = { ...withHours("toronto-breakfast", "Mo-Su 07:00-11:00"), timezone: toronto };
+
+        const result = OpeningHoursService.filterByAvailability(
+          [evening, breakfast],
+          filter({ mode: "open_at", unknownHours: "exclude" }),
+          now
+        );
+
+        expect(ids(result)).toEqual(["toronto"]);
+      } finally {
+        process.env.TZ = deviceTimezone;
+      }
+    });
+
+    it("moves unknown hours to the end when configured", () => {
+      expect(
+        ids(OpeningHoursService.filterByAvailability(restaurants, filter({ mode: "open_for", unknownHours: "last" }), now))
+      ).toEqual(["all-day", "unknown", "flagged"]);
+    });
+
+    it("keeps unknown hours in place when included", () => {
+      expect(
+        ids(OpeningHoursService.filterByAvailability(restaurants, filter({ mode: "open_for", unknownHours: "include" }), now))
+      ).toEqual(["unknown", "all-day", "flagged"]);
+    });
+  });
+
+  describe("formatStatus", () => {
+    const now = new Date("2025-10-15T16:00:00Z");
+    const minutesFromNow = (minutes: number) => now.getTime() + minutes * 60000;
+
+    it("counts down the last hour before closing", () => {
+      expect(
+        OpeningHoursService.formatStatus(
+          { isOpen: true, nextCloseAt: minutesFromNow(40), nextChange: { day: 3, minutes: 760 } },
+          now
+        )
+      ).toBe("Closes in 40 min");
+    });
+
+    it("shows the closing time further out", () => {
+      expect(
+        OpeningHoursService.formatStatus(
+          { isOpen: true, nextCloseAt: minutesFromNow(600), nextChange: { day: 3, minutes: 1320 } },
+          now
+        )
+      ).toBe("Open until 10:00 PM");
+    });
+
+    it("shows the opening time today or on another day", () => {
+      expect(
+        OpeningHoursService.formatStatus(
+          { isOpen: false, nextOpenAt: minutesFromNow(300), nextChange: { day: 3, minutes: 1020 } },
+          now
+        )
+      ).toBe("Opens at 5:00 PM");
+      expect(
+        OpeningHoursService.formatStatus(
+          { isOpen: false, nextOpenAt: minutesFromNow(2000), nextChange: { day: 5, minutes: 660 } },
+          now
+        )
+      ).toBe("Opens Fri 11:00 AM");
+    });
+
+    it("uses plain labels without a next change", () => {
+      expect(OpeningHoursService.formatStatus({ isOpen: true })).toBe("Open");
+      expect(OpeningHoursService.formatStatus({ isOpen: false })).toBe("Closed");
+    });
+  });
+
+  describe("formatWeeklySchedule", () => {
+    it("lists Monday first with closed days", () => {
+      const rows = OpeningHoursService.formatWeeklySchedule(
+        OpeningHoursService.parse("Mo-Sa 11:00-22:00; Su off")!
+      );
+
+      expect(rows[0]).toEqual({ day: "Mon", hours: "11:00 AM – 10:00 PM" });
+      expect(rows[6]).toEqual({ day: "Sun", hours: "Closed" });
+    });
+
+    it("formats overnight and all-day spans", () => {
+      expect(OpeningHoursService.formatSpans([{ start: 1080, end: 1560 }])).toBe("6:00 PM – 2:00 AM");
+      expect(OpeningHoursService.formatSpans([{ start: 0, end: 1440 }])).toBe("Open 24 hours");
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { HttpClient } from "../httpClient";
+import { OverpassElement, OverpassPlaceProvider } from "../overpassPlaceProvider";
+
+global.fetch = jest.fn();
+
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+describe("OverpassPlaceProvider", () => {
+  const provider = new OverpassPlaceProvider(new HttpClient({ fetch: mockFetch, maxRetries: 0 }));
+
+  const node: OverpassElement = {
+    type: "node",
+    id: 42,
+    lat: 52.52,
+    lon: 13.405,
+    tags: {
+      amenity: "restaurant",
+      name: "Trattoria Roma",
+      cuisine: "pizza;italian",
+      "addr:housenumber": "5",
+      "addr:street": "Hauptstraße",
+      "addr:city": "Berlin",
+      phone: "+49 30 1234567",
+      opening_hours: "Mo-Su 12:00-22:00",
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("normalize", () => {
+    it("maps OSM tags to a restaurant", () => {
+      const restaurant = provider.normalize(node);
+
+      expect(restaurant).toMatchObject({
+        id: "osm-node-42",
+        name: "Trattoria Roma",
+        cuisine: "Pizza",
+        cuisines: ["Pizza", "Italian"],
+        cuisineConfidence: "explicit",
+        latitude: 52.52,
+        longitude: 13.405,
+        address: "5 Hauptstraße, Berlin",
+        phoneNumber: "+49 30 1234567",
+        hours: "Mo-Su 12:00-22:00",
+        dataSource: "api",
+      });
+      expect(restaurant.openingHours).toBeDefined();
+      expect(restaurant.rating).toBeUndefined();
+    });
+
+    it("uses the center of ways and falls back to the amenity for cuisine", () => {
+      const restaurant = provider.normalize({
+        type: "way",
+        id: 7,
+        center: { lat: 1, lon: 2 },
+        tags: { amenity: "cafe", name: "Corner Spot" },
+      });
+
+      expect(restaurant.id).toBe("osm-way-7");
+      expect(restaurant.latitude).toBe(1);
+      expect(restaurant.longitude).toBe(2);
+      expect(restaurant.cuisine).toBe("Cafe");
+      expect(restaurant.cuisineConfidence).toBe("category");
+    });
+  });
+
+  describe("searchInCircle", () => {
+    it("posts an around query and normalizes the elements", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ elements: [node, { type: "relation", id: 9, tags: {} }] }),
+      } as Response);
+
+      const restaurants = await provider.searchInCircle({ latitude: 52.52, longitude: 13.405 }, 1500, 20);
+
+      const [url, init] = mockFetch.mock.calls[0];
+      const query = decodeURIComponent(String(init?.body).replace(/^data=/, ""));
+      expect(url).toBe("https://overpass-api.de/api/interpreter");
+      expect(query).toContain("around:1500,52.52,13.405");
+      expect(query).toContain("out center 20;");
+      // The relation has no coordinates and is dropped
+      expect(restaurants.map((r) => r.id)).toEqual(["osm-node-42"]);
+    });
+
+    it("throws a typed error when the API fails", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 429, headers: new Headers() } as Response);
+
+      await expect(provider.searchInCircle({ latitude: 0, longitude: 0 }, 1000, 10)).rejects.toMatchObject({
+        name: "PlaceProviderError",
+        kind: "rate_limited",
+        status: 429,
+      });
+    });
+  });
+
+  describe("getPlaceDetails", () => {
+    it("looks up the element behind an OSM place id", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ elements: [node] }),
+      } as Response);
+
+      const restaurant = await provider.getPlaceDetails("osm-node-42");
+
+      const query = decodeURIComponent(String(mockFetch.mock.calls[0][1]?.body));
+      expect(query).toContain("node(42)");
+      expect(restaurant?.name).toBe("Trattoria Roma");
+    });
+
+    it("ignores ids from other providers", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      await expect(provider.getPlaceDetails("51a2b3c4")).resolves.toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});
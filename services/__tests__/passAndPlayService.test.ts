@@ -0,0 +1,149 @@
+import { Restaurant } from "../../types/restaurant";
+import { makeRestaurant } from "../../test-utils/restaurants";
+import { PassAndPlayAction, PassAndPlayService, PassAndPlayState } from "../passAndPlayService";
+
+// Keeps the deck in its original order
+const noShuffle = () => 0.999999;
+
+const run = (state: PassAndPlayState, actions: PassAndPlayAction[]): PassAndPlayState =>
+  actions.reduce((current, action) => PassAndPlayService.transition(current, action), state);
+
+const swipes = (...liked: boolean[]): PassAndPlayAction[] => [
+  { type: "ready" },
+  ...liked.map((value) => ({ type: "swipe" as const, liked: value })),
+];
+
+describe("PassAndPlayService", () => {
+  const deck = ["a", "b", "c"].map((id) => makeRestaurant(id));
+
+  describe("createGame", () => {
+    it("starts with the first player's handoff", () => {
+      const state = PassAndPlayService.createGame(["Ana", "Ben"], deck, { random: noShuffle });
+
+      expect(state.phase).toBe("handoff");
+      expect(PassAndPlayService.getCurrentPlayer(state)).toBe("Ana");
+      expect(state.deck.map((restaurant) => restaurant.id)).toEqual(["a", "b", "c"]);
+      expect(state.votes).toEqual([{}, {}]);
+    });
+
+    it("trims blank and duplicate player names", () => {
+      const state = PassAndPlayService.createGame([" Ana ", "", "ana", "Ben"], deck);
+      expect(state.players).toEqual(["Ana", "Ben"]);
+    });
+
+    it("shuffles once with the given random source and limits the deck", () => {
+      const state = PassAndPlayService.createGame(["Ana", "Ben"], deck, { random: () => 0, deckSize: 2 });
+      expect(state.deck.map((restaurant) => restaurant.id)).toEqual(["b", "c"]);
+    });
+
+    it("needs two players and a restaurant", () => {
+      expect(() => PassAndPlayService.createGame(["Ana"], deck)).toThrow("at least 2 players");
+      expect(() => PassAndPlayService.createGame(["Ana", "Ben"], [])).toThrow("at least one restaurant");
+    });
+  });
+
+  describe("transition", () => {
+    const start = () => PassAndPlayService.createGame(["Ana", "Ben"], deck, { random: noShuffle });
+
+    it("ignores swipes until the player is ready", () => {
+      const state = start();
+      expect(PassAndPlayService.transition(state, { type: "swipe", liked: true })).toBe(state);
+    });
+
+    it("records the current player's votes card by card", () => {
+      const state = run(start(), swipes(true, false));
+
+      expect(state.phase).toBe("swiping");
+      expect(state.cardIndex).toBe(2);
+      expect(state.votes).toEqual([{ a: true, b: false }, {}]);
+    });
+
+    it("hands off to the next player after the last card", () => {
+      const state = run(start(), swipes(true, false, true));
+
+      expect(state.phase).toBe("handoff");
+      expect(PassAndPlayService.getCurrentPlayer(state)).toBe("Ben");
+      expect(state.cardIndex).toBe(0);
+    });
+
+    it("finishes after the last player's last card", () => {
+      const state = run(start(), [...swipes(true, true, true), ...swipes(false, false, false)]);
+
+      expect(state.phase).toBe("finished");
+      expect(PassAndPlayService.getCurrentPlayer(state)).toBeNull();
+      expect(PassAndPlayService.transition(state, { type: "ready" })).toBe(state);
+    });
+
+    it("lets a player end their turn early", () => {
+      const state = run(start(), [...swipes(true), { type: "endTurn" }]);
+
+      expect(PassAndPlayService.getCurrentPlayer(state)).toBe("Ben");
+      expect(state.votes[0]).toEqual({ a: true });
+    });
+
+    it("restarts with the same players and deck", () => {
+      const played = run(start(), [...swipes(true, true, true), ...swipes(true)]);
+      const restarted = PassAndPlayService.transition(played, { type: "restart" });
+
+      expect(restarted).toEqual(start());
+    });
+  });
+
+  describe("getResults", () => {
+    const origin = { latitude: 37.7749, longitude: -122.4194 };
+    const near = makeRestaurant("near", { latitude: 37.776 });
+    const far = makeRestaurant("far", { latitude: 37.8 });
+    const unloved = makeRestaurant("unloved", { latitude: 37.775 });
+
+    const play = (restaurants: Restaurant[], ...turns: boolean[][]) =>
+      run(
+        PassAndPlayService.createGame(
+          turns.map((_, index) => `Player ${index + 1}`),
+          restaurants,
+          { random: noShuffle }
+        ),
+        turns.flatMap((liked) => swipes(...liked))
+      );
+
+    it("ranks by consensus score", () => {
+      const state = play([unloved, far, near], [false, true, true], [false, true, false]);
+      const results = PassAndPlayService.getResults(state, origin);
+
+      expect(results.map((result) => [result.restaurant.id, result.likes, result.score])).toEqual([
+        ["far", 2, 1],
+        ["near", 1, 0.5],
+        ["unloved", 0, 0],
+      ]);
+      expect(results[0].likedBy).toEqual(["Player 1", "Player 2"]);
+    });
+
+    it("breaks ties by distance", () => {
+      const state = play([far, near], [true, true], [true, true]);
+      const results = PassAndPlayService.getResults(state, origin);
+
+      expect(results.map((result) => result.restaurant.id)).toEqual(["near", "far"]);
+      expect(results[0].distance).toBeLessThan(results[1].distance as number);
+    });
+
+    it("keeps deck order for ties without a location", () => {
+      const state = play([far, near], [true, true], [true, true]);
+      const results = PassAndPlayService.getResults(state);
+
+      expect(results.map((result) => result.restaurant.id)).toEqual(["far", "near"]);
+      expect(results[0].distance).toBeNull();
+    });
+
+    it("counts skipped cards as no vote", () => {
+      const state = run(
+        PassAndPlayService.createGame(["Ana", "Ben"], [near, far], { random: noShuffle }),
+        [{ type: "ready" }, { type: "endTurn" }, ...swipes(true, true)]
+      );
+      const results = PassAndPlayService.getResults(state, origin);
+
+      expect(results.map((result) => [result.restaurant.id, result.likes])).toEqual([
+        ["near", 1],
+        ["far", 1],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { PlaceProviderError } from "../placeProviderError";
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+  ({ ok: false, status, headers: new Headers(headers) }) as Response;
+
+describe("PlaceProviderError", () => {
+  it("classifies HTTP errors by status", () => {
+    expect(PlaceProviderError.fromResponse("Geoapify", response(401)).kind).toBe("unauthorized");
+    expect(PlaceProviderError.fromResponse("Geoapify", response(403)).kind).toBe("unauthorized");
+    expect(PlaceProviderError.fromResponse("Geoapify", response(429)).kind).toBe("rate_limited");
+    expect(PlaceProviderError.fromResponse("Geoapify", response(503)).kind).toBe("server");
+  });
+
+  it("reads how long to wait from Retry-After", () => {
+    const error = PlaceProviderError.fromResponse("Overpass", response(429, { "Retry-After": "12" }));
+
+    expect(error.retryAfterMs).toBe(12000);
+    expect(error.message).toBe("Overpass API error: 429");
+    expect(PlaceProviderError.fromResponse("Overpass", response(429)).retryAfterMs).toBeUndefined();
+  });
+
+  it("only retries errors that might go away", () => {
+    expect(new PlaceProviderError("network", "offline").isRetryable).toBe(true);
+    expect(new PlaceProviderError("rate_limited", "slow down").isRetryable).toBe(true);
+    expect(new PlaceProviderError("missing_api_key", "no key").isRetryable).toBe(false);
+    expect(new PlaceProviderError("unauthorized", "bad key").isRetryable).toBe(false);
+  });
+
+  it("classifies anything thrown while fetching", () => {
+    const original = new PlaceProviderError("server", "boom", 500);
+
+    expect(PlaceProviderError.from(original)).toBe(original);
+    expect(PlaceProviderError.from(new SyntaxError("Unexpected token <")).kind).toBe("invalid_response");
+    expect(PlaceProviderError.from(new TypeError("Network request failed")).kind).toBe("network");
+    const abort = new Error("Aborted");
+    abort.name = "AbortError";
+    expect(PlaceProviderError.from(abort)).toMatchObject({ kind: "cancelled", isRetryable: false });
+  });
+});
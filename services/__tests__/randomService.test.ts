@@ -0,0 +1,60 @@
+import { RandomService } from "../randomService";
+
+describe("RandomService", () => {
+  describe("createRandom", () => {
+    it("repeats the same sequence for the same seed", () => {
+      const a = RandomService.createRandom(42);
+      const b = RandomService.createRandom(42);
+      const sequence = [a(), a(), a()];
+
+      expect([b(), b(), b()]).toEqual(sequence);
+      sequence.forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+
+    it("accepts string seeds", () => {
+      expect(RandomService.createRandom("ABC234")()).toBe(RandomService.createRandom("ABC234")());
+      expect(RandomService.createRandom("ABC234")()).not.toBe(RandomService.createRandom("ABC235")());
+    });
+  });
+
+  describe("shuffle", () => {
+    const items = Array.from({ length: 20 }, (_, index) => index);
+
+    it("gives the same order for the same seed", () => {
+      const first = RandomService.shuffle(items, RandomService.createRandom("dinner"));
+      const second = RandomService.shuffle(items, RandomService.createRandom("dinner"));
+      const other = RandomService.shuffle(items, RandomService.createRandom("lunch"));
+
+      expect(second).toEqual(first);
+      expect(other).not.toEqual(first);
+      expect([...first].sort((a, b) => a - b)).toEqual(items);
+    });
+
+    it("leaves the input untouched", () => {
+      RandomService.shuffle(items, RandomService.createRandom(1));
+      expect(items).toEqual(Array.from({ length: 20 }, (_, index) => index));
+    });
+  });
+
+  describe("weightedShuffle", () => {
+    it("is reproducible and tends to put heavier items first", () => {
+      const items = ["light", "heavy"];
+      const random = RandomService.createRandom(9);
+      let heavyFirst = 0;
+
+      for (let i = 0; i < 1000; i++) {
+        const order = RandomService.weightedShuffle(items, (item) => (item === "heavy" ? 3 : 1), random);
+        if (order[0] === "heavy") heavyFirst++;
+      }
+
+      // P(heavy first) = 3 / (3 + 1)
+      expect(heavyFirst / 1000).toBeCloseTo(0.75, 1);
+      expect(RandomService.weightedShuffle(items, () => 1, RandomService.createRandom(3))).toEqual(
+        RandomService.weightedShuffle(items, () => 1, RandomService.createRandom(3))
+      );
+    });
+  });
+});
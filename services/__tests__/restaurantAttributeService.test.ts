@@ -0,0 +1,98 @@
+import { RestaurantAttributeService } from "../restaurantAttributeService";
+import { Restaurant } from "../../types/restaurant";
+
+const baseRestaurant: Restaurant = {
+  id: "1",
+  name: "Test Restaurant",
+  cuisine: "Italian",
+  image: "",
+  latitude: 0,
+  longitude: 0,
+  dataSource: "api",
+};
+
+describe("RestaurantAttributeService", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("extractRating", () => {
+    it.each([
+      [{ stars: "4" }, 4],
+      [{ stars: "3.5" }, 3.5],
+      [{ stars: "4S" }, 4],
+      [{ stars: 5 }, 5],
+    ])("reads %p as %p", (raw, expected) => {
+      expect(RestaurantAttributeService.extractRating(raw)).toEqual({
+        rating: expected,
+        ratingSource: "osm",
+      });
+    });
+
+    it("returns nothing when there is no usable stars tag", () => {
+      expect(RestaurantAttributeService.extractRating(undefined)).toEqual({});
+      expect(RestaurantAttributeService.extractRating({ name: "Cafe" })).toEqual({});
+      expect(RestaurantAttributeService.extractRating({ stars: "yes" })).toEqual({});
+      expect(RestaurantAttributeService.extractRating({ stars: "7" })).toEqual({});
+    });
+
+    it("gives the same result on every call", () => {
+      const raw = { name: "Cafe" };
+      expect(RestaurantAttributeService.extractRating(raw)).toEqual(
+        RestaurantAttributeService.extractRating(raw)
+      );
+    });
+  });
+
+  describe("extractPriceRange", () => {
+    it.each([
+      [{ price_range: "$$" }, "$$"],
+      [{ "price:range": "€€€" }, "$$$"],
+      [{ price_level: "1" }, "$"],
+      [{ price_level: 4 }, "$$$$"],
+      [{ price: "cheap" }, "$"],
+      [{ price: "Expensive" }, "$$$"],
+    ])("reads %p as %p", (raw, expected) => {
+      expect(RestaurantAttributeService.extractPriceRange(raw)).toEqual({
+        priceRange: expected,
+        priceRangeSource: "osm",
+      });
+    });
+
+    it("ignores price tags it cannot map to a range", () => {
+      expect(RestaurantAttributeService.extractPriceRange({ price: "12 EUR" })).toEqual({});
+      expect(RestaurantAttributeService.extractPriceRange({ price_level: "7" })).toEqual({});
+      expect(RestaurantAttributeService.extractPriceRange(undefined)).toEqual({});
+    });
+  });
+
+  describe("migrateCachedRestaurants", () => {
+    it("drops unsourced ratings and prices from old cache entries", () => {
+      const legacy = { ...baseRestaurant, rating: 4.3, priceRange: "$$" as const };
+
+      const [migrated] = RestaurantAttributeService.migrateCachedRestaurants([legacy]);
+
+      expect(migrated.rating).toBeUndefined();
+      expect(migrated.priceRange).toBeUndefined();
+      expect(migrated.name).toBe("Test Restaurant");
+    });
+
+    it("keeps sourced values untouched", () => {
+      const sourced: Restaurant = {
+        ...baseRestaurant,
+        rating: 4,
+        ratingSource: "osm",
+        priceRange: "$",
+        priceRangeSource: "osm",
+      };
+
+      const [migrated] = RestaurantAttributeService.migrateCachedRestaurants([sourced]);
+
+      expect(migrated).toBe(sourced);
+    });
+  });
+});
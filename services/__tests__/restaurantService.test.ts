@@ -1,5 +1,14 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { LocationCoordinates } from "../locationService";
-import { RestaurantService } from "../restaurantService";
+import { CoveragePlannerService } from "../coveragePlannerService";
+import { PlaceProvider, PlaceProviderService } from "../placeProvider";
+import { PlaceProviderError } from "../placeProviderError";
+import { DeckResult, RestaurantService } from "../restaurantService";
+import { SavedPlacesService } from "../savedPlacesService";
+import { DEFAULT_SETTINGS, SettingsService } from "../settingsService";
+import { SharedCacheService } from "../sharedCacheService";
+import { makeRestaurant } from "../../test-utils/restaurants";
+import { Restaurant } from "../../types/restaurant";
 
 jest.mock("../supabaseClient", () => {
   type MockQueryResult = {
@@ -69,10 +78,13 @@ describe("RestaurantService", () => {
   const suppressedMessages = [
     "No shared cache found",
     "Error fetching from Geoapify:",
-    "No restaurants found, using mock data",
+    "not configured",
+    "USING OFFLINE FIXTURE DATA",
+    "Using offline fixture data",
     "Error fetching nearby restaurants:",
     "Error fetching fresh restaurants:",
     "Fresh fetch: Found",
+    "retrying in",
   ];
 
   beforeEach(() => {
@@ -105,6 +117,8 @@ describe("RestaurantService", () => {
   });
 
   afterEach(() => {
+    jest.restoreAllMocks();
+
     // Restore original console methods
     console.log = originalConsoleLog;
     console.error = originalConsoleError;
@@ -112,52 +126,550 @@ describe("RestaurantService", () => {
   });
 
   describe("fetchNearbyRestaurants", () => {
-    it("should handle API errors gracefully", async () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+      jest.spyOn(PlaceProviderService.getProvider("geoapify"), "isConfigured").mockReturnValue(true);
+      jest.spyOn(Math, "random").mockReturnValue(0); // The HTTP client retries without a backoff delay
+    });
+
+    it("returns a retryable server error when the API fails", async () => {
       mockFetch.mockResolvedValue({
         ok: false,
         status: 500,
         statusText: "Internal Server Error",
       } as Response);
 
-      const restaurants = await RestaurantService.fetchNearbyRestaurants(
-        mockLocation
+      const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 5000, 500, true);
+
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error.kind).toBe("server");
+      expect(result.error.isRetryable).toBe(true);
+    });
+
+    it("tells an invalid key apart from rate limiting", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401 } as Response).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ "Retry-After": "30" }),
+      } as Response);
+
+      const unauthorized = await RestaurantService.fetchNearbyRestaurants(mockLocation, 5000, 500, true);
+      const rateLimited = await RestaurantService.fetchNearbyRestaurants(mockLocation, 5000, 500, true);
+
+      expect(unauthorized.ok ? null : unauthorized.error.kind).toBe("unauthorized");
+      expect(rateLimited.ok ? null : rateLimited.error.kind).toBe("rate_limited");
+      expect(rateLimited.ok ? null : rateLimited.error.retryAfterMs).toBe(30000);
+    });
+
+    it("returns a network error when the request can't be made", async () => {
+      mockFetch.mockRejectedValue(new TypeError("Network request failed"));
+
+      const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 5000, 500, true);
+
+      expect(result.ok ? null : result.error.kind).toBe("network");
+    });
+
+    it("falls back to cached restaurants rather than an error", async () => {
+      const provider = PlaceProviderService.getProvider("geoapify");
+      const cached = { ...(await RestaurantService.fetchDemoRestaurants(mockLocation, 2000, 1))[0] };
+      jest.spyOn(provider, "searchInCircle").mockResolvedValueOnce([cached]);
+      await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true);
+
+      mockFetch.mockRejectedValue(new TypeError("Network request failed"));
+      const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true);
+
+      expect(result).toEqual({ ok: true, restaurants: [cached], source: "cache" });
+    });
+
+    it("reports a missing API key instead of serving demo data", async () => {
+      jest.spyOn(PlaceProviderService.getProvider("geoapify"), "isConfigured").mockReturnValue(false);
+
+      const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 3000);
+
+      expect(result.ok ? null : result.error.kind).toBe("missing_api_key");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("fetchDemoRestaurants", () => {
+    it("places demo restaurants around the user", async () => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      const farAwayLocation = { latitude: 48.8566, longitude: 2.3522 };
+
+      const restaurants = await RestaurantService.fetchDemoRestaurants(farAwayLocation, 3000);
+
+      expect(restaurants.length).toBeGreaterThan(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+      restaurants.forEach((restaurant) => {
+        expect(restaurant.id).toMatch(/^fixture-/);
+        expect(Math.abs(restaurant.latitude - farAwayLocation.latitude)).toBeLessThan(0.05);
+        expect(Math.abs(restaurant.longitude - farAwayLocation.longitude)).toBeLessThan(0.05);
+      });
+    });
+  });
+
+  describe("fetchRestaurantDetails", () => {
+    const makeFeature = (name: string, categories: string[], raw: Record<string, unknown> = {}) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [-122.4194, 37.7749] },
+      properties: {
+        place_id: `place-${name}`,
+        name,
+        categories,
+        datasource: { sourcename: "openstreetmap", raw: { name, ...raw } },
+      },
+    });
+
+    const respondWith = (feature: ReturnType<typeof makeFeature>) => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ features: [feature] }),
+      } as Response);
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    it("labels generic restaurants the same way on every fetch", async () => {
+      respondWith(makeFeature("Corner Spot", ["catering", "catering.restaurant"]));
+
+      const first = await RestaurantService.fetchRestaurantDetails("place-Corner Spot");
+      const second = await RestaurantService.fetchRestaurantDetails("place-Corner Spot");
+
+      expect(first?.cuisine).toBe("Restaurant");
+      expect(first?.cuisineConfidence).toBe("unknown");
+      expect(second?.cuisine).toBe(first?.cuisine);
+    });
+
+    it.each([
+      ["explicit", makeFeature("Corner Spot", ["catering.restaurant"], { cuisine: "thai" }), "Thai"],
+      ["name", makeFeature("Tokyo Garden", ["catering.restaurant"]), "Japanese"],
+      ["category", makeFeature("Corner Spot", ["catering.cafe"]), "Cafe"],
+    ])("records %s confidence", async (confidence, feature, cuisine) => {
+      respondWith(feature);
+
+      const restaurant = await RestaurantService.fetchRestaurantDetails(feature.properties.place_id);
+
+      expect(restaurant?.cuisine).toBe(cuisine);
+      expect(restaurant?.cuisineConfidence).toBe(confidence);
+    });
+  });
+
+  describe("with a custom place provider", () => {
+    const fixtureRestaurant: Restaurant = {
+      id: "fixture-1",
+      name: "Fixture Diner",
+      cuisine: "American",
+      image: "",
+      latitude: 37.775,
+      longitude: -122.4195,
+      dataSource: "api",
+    };
+
+    const createProvider = (): jest.Mocked<PlaceProvider> => ({
+      id: "overpass",
+      name: "Test Provider",
+      maxResultsPerSearch: 100,
+      sharesCache: false,
+      isConfigured: jest.fn(() => true),
+      searchInCircle: jest.fn().mockResolvedValue([fixtureRestaurant]),
+      getPlaceDetails: jest.fn().mockResolvedValue(fixtureRestaurant),
+      normalize: jest.fn(),
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      PlaceProviderService.setProviderOverride(null);
+    });
+
+    it("fetches the deck from the active provider instead of Geoapify", async () => {
+      const provider = createProvider();
+      PlaceProviderService.setProviderOverride(provider);
+      const setSharedCache = jest.spyOn(SharedCacheService, "setSharedCache");
+
+      const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true);
+
+      expect(provider.searchInCircle).toHaveBeenCalledWith(mockLocation, 2000, 50, { signal: undefined });
+      expect(result).toEqual({ ok: true, restaurants: [fixtureRestaurant], source: "live" });
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(setSharedCache).not.toHaveBeenCalled();
+    });
+
+    it("rebuilds the same deck from location, radius and seed", async () => {
+      const restaurants = Array.from({ length: 12 }, (_, index) => ({
+        ...fixtureRestaurant,
+        id: `fixture-${index}`,
+      }));
+      const provider = createProvider();
+      // A second device may get the same places back in a different order
+      provider.searchInCircle
+        .mockResolvedValueOnce(restaurants)
+        .mockResolvedValueOnce([...restaurants].reverse())
+        .mockResolvedValueOnce(restaurants);
+      PlaceProviderService.setProviderOverride(provider);
+
+      const deck = await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true, { seed: "ABC234" });
+      const sameSeed = await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true, { seed: "ABC234" });
+      const otherSeed = await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true, { seed: "XYZ789" });
+
+      const ids = (result: DeckResult) => (result.ok ? result.restaurants.map((restaurant) => restaurant.id) : []);
+      expect(ids(sameSeed)).toEqual(ids(deck));
+      expect(ids(otherSeed)).not.toEqual(ids(deck));
+      expect(ids(deck).sort()).toEqual(restaurants.map((restaurant) => restaurant.id).sort());
+    });
+
+    it("orders both nearby decks and rings with the chosen ordering", async () => {
+      const far = { ...fixtureRestaurant, id: "fixture-far", latitude: 37.79 };
+      const near = { ...fixtureRestaurant, id: "fixture-near", latitude: 37.775 };
+      const provider = createProvider();
+      provider.searchInCircle.mockResolvedValue([far, near]);
+      PlaceProviderService.setProviderOverride(provider);
+
+      const nearby = await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true, {
+        ordering: "nearest",
+      });
+      const { deck: ring } = await RestaurantService.fetchRing(mockLocation, 0, 2000, { ordering: "nearest" });
+
+      const ids = (result: DeckResult) => (result.ok ? result.restaurants.map((restaurant) => restaurant.id) : []);
+      expect(ids(nearby)).toEqual(["fixture-near", "fixture-far"]);
+      expect(ids(ring)).toEqual(["fixture-near", "fixture-far"]);
+    });
+
+    it("skips splitting a truncated tile once the request budget is used up", async () => {
+      await AsyncStorage.clear();
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      const provider = { ...createProvider(), maxResultsPerSearch: 1 };
+      // Pages this small would need more 1km tiles than either budget allows, so the whole area is searched
+      // first; only that search looks truncated
+      provider.searchInCircle.mockImplementation(async (center: LocationCoordinates, radiusInMeters: number) =>
+        radiusInMeters === 20000 ? [fixtureRestaurant] : []
       );
+      PlaceProviderService.setProviderOverride(provider);
+      await SettingsService.saveSettings({ ...DEFAULT_SETTINGS, dailyRequestBudget: 5 });
 
-      expect(Array.isArray(restaurants)).toBe(true);
+      await RestaurantService.fetchNearbyRestaurants(mockLocation, 20000, 50, true);
+      expect(provider.searchInCircle).toHaveBeenCalledTimes(1);
+
+      await SettingsService.saveSettings({ ...DEFAULT_SETTINGS, dailyRequestBudget: 100 });
+      await RestaurantService.fetchNearbyRestaurants(mockLocation, 20000, 50, true);
+      expect(provider.searchInCircle).toHaveBeenCalledTimes(1 + 1 + 7); // Plus a hexagon of seven smaller tiles
     });
 
-    it("should handle network errors gracefully", async () => {
-      mockFetch.mockRejectedValue(new Error("Network error"));
+    it("finds every restaurant in an odd radius, however densely they cluster", async () => {
+      await AsyncStorage.clear();
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      const at = (id: string, northMeters: number, eastMeters: number): Restaurant => ({
+        ...fixtureRestaurant,
+        id,
+        latitude: mockLocation.latitude + northMeters / 111195,
+        longitude: mockLocation.longitude + eastMeters / (111195 * Math.cos((mockLocation.latitude * Math.PI) / 180)),
+      });
+      // 60 restaurants downtown, a few scattered further out, and one 24km away
+      const places = [
+        ...Array.from({ length: 60 }, (_, index) => at(`downtown-${index}`, (index % 8) * 800, Math.floor(index / 8) * 800)),
+        at("suburb", -9000, 6000),
+        at("airport", 14000, -12000),
+        at("edge", 0, 24000),
+        at("outside", 0, 27000),
+      ];
+      // Like a real API: the nearest places in the circle, up to a page
+      const provider = { ...createProvider(), maxResultsPerSearch: 20 };
+      provider.searchInCircle.mockImplementation(async (center: LocationCoordinates, radiusInMeters: number) =>
+        places
+          .map((place) => ({ place, distance: CoveragePlannerService.distanceInMeters(center, place) }))
+          .filter(({ distance }) => distance <= radiusInMeters)
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, 20)
+          .map(({ place }) => place)
+      );
+      PlaceProviderService.setProviderOverride(provider);
+
+      const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 25000, 500, true);
 
-      const restaurants = await RestaurantService.fetchNearbyRestaurants(
-        mockLocation
+      const found = result.ok ? result.restaurants.map((restaurant) => restaurant.id).sort() : [];
+      expect(found).toEqual(places.filter((place) => place.id !== "outside").map((place) => place.id).sort());
+    });
+
+    describe("wide searches", () => {
+      const area = { center: mockLocation, radiusInMeters: 30000 };
+      const tiles = CoveragePlannerService.planCoverage(
+        mockLocation,
+        area.radiusInMeters,
+        CoveragePlannerService.getTileRadius(100)
       );
+      const centerTile = tiles.find((tile) => CoveragePlannerService.distanceInMeters(tile.center, mockLocation) < 1)!;
+      const isCenterTile = (center: LocationCoordinates, radiusInMeters: number) =>
+        CoveragePlannerService.distanceInMeters(center, mockLocation) < 1 &&
+        radiusInMeters === Math.round(centerTile.radiusInMeters);
+
+      // Each search finds a restaurant at its center and takes a moment; only the first center tile is truncated
+      let active: number;
+      let maxActive: number;
+      const createSlowProvider = () => {
+        const provider = { ...createProvider(), maxResultsPerSearch: 100 };
+        provider.searchInCircle.mockImplementation(async (center: LocationCoordinates, radiusInMeters: number) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          const id = `fixture-${center.latitude.toFixed(4)}-${center.longitude.toFixed(4)}`;
+          const restaurant = { ...fixtureRestaurant, ...center, id };
+          return isCenterTile(center, radiusInMeters)
+            ? Array.from({ length: 100 }, (_, index) => ({ ...restaurant, id: `${id}-${index}` }))
+            : [restaurant];
+        });
+        return provider;
+      };
+
+      beforeEach(async () => {
+        active = 0;
+        maxActive = 0;
+        await AsyncStorage.clear();
+      });
+
+      it("runs searches in parallel, a few at a time, and streams the deck as they finish", async () => {
+        const provider = createSlowProvider();
+        PlaceProviderService.setProviderOverride(provider);
+        const partialDecks: Restaurant[][] = [];
+
+        const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 30000, 500, true, {}, {
+          onPartialResults: (restaurants) => partialDecks.push(restaurants),
+        });
+
+        // Tiles sized to the page, then a hexagon of smaller ones for the truncated tile
+        expect(provider.searchInCircle).toHaveBeenCalledTimes(
+          tiles.length + CoveragePlannerService.subdivide(centerTile, area).length
+        );
+        expect(tiles.length).toBeGreaterThan(1);
+        expect(maxActive).toBeGreaterThan(1);
+        expect(maxActive).toBeLessThanOrEqual(3);
+        expect(partialDecks.length).toBeGreaterThan(1);
+        expect(partialDecks[0].length).toBeLessThan(partialDecks[partialDecks.length - 1].length);
+        expect(result.ok && result.restaurants.length).toBe(partialDecks[partialDecks.length - 1].length);
+      });
+
+      it("stops starting searches once cancelled", async () => {
+        const provider = createSlowProvider();
+        PlaceProviderService.setProviderOverride(provider);
+        const controller = new AbortController();
 
-      expect(Array.isArray(restaurants)).toBe(true);
+        const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 30000, 500, true, {}, {
+          signal: controller.signal,
+          onPartialResults: () => controller.abort(),
+        });
+
+        expect(result.ok ? null : result.error.kind).toBe("cancelled");
+        expect((provider.searchInCircle as jest.Mock).mock.calls.length).toBeLessThan(tiles.length);
+      });
+
+      it("keeps the other tiles' restaurants when a search fails, without caching them", async () => {
+        const provider = createSlowProvider();
+        const error = new PlaceProviderError("server", "Test Provider API error: 503", 503);
+        const failingTile = tiles.find((tile) => {
+          const distance = CoveragePlannerService.distanceInMeters(tile.center, mockLocation);
+          return distance > 10000 && distance < 20000;
+        })!;
+        const search = provider.searchInCircle.getMockImplementation()!;
+        provider.searchInCircle.mockImplementation(async (center: LocationCoordinates, radiusInMeters: number) => {
+          if (CoveragePlannerService.distanceInMeters(center, failingTile.center) < 1) throw error;
+          return search(center, radiusInMeters, 100);
+        });
+        PlaceProviderService.setProviderOverride(provider);
+
+        const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 30000, 500, true);
+        expect(await RestaurantService.fetchCachedRestaurants(mockLocation, 30000)).toBeNull();
+        provider.searchInCircle.mockImplementation(search);
+        const complete = await RestaurantService.fetchNearbyRestaurants(mockLocation, 30000, 500, true);
+
+        expect(result.ok).toBe(true);
+        expect(result.error).toBe(error);
+        expect(result.ok && result.restaurants.length).toBe(complete.ok && complete.restaurants.length - 1);
+      });
+
+      it("stops searching after an error every search would hit", async () => {
+        const provider = createSlowProvider();
+        provider.searchInCircle.mockRejectedValueOnce(new PlaceProviderError("unauthorized", "Test Provider API error: 401", 401));
+        PlaceProviderService.setProviderOverride(provider);
+
+        const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 30000, 500, true);
+
+        expect(result.error?.kind).toBe("unauthorized");
+        expect((provider.searchInCircle as jest.Mock).mock.calls.length).toBeLessThan(tiles.length);
+      });
+
+      it("searches only the ring outside an inner radius, without caching it", async () => {
+        const provider = createSlowProvider();
+        PlaceProviderService.setProviderOverride(provider);
+
+        const { deck, found } = await RestaurantService.fetchRing(mockLocation, 10000, 30000);
+
+        const calls = (provider.searchInCircle as jest.Mock).mock.calls as [LocationCoordinates, number][];
+        expect(calls.length).toBeLessThan(tiles.length);
+        for (const [center, radiusInMeters] of calls) {
+          expect(CoveragePlannerService.distanceInMeters(center, mockLocation) + radiusInMeters).toBeGreaterThan(10000);
+        }
+        const distances = found.map((restaurant) => CoveragePlannerService.distanceInMeters(mockLocation, restaurant));
+        expect(distances.length).toBeGreaterThan(0);
+        expect(distances.every((distance) => distance > 10000 && distance <= 30000)).toBe(true);
+        expect(deck.ok && deck.restaurants.length).toBe(found.length);
+        expect(await RestaurantService.fetchCachedRestaurants(mockLocation, 30000)).toBeNull();
+
+        await RestaurantService.cacheAreaRestaurants(mockLocation, 30000, found);
+        const cached = await RestaurantService.fetchCachedRestaurants(mockLocation, 30000);
+        expect(cached?.ok && cached.restaurants.length).toBe(found.length);
+      });
+
+      it("keeps the restaurants closest to the location, up to maxResults", async () => {
+        const provider = createSlowProvider();
+        PlaceProviderService.setProviderOverride(provider);
+
+        const result = await RestaurantService.fetchNearbyRestaurants(mockLocation, 30000, 10, true, {
+          ordering: "nearest",
+        });
+
+        const distances = (result.ok ? result.restaurants : []).map((restaurant) =>
+          CoveragePlannerService.distanceInMeters(mockLocation, restaurant)
+        );
+        expect(distances).toHaveLength(10);
+        // The truncated center tile's restaurants, all at the location, come first
+        expect(distances.every((distance) => distance < 1)).toBe(true);
+      });
     });
 
-    it("should return mock data when API key is missing", async () => {
-      const originalApiKey = process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY;
-      delete process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY;
+    it("reads a cached deck without fetching", async () => {
+      await AsyncStorage.clear();
+      const provider = createProvider();
+      PlaceProviderService.setProviderOverride(provider);
 
-      const restaurants = await RestaurantService.fetchNearbyRestaurants(
-        mockLocation
+      expect(await RestaurantService.fetchCachedRestaurants(mockLocation, 2000)).toBeNull();
+      await RestaurantService.fetchNearbyRestaurants(mockLocation, 2000, 50, true);
+
+      expect(await RestaurantService.fetchCachedRestaurants(mockLocation, 2000)).toEqual({
+        ok: true,
+        restaurants: [fixtureRestaurant],
+        source: "cache",
+      });
+      expect(await RestaurantService.fetchCachedRestaurants(mockLocation, 4000)).toBeNull();
+      expect(provider.searchInCircle).toHaveBeenCalledTimes(1);
+    });
+
+    it("pre-warms saved places so switching to one is served from the cache", async () => {
+      const provider = createProvider();
+      PlaceProviderService.setProviderOverride(provider);
+      const office = await SavedPlacesService.savePlace("Office", { latitude: 37.79, longitude: -122.4 });
+      await SavedPlacesService.updatePlaceSettings(office.id, { maxRadius: 2 });
+
+      expect(await RestaurantService.prewarmSavedPlaces()).toBe(1);
+      expect(provider.searchInCircle).toHaveBeenCalledWith(
+        { latitude: 37.79, longitude: -122.4 },
+        2000,
+        100,
+        { signal: undefined }
       );
 
-      expect(Array.isArray(restaurants)).toBe(true);
-      expect(restaurants.length).toBeGreaterThan(0); // Should return mock data
+      // Already warm: neither pre-warming again nor switching to the place hits the provider
+      expect(await RestaurantService.prewarmSavedPlaces()).toBe(0);
+      const deck = await RestaurantService.fetchNearbyRestaurants({ latitude: 37.79, longitude: -122.4 }, 2000);
+      expect(deck).toEqual({ ok: true, restaurants: [fixtureRestaurant], source: "cache" });
+      expect(provider.searchInCircle).toHaveBeenCalledTimes(1);
+    });
+
+    it("loads details from the active provider", async () => {
+      const provider = createProvider();
+      PlaceProviderService.setProviderOverride(provider);
+
+      const restaurant = await RestaurantService.fetchRestaurantDetails("fixture-1");
+
+      expect(provider.getPlaceDetails).toHaveBeenCalledWith("fixture-1");
+      expect(restaurant).toBe(fixtureRestaurant);
+    });
+  });
+
+  describe("mergeStreamedDeck", () => {
+    const card = (id: string) => ({ id }) as Restaurant;
+
+    it("keeps the swiped cards and the one on top, then takes the rest from the newer deck", () => {
+      const deck = [card("a"), card("b"), card("c")];
+      const incoming = [card("d"), card("b"), card("a"), card("e")];
+
+      const merged = RestaurantService.mergeStreamedDeck(deck, 1, incoming);
 
-      // Restore the API key
-      process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY = originalApiKey;
+      expect(merged.map((restaurant) => restaurant.id)).toEqual(["a", "b", "d", "e"]);
+    });
+
+    it("uses the newer deck as-is when nothing is showing yet", () => {
+      expect(RestaurantService.mergeStreamedDeck([], 0, [card("a")])).toEqual([card("a")]);
     });
   });
 
-  describe("fetchFreshRestaurants", () => {
-    it("should handle fresh restaurant requests without throwing", async () => {
-      // Test that the method can be called without throwing an error
-      expect(async () => {
-        await RestaurantService.fetchFreshRestaurants(mockLocation);
-      }).not.toThrow();
+  describe("reorderUpcoming", () => {
+    // Roughly 1.1 km per 0.01 degrees of latitude
+    const deck = [
+      makeRestaurant("swiped", { latitude: 37.8 }),
+      makeRestaurant("top", { latitude: 37.8 }),
+      makeRestaurant("inner", { latitude: 37.785 }),
+      makeRestaurant("outer", { latitude: 37.8 }),
+      makeRestaurant("closest", { latitude: 37.775 }),
+    ];
+
+    it("orders the cards after the one on top again", () => {
+      const reordered = RestaurantService.reorderUpcoming(deck, 1, { ordering: "nearest" }, mockLocation, 4000);
+
+      expect(reordered.map((restaurant) => restaurant.id)).toEqual(["swiped", "top", "closest", "inner", "outer"]);
+    });
+
+    it("mixes a new ring into a random deck", () => {
+      // Inner cards first, then the new ring, as paged in
+      const paged = [...["a", "b", "c", "d"], ...["e", "f", "g", "h"]].map((id) => makeRestaurant(id));
+      jest.spyOn(Math, "random").mockReturnValue(0);
+
+      const reordered = RestaurantService.reorderUpcoming(paged, 0, { ordering: "random" }, mockLocation, 4000);
+
+      expect(reordered[0].id).toBe("a");
+      expect(reordered.map((restaurant) => restaurant.id).slice(1, 4)).not.toEqual(["b", "c", "d"]);
+      expect(reordered.map((restaurant) => restaurant.id).sort()).toEqual(paged.map((restaurant) => restaurant.id));
+    });
+  });
+
+  describe("mergeDeckForLocation", () => {
+    const at = (id: string, latitude: number): Restaurant => ({
+      id,
+      name: id,
+      cuisine: "American",
+      image: "",
+      latitude,
+      longitude: -122.4194,
+      dataSource: "api",
+    });
+
+    // Roughly 1.1 km per 0.01 degrees of latitude
+    const deck = [at("swiped-far", 37.70), at("current", 37.78), at("upcoming-near", 37.79), at("upcoming-far", 37.70)];
+    const movedTo = { latitude: 37.80, longitude: -122.4194 };
+
+    it("keeps swiped cards and drops upcoming ones that fell out of range", () => {
+      const result = RestaurantService.mergeDeckForLocation(deck, 1, [], movedTo, 5000);
+
+      expect(result.deck.map((restaurant) => restaurant.id)).toEqual(["swiped-far", "current", "upcoming-near"]);
+      expect(result.removed).toBe(1);
+    });
+
+    it("appends restaurants newly in range, skipping ones already in the deck or excluded", () => {
+      const incoming = [at("current", 37.78), at("new-near", 37.81), at("seen", 37.80), at("new-far", 37.95)];
+
+      const result = RestaurantService.mergeDeckForLocation(deck, 1, incoming, movedTo, 5000, ["seen"]);
+
+      expect(result.deck.map((restaurant) => restaurant.id)).toEqual([
+        "swiped-far",
+        "current",
+        "upcoming-near",
+        "new-near",
+      ]);
+      expect(result.added).toBe(1);
     });
   });
 
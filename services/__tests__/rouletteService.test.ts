@@ -0,0 +1,137 @@
+import { Restaurant } from "../../types/restaurant";
+import { makeRestaurant, TEST_ORIGIN } from "../../test-utils/restaurants";
+import { EMPTY_CUISINE_PREFERENCES } from "../cuisinePreferenceService";
+import { RandomService } from "../randomService";
+import { RouletteService } from "../rouletteService";
+import { SwipeHistoryEntry } from "../swipeHistoryService";
+
+const origin = TEST_ORIGIN;
+
+// An open restaurant with a known cuisine, so only what a test sets moves its weight
+const candidate = (id: string, overrides: Partial<Restaurant> = {}): Restaurant =>
+  makeRestaurant(id, { cuisines: ["Italian"], cuisineConfidence: "explicit", isOpen: true, ...overrides });
+
+const makeEntry = (restaurantId: string, direction: "pass" | "match"): SwipeHistoryEntry => ({
+  restaurantId,
+  restaurantName: `Restaurant ${restaurantId}`,
+  direction,
+  swipedAt: Date.now(),
+});
+
+const weightOf = (restaurants: Restaurant[], id: string, context = {}) =>
+  RouletteService.getWeights(restaurants, context).find((entry) => entry.restaurant.id === id)!.weight;
+
+describe("RouletteService", () => {
+  describe("getWeights", () => {
+    it("favors closer restaurants", () => {
+      const restaurants = [
+        candidate("near", { latitude: 37.776 }),
+        candidate("far", { latitude: 37.82 }),
+      ];
+      const context = { origin, maxDistanceKm: 10 };
+
+      expect(weightOf(restaurants, "near", context)).toBeGreaterThan(weightOf(restaurants, "far", context));
+    });
+
+    it("boosts preferred cuisines and drops excluded ones", () => {
+      const restaurants = [
+        candidate("pizza"),
+        candidate("sushi", { cuisine: "Japanese", cuisines: ["Japanese"] }),
+        candidate("tacos", { cuisine: "Mexican", cuisines: ["Mexican"] }),
+      ];
+      const context = {
+        cuisinePreferences: { ...EMPTY_CUISINE_PREFERENCES, boost: ["Japanese"], exclude: ["Mexican"] },
+      };
+
+      expect(weightOf(restaurants, "sushi", context)).toBe(3);
+      expect(weightOf(restaurants, "pizza", context)).toBe(1);
+      expect(weightOf(restaurants, "tacos", context)).toBe(0);
+    });
+
+    it("prefers past matches over past passes", () => {
+      const restaurants = [candidate("liked"), candidate("passed"), candidate("new")];
+      const context = { history: [makeEntry("liked", "match"), makeEntry("passed", "pass")] };
+
+      expect(weightOf(restaurants, "liked", context)).toBe(2);
+      expect(weightOf(restaurants, "new", context)).toBe(1);
+      expect(weightOf(restaurants, "passed", context)).toBe(0.25);
+    });
+
+    it("ranks open restaurants above unknown and closed ones", () => {
+      const restaurants = [
+        candidate("open"),
+        candidate("unknown", { isOpen: undefined }),
+        candidate("closed", { isOpen: false }),
+      ];
+      const [open, unknown, closed] = RouletteService.getWeights(restaurants).map((entry) => entry.weight);
+
+      expect(open).toBeGreaterThan(unknown);
+      expect(unknown).toBeGreaterThan(closed);
+      expect(closed).toBeGreaterThan(0);
+    });
+  });
+
+  describe("pick", () => {
+    const restaurants = ["a", "b", "c", "d"].map((id) => candidate(id));
+
+    it("returns the same restaurant for the same seed", () => {
+      const first = RouletteService.pick(restaurants, {}, RandomService.createRandom(7));
+      const second = RouletteService.pick(restaurants, {}, RandomService.createRandom(7));
+
+      expect(first?.restaurant.id).toBe(second?.restaurant.id);
+      expect(restaurants[first!.index]).toBe(first!.restaurant);
+    });
+
+    it("walks the cumulative weights", () => {
+      // Weights are 1, 1, 1, 1: a draw of 0.6 lands in the third slot
+      expect(RouletteService.pick(restaurants, {}, () => 0.6)?.restaurant.id).toBe("c");
+      expect(RouletteService.pick(restaurants, {}, () => 0)?.restaurant.id).toBe("a");
+      expect(RouletteService.pick(restaurants, {}, () => 0.999999)?.restaurant.id).toBe("d");
+    });
+
+    it("never picks a zero-weight restaurant", () => {
+      const excluded = candidate("tacos", { cuisine: "Mexican", cuisines: ["Mexican"] });
+      const context = {
+        cuisinePreferences: { ...EMPTY_CUISINE_PREFERENCES, exclude: ["Mexican"] },
+      };
+      const random = RandomService.createRandom(1);
+
+      for (let i = 0; i < 50; i++) {
+        expect(RouletteService.pick([excluded, ...restaurants], context, random)?.restaurant.id).not.toBe("tacos");
+      }
+    });
+
+    it("follows the weights over many draws", () => {
+      const favorite = candidate("favorite");
+      const context = { history: [makeEntry("favorite", "match")] };
+      const random = RandomService.createRandom(123);
+      let favoriteCount = 0;
+
+      // "favorite" has weight 2 out of a total 6, so about a third of the picks
+      for (let i = 0; i < 3000; i++) {
+        if (RouletteService.pick([favorite, ...restaurants], context, random)?.restaurant.id === "favorite") {
+          favoriteCount++;
+        }
+      }
+
+      expect(favoriteCount / 3000).toBeCloseTo(1 / 3, 1);
+    });
+
+    it("returns null when nothing can be picked", () => {
+      expect(RouletteService.pick([])).toBeNull();
+    });
+  });
+
+  describe("buildReel", () => {
+    it("ends on the pick without repeating a name back to back", () => {
+      const restaurants = ["a", "b", "c"].map((id) => candidate(id));
+      const reel = RouletteService.buildReel(restaurants, restaurants[1], 20, RandomService.createRandom(5));
+
+      expect(reel).toHaveLength(20);
+      expect(reel[reel.length - 1]).toBe(restaurants[1]);
+      reel.slice(0, -1).forEach((restaurant, index) => {
+        expect(restaurant.id).not.toBe(reel[index - 1]?.id);
+      });
+    });
+  });
+});
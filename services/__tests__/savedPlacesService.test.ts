@@ -0,0 +1,103 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { SavedPlacesService } from "../savedPlacesService";
+import { DEFAULT_SETTINGS } from "../settingsService";
+
+describe("SavedPlacesService", () => {
+  const office = { latitude: 37.7897, longitude: -122.3942, address: "101 Mission St, San Francisco" };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("saves places in the order they were added", async () => {
+    await SavedPlacesService.savePlace(" Office ", office);
+    await SavedPlacesService.savePlace("Home", { latitude: 37.76, longitude: -122.43 });
+
+    const places = await SavedPlacesService.getSavedPlaces();
+    expect(places.map((place) => place.name)).toEqual(["Office", "Home"]);
+    expect(places[0]).toMatchObject(office);
+  });
+
+  it("moves a place saved again under the same name", async () => {
+    const first = await SavedPlacesService.savePlace("Office", office);
+    const moved = await SavedPlacesService.savePlace("office", { latitude: 40.7, longitude: -74 });
+
+    expect(moved.id).toBe(first.id);
+    expect(await SavedPlacesService.getSavedPlaces()).toEqual([moved]);
+  });
+
+  it("needs a name", async () => {
+    await expect(SavedPlacesService.savePlace("  ", office)).rejects.toThrow("need a name");
+  });
+
+  it("remembers the selected location until it is cleared", async () => {
+    expect(await SavedPlacesService.getSelectedLocation()).toBeNull();
+
+    await SavedPlacesService.setSelectedLocation({ name: "Paris", latitude: 48.8566, longitude: 2.3522 });
+    expect(await SavedPlacesService.getSelectedLocation()).toMatchObject({ name: "Paris" });
+
+    await SavedPlacesService.setSelectedLocation(null);
+    expect(await SavedPlacesService.getSelectedLocation()).toBeNull();
+  });
+
+  it("unlinks the selection when its saved place is removed", async () => {
+    const place = await SavedPlacesService.savePlace("Office", office);
+    await SavedPlacesService.setSelectedLocation(SavedPlacesService.toSelectedLocation(place));
+
+    await SavedPlacesService.removePlace(place.id);
+
+    expect(await SavedPlacesService.getSavedPlaces()).toEqual([]);
+    const selected = await SavedPlacesService.getSelectedLocation();
+    expect(selected).toMatchObject({ name: "Office", latitude: office.latitude });
+    expect(selected?.savedPlaceId).toBeUndefined();
+  });
+
+  describe("per-place settings", () => {
+    it("overrides only the settings a place changes", async () => {
+      const place = await SavedPlacesService.savePlace("Gym", office);
+      await SavedPlacesService.updatePlaceSettings(place.id, { maxRadius: 2 });
+      const updated = await SavedPlacesService.updatePlaceSettings(place.id, { deckOrdering: "nearest" });
+
+      expect(updated?.settings).toEqual({ maxRadius: 2, deckOrdering: "nearest" });
+      expect(SavedPlacesService.applyPlaceSettings(DEFAULT_SETTINGS, updated)).toEqual({
+        ...DEFAULT_SETTINGS,
+        maxRadius: 2,
+        deckOrdering: "nearest",
+      });
+    });
+
+    it("keeps a place's settings when it is moved", async () => {
+      const place = await SavedPlacesService.savePlace("Office", office);
+      await SavedPlacesService.updatePlaceSettings(place.id, { maxRadius: 1 });
+
+      const moved = await SavedPlacesService.savePlace("Office", { latitude: 40.7, longitude: -74 });
+
+      expect(moved.settings).toEqual({ maxRadius: 1 });
+    });
+
+    it("goes back to the app settings when a place's settings are cleared", async () => {
+      const place = await SavedPlacesService.savePlace("Office", office);
+      await SavedPlacesService.updatePlaceSettings(place.id, { maxRadius: 1 });
+
+      const cleared = await SavedPlacesService.updatePlaceSettings(place.id, null);
+
+      expect(cleared?.settings).toBeUndefined();
+      expect(await SavedPlacesService.updatePlaceSettings("missing", { maxRadius: 1 })).toBeNull();
+    });
+
+    it("applies the selected saved place's settings to searches", async () => {
+      const place = await SavedPlacesService.savePlace("Office", office);
+      await SavedPlacesService.updatePlaceSettings(place.id, { maxRadius: 1.5 });
+
+      expect((await SavedPlacesService.getSearchSettings()).maxRadius).toBe(DEFAULT_SETTINGS.maxRadius);
+
+      await SavedPlacesService.setSelectedLocation(SavedPlacesService.toSelectedLocation(place));
+      expect((await SavedPlacesService.getSearchSettings()).maxRadius).toBe(1.5);
+    });
+  });
+});
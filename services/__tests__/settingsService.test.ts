@@ -36,7 +36,7 @@ describe("SettingsService", () => {
 
       const settings = await SettingsService.loadSettings();
 
-      expect(settings).toEqual(savedSettings);
+      expect(settings).toEqual({ ...DEFAULT_SETTINGS, ...savedSettings });
     });
 
     it("merges saved settings with defaults", async () => {
@@ -48,6 +48,35 @@ describe("SettingsService", () => {
       expect(settings).toEqual(DEFAULT_SETTINGS);
     });
 
+    it("fills in missing nested availability fields from defaults", async () => {
+      const savedSettings = { maxRadius: 8, availability: { mode: "open_now" } };
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(savedSettings));
+
+      const settings = await SettingsService.loadSettings();
+
+      expect(settings.availability).toEqual({
+        ...DEFAULT_SETTINGS.availability,
+        mode: "open_now",
+      });
+    });
+
+    it("drops unknown and duplicated cuisines from saved preferences", async () => {
+      const savedSettings = {
+        maxRadius: 5,
+        cuisinePreferences: { include: ["Thai", "Klingon"], exclude: ["Thai", "Pizza"] },
+      };
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(savedSettings));
+
+      const settings = await SettingsService.loadSettings();
+
+      expect(settings.cuisinePreferences).toEqual({
+        include: [],
+        exclude: ["Thai", "Pizza"],
+        boost: [],
+        matchGuessedCuisines: true,
+      });
+    });
+
     it("returns default settings when JSON parsing fails", async () => {
       mockAsyncStorage.getItem.mockResolvedValue("invalid-json");
 
@@ -75,7 +104,7 @@ describe("SettingsService", () => {
 
   describe("saveSettings", () => {
     it("saves settings to AsyncStorage", async () => {
-      const settings: AppSettings = { maxRadius: 15 };
+      const settings: AppSettings = { ...DEFAULT_SETTINGS, maxRadius: 15 };
 
       await SettingsService.saveSettings(settings);
 
@@ -86,7 +115,7 @@ describe("SettingsService", () => {
     });
 
     it("throws error when AsyncStorage fails", async () => {
-      const settings: AppSettings = { maxRadius: 15 };
+      const settings: AppSettings = { ...DEFAULT_SETTINGS, maxRadius: 15 };
       const storageError = new Error("Storage error");
       mockAsyncStorage.setItem.mockRejectedValue(storageError);
 
@@ -0,0 +1,37 @@
+import { SharedCacheService } from "../sharedCacheService";
+import { makeRestaurant } from "../../test-utils/restaurants";
+
+describe("SharedCacheService", () => {
+  describe("mergeRestaurants", () => {
+    it("adds new restaurants and refreshes API data", () => {
+      const merged = SharedCacheService.mergeRestaurants(
+        [makeRestaurant("b", { name: "Old name" })],
+        [makeRestaurant("b", { name: "New name" }), makeRestaurant("a")]
+      );
+
+      expect(merged.map((restaurant) => [restaurant.id, restaurant.name])).toEqual([
+        ["a", "Restaurant a"],
+        ["b", "New name"],
+      ]);
+    });
+
+    it("keeps user-contributed entries", () => {
+      const contributed = makeRestaurant("a", { image: "https://example.com/user.jpg", dataSource: "user-contributed" });
+
+      const merged = SharedCacheService.mergeRestaurants([contributed], [makeRestaurant("a")]);
+
+      expect(merged).toEqual([contributed]);
+    });
+
+    it("gives the same order whichever device writes last", () => {
+      const fromA = [makeRestaurant("c"), makeRestaurant("a")];
+      const fromB = [makeRestaurant("b"), makeRestaurant("a")];
+
+      const aThenB = SharedCacheService.mergeRestaurants(fromA, fromB);
+      const bThenA = SharedCacheService.mergeRestaurants(fromB, fromA);
+
+      expect(aThenB.map((restaurant) => restaurant.id)).toEqual(["a", "b", "c"]);
+      expect(bThenA).toEqual(aThenB);
+    });
+  });
+});
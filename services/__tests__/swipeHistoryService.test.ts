@@ -0,0 +1,128 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { makeRestaurant } from "../../test-utils/restaurants";
+import { SWIPE_EXPIRY_MS, SwipeHistoryService } from "../swipeHistoryService";
+
+describe("SwipeHistoryService", () => {
+  const start = 1700000000000;
+  let now = start;
+
+  beforeEach(async () => {
+    now = start;
+    await AsyncStorage.clear();
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("records passes and matches in swipe order", async () => {
+    await SwipeHistoryService.recordSwipe(makeRestaurant("a"), "pass");
+    await SwipeHistoryService.recordSwipe(makeRestaurant("b"), "match");
+
+    const history = await SwipeHistoryService.getHistory();
+    expect(history.map(({ restaurantId, direction }) => [restaurantId, direction])).toEqual([
+      ["a", "pass"],
+      ["b", "match"],
+    ]);
+    expect(await SwipeHistoryService.getSeenRestaurantIds()).toEqual(["a", "b"]);
+  });
+
+  it("keeps every swipe when several are recorded without awaiting", async () => {
+    await Promise.all(
+      ["a", "b", "c", "d"].map((id) => SwipeHistoryService.recordSwipe(makeRestaurant(id), "pass"))
+    );
+
+    expect(await SwipeHistoryService.getSeenRestaurantIds()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("replaces an earlier swipe on the same restaurant", async () => {
+    await SwipeHistoryService.recordSwipe(makeRestaurant("a"), "pass");
+    await SwipeHistoryService.recordSwipe(makeRestaurant("b"), "pass");
+    await SwipeHistoryService.recordSwipe(makeRestaurant("a"), "match");
+
+    const history = await SwipeHistoryService.getHistory();
+    expect(history.map(({ restaurantId, direction }) => [restaurantId, direction])).toEqual([
+      ["b", "pass"],
+      ["a", "match"],
+    ]);
+  });
+
+  it("survives a restart by reading from storage", async () => {
+    await SwipeHistoryService.recordSwipe(makeRestaurant("a"), "pass");
+
+    const stored = JSON.parse((await AsyncStorage.getItem("swipe_history")) as string);
+    expect(stored).toEqual([
+      { restaurantId: "a", restaurantName: "Restaurant a", direction: "pass", swipedAt: start },
+    ]);
+  });
+
+  describe("expiry", () => {
+    it("lets passes come back before matches", async () => {
+      await SwipeHistoryService.recordSwipe(makeRestaurant("passed"), "pass");
+      await SwipeHistoryService.recordSwipe(makeRestaurant("matched"), "match");
+
+      now = start + SWIPE_EXPIRY_MS.pass + 1;
+      expect(await SwipeHistoryService.getSeenRestaurantIds()).toEqual(["matched"]);
+
+      now = start + SWIPE_EXPIRY_MS.match + 1;
+      expect(await SwipeHistoryService.getSeenRestaurantIds()).toEqual([]);
+    });
+
+    it("drops expired entries from storage", async () => {
+      await SwipeHistoryService.recordSwipe(makeRestaurant("a"), "pass");
+      now = start + SWIPE_EXPIRY_MS.pass + 1;
+
+      await SwipeHistoryService.getHistory();
+
+      expect(JSON.parse((await AsyncStorage.getItem("swipe_history")) as string)).toEqual([]);
+    });
+
+    it("keeps a pass exactly at the expiry boundary", () => {
+      const entry = { restaurantId: "a", restaurantName: "A", direction: "pass" as const, swipedAt: start };
+      expect(SwipeHistoryService.isExpired(entry, start + SWIPE_EXPIRY_MS.pass)).toBe(false);
+      expect(SwipeHistoryService.isExpired(entry, start + SWIPE_EXPIRY_MS.pass + 1)).toBe(true);
+    });
+  });
+
+  describe("undoLastSwipe", () => {
+    it("removes and returns the most recent swipe", async () => {
+      await SwipeHistoryService.recordSwipe(makeRestaurant("a"), "pass");
+      await SwipeHistoryService.recordSwipe(makeRestaurant("b"), "match");
+
+      const undone = await SwipeHistoryService.undoLastSwipe();
+
+      expect(undone).toMatchObject({ restaurantId: "b", direction: "match" });
+      expect(await SwipeHistoryService.getSeenRestaurantIds()).toEqual(["a"]);
+    });
+
+    it("keeps whether a match created its favorite", async () => {
+      await SwipeHistoryService.recordSwipe(makeRestaurant("new"), "match", { createdFavorite: true });
+      await SwipeHistoryService.recordSwipe(makeRestaurant("old"), "match", { createdFavorite: false });
+
+      expect(await SwipeHistoryService.undoLastSwipe()).toMatchObject({ restaurantId: "old", createdFavorite: false });
+      expect(await SwipeHistoryService.undoLastSwipe()).toMatchObject({ restaurantId: "new", createdFavorite: true });
+    });
+
+    it("returns null when the history is empty", async () => {
+      expect(await SwipeHistoryService.undoLastSwipe()).toBeNull();
+    });
+
+    it("waits for a swipe that is still being written", async () => {
+      SwipeHistoryService.recordSwipe(makeRestaurant("a"), "pass");
+
+      const undone = await SwipeHistoryService.undoLastSwipe();
+
+      expect(undone?.restaurantId).toBe("a");
+      expect(await SwipeHistoryService.getSeenRestaurantIds()).toEqual([]);
+    });
+  });
+
+  it("tolerates corrupt storage", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    await AsyncStorage.setItem("swipe_history", "not json");
+
+    expect(await SwipeHistoryService.getHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DEFAULT_SETTINGS, SettingsService } from "../settingsService";
+import { UsageMeterService } from "../usageMeterService";
+
+describe("UsageMeterService", () => {
+  const today = new Date(2026, 9, 18, 12).getTime();
+  const yesterday = new Date(2026, 9, 17, 12).getTime();
+  const lastMonth = new Date(2026, 8, 30, 12).getTime();
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it("counts requests by endpoint for today and this month", async () => {
+    await Promise.all([
+      UsageMeterService.recordRequest("geoapify/places", today),
+      UsageMeterService.recordRequest("geoapify/places", today),
+      UsageMeterService.recordRequest("geoapify/geocode", today),
+      UsageMeterService.recordRequest("geoapify/places", yesterday),
+      UsageMeterService.recordRequest("geoapify/places", lastMonth),
+    ]);
+
+    expect(await UsageMeterService.getUsage(undefined, today)).toEqual({
+      today: 3,
+      thisMonth: 4,
+      todayByEndpoint: { "geoapify/places": 2, "geoapify/geocode": 1 },
+      monthByEndpoint: { "geoapify/places": 3, "geoapify/geocode": 1 },
+    });
+  });
+
+  it("totals usage per provider", async () => {
+    await UsageMeterService.recordRequest("geoapify/places", today);
+    await UsageMeterService.recordRequest("overpass/interpreter", today);
+
+    const usage = await UsageMeterService.getUsage("overpass", today);
+
+    expect(usage.today).toBe(1);
+    expect(usage.todayByEndpoint).toEqual({ "overpass/interpreter": 1 });
+  });
+
+  it("checks requests against the daily and monthly budgets in settings", async () => {
+    await SettingsService.saveSettings({ ...DEFAULT_SETTINGS, dailyRequestBudget: 3, monthlyRequestBudget: 4 });
+    await UsageMeterService.recordRequest("geoapify/places", yesterday);
+    await UsageMeterService.recordRequest("geoapify/places", today);
+
+    expect((await UsageMeterService.checkBudget("geoapify", 2, today)).allowed).toBe(true);
+    expect(await UsageMeterService.checkBudget("geoapify", 3, today)).toMatchObject({
+      allowed: false,
+      exceeded: "daily",
+      dailyBudget: 3,
+    });
+
+    await UsageMeterService.recordRequest("geoapify/places", yesterday);
+    expect((await UsageMeterService.checkBudget("geoapify", 2, today)).exceeded).toBe("monthly");
+    expect((await UsageMeterService.checkBudget("overpass", 2, today)).allowed).toBe(true);
+  });
+
+  it("drops days from before last month", async () => {
+    await UsageMeterService.recordRequest("geoapify/places", new Date(2026, 7, 31).getTime());
+    await UsageMeterService.recordRequest("geoapify/places", lastMonth);
+    await UsageMeterService.recordRequest("geoapify/places", today);
+
+    const stored = JSON.parse((await AsyncStorage.getItem("api_usage")) as string);
+    expect(Object.keys(stored).sort()).toEqual(["2026-09-30", "2026-10-18"]);
+  });
+
+  it("forgets all usage when cleared", async () => {
+    await UsageMeterService.recordRequest("geoapify/places", today);
+    await UsageMeterService.clearUsage();
+
+    expect((await UsageMeterService.getUsage(undefined, today)).thisMonth).toBe(0);
+  });
+});
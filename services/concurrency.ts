@@ -0,0 +1,39 @@
+import { createAbortError } from "./httpClient";
+
+export type Limiter = <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+/**
+ * Run tasks with at most `concurrency` of them in flight; the rest wait their turn in order.
+ * A task whose signal is aborted before it starts is rejected with an AbortError and never run.
+ */
+export const createLimiter = (concurrency: number): Limiter => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return <T>(task: () => Promise<T>, signal?: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      const run = () => {
+        signal?.removeEventListener("abort", onAbort);
+        active++;
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            queue.shift()?.();
+          });
+      };
+      const onAbort = () => {
+        queue.splice(queue.indexOf(run), 1);
+        reject(createAbortError());
+      };
+
+      if (signal?.aborted) {
+        reject(createAbortError());
+      } else if (active < concurrency) {
+        run();
+      } else {
+        queue.push(run);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      }
+    });
+};
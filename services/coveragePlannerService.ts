@@ -0,0 +1,116 @@
+import { LocationCoordinates } from "./locationService";
+
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_METERS;
+
+// Tiles are searched a little wider than the hexagon they cover, so rounding never leaves a gap
+const TILE_OVERLAP = 1.05;
+
+// A tile smaller than this isn't split any further, even if it comes back with a full page
+export const MIN_TILE_RADIUS_METERS = 1000;
+
+// Restaurants per km² expected when sizing the first tiles: about a metro area's average, so
+// downtown tiles still come back full and get split
+const EXPECTED_RESTAURANTS_PER_KM2 = 2;
+
+export interface SearchArea {
+  center: LocationCoordinates;
+  radiusInMeters: number;
+}
+
+export interface SearchTile extends SearchArea {
+  hexagonRadiusInMeters: number; // The hexagon it covers; radiusInMeters adds the overlap
+  depth: number; // 0 for the first searches, one more for every split
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Plans which circles to search so that together they cover a whole area. Circles are laid out as a
+ * hexagonal tiling: each one is the circumcircle of a hexagon, and the hexagons tile the plane.
+ */
+export class CoveragePlannerService {
+  /**
+   * First searches for an area: a single circle when it fits within maxTileRadiusInMeters, otherwise a hexagonal tiling
+   */
+  static planCoverage(
+    center: LocationCoordinates,
+    radiusInMeters: number,
+    maxTileRadiusInMeters: number = radiusInMeters
+  ): SearchTile[] {
+    if (radiusInMeters <= maxTileRadiusInMeters) {
+      return [{ center, radiusInMeters, hexagonRadiusInMeters: radiusInMeters, depth: 0 }];
+    }
+    return this.planHexTiling({ center, radiusInMeters }, maxTileRadiusInMeters, 0);
+  }
+
+  /**
+   * Radius of a first tile expected to hold about one page of results
+   */
+  static getTileRadius(maxResultsPerSearch: number): number {
+    const radiusInKm = Math.sqrt(maxResultsPerSearch / (Math.PI * EXPECTED_RESTAURANTS_PER_KM2));
+    return Math.max(radiusInKm * 1000, MIN_TILE_RADIUS_METERS);
+  }
+
+  /**
+   * Denser tiles for a tile whose search came back with a full page: hexagons half the size of its own,
+   * covering the part of the tile that lies in the search area. Empty once tiles would get too small.
+   */
+  static subdivide(tile: SearchTile, area: SearchArea): SearchTile[] {
+    const childRadius = tile.hexagonRadiusInMeters / 2;
+    if (childRadius < MIN_TILE_RADIUS_METERS) {
+      return [];
+    }
+    return this.planHexTiling(tile, childRadius, tile.depth + 1).filter(
+      (child) => this.distanceInMeters(child.center, area.center) < area.radiusInMeters + child.radiusInMeters
+    );
+  }
+
+  /**
+   * Circles of tileRadiusInMeters centered on a hexagonal lattice, keeping every one whose hexagon reaches the area
+   */
+  static planHexTiling(area: SearchArea, tileRadiusInMeters: number, depth: number): SearchTile[] {
+    // Hexagons with circumradius r sit r√3 apart, on a lattice with axes 60° apart
+    const spacing = tileRadiusInMeters * Math.sqrt(3);
+    const reach = area.radiusInMeters + tileRadiusInMeters;
+    const steps = Math.ceil(reach / (spacing * (Math.sqrt(3) / 2)));
+    const tiles: SearchTile[] = [];
+
+    for (let row = -steps; row <= steps; row++) {
+      for (let column = -steps; column <= steps; column++) {
+        const eastMeters = (column + row / 2) * spacing;
+        const northMeters = row * spacing * (Math.sqrt(3) / 2);
+        // A hexagon that only touches the area at a corner adds nothing (the overlap covers that point)
+        if (Math.hypot(eastMeters, northMeters) >= reach - 1) continue;
+
+        tiles.push({
+          center: this.offset(area.center, eastMeters, northMeters),
+          radiusInMeters: tileRadiusInMeters * TILE_OVERLAP,
+          hexagonRadiusInMeters: tileRadiusInMeters,
+          depth,
+        });
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Great-circle distance in meters, unrounded
+   */
+  static distanceInMeters(from: LocationCoordinates, to: LocationCoordinates): number {
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLon = toRadians(to.longitude - from.longitude);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  // Close enough to flat for tiles up to a few tens of kilometers across; TILE_OVERLAP absorbs the rest
+  private static offset(center: LocationCoordinates, eastMeters: number, northMeters: number): LocationCoordinates {
+    return {
+      latitude: center.latitude + northMeters / METERS_PER_DEGREE,
+      longitude: center.longitude + eastMeters / (METERS_PER_DEGREE * Math.cos(toRadians(center.latitude))),
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  CATEGORY_CUISINES,
+  CUISINE_KEYWORDS,
+  CUISINE_NORMALIZATION_MAP,
+  GENERIC_RESTAURANT_CUISINE,
+  UNKNOWN_CUISINE,
+} from "../constants/cuisines";
+import { CuisineConfidence } from "../types/restaurant";
+
+export interface CuisineClassificationInput {
+  cuisineTag?: string; // OSM cuisine tag, may be semicolon separated
+  name?: string;
+  categories?: string[];
+}
+
+export interface CuisineClassification {
+  cuisines: string[]; // Most relevant first, never empty
+  confidence: CuisineConfidence;
+}
+
+interface CompiledKeyword {
+  tokens: string[];
+  cuisine: string;
+  priority: number;
+}
+
+let compiledKeywords: CompiledKeyword[] | null = null;
+
+export class CuisineClassifier {
+  /**
+   * Classify a place from its OSM cuisine tag, then its name, then its categories
+   */
+  static classify(input: CuisineClassificationInput): CuisineClassification {
+    const tagged = this.parseCuisineTag(input.cuisineTag);
+    if (tagged.length > 0) {
+      return { cuisines: tagged, confidence: "explicit" };
+    }
+
+    const fromName = this.inferFromName(input.name);
+    if (fromName.length > 0) {
+      return { cuisines: fromName, confidence: "name" };
+    }
+
+    const categories = input.categories || [];
+    for (const [category, cuisine] of Object.entries(CATEGORY_CUISINES)) {
+      if (categories.includes(category)) {
+        return { cuisines: [cuisine], confidence: "category" };
+      }
+    }
+
+    const fallback = categories.includes("catering.restaurant") ? GENERIC_RESTAURANT_CUISINE : UNKNOWN_CUISINE;
+    return { cuisines: [fallback], confidence: "unknown" };
+  }
+
+  /**
+   * Split an OSM cuisine tag such as "pizza;italian" into display cuisines, keeping tag order
+   */
+  static parseCuisineTag(tag: string | undefined): string[] {
+    if (!tag) {
+      return [];
+    }
+
+    const cuisines = tag
+      .split(/[;,]/)
+      .map((value) => value.trim().toLowerCase().replace(/\s+/g, "_"))
+      .filter(Boolean)
+      .map((value) => CUISINE_NORMALIZATION_MAP[value] || value.charAt(0).toUpperCase() + value.slice(1));
+    return Array.from(new Set(cuisines));
+  }
+
+  /**
+   * Find cuisines hinted at by whole words in a restaurant name.
+   * Results are ordered by keyword priority, then by position in the name.
+   */
+  static inferFromName(name: string | undefined): string[] {
+    if (!name) {
+      return [];
+    }
+
+    const tokens = this.tokenize(name);
+    const matches: { cuisine: string; priority: number; position: number }[] = [];
+
+    for (const keyword of this.getCompiledKeywords()) {
+      const position = this.findPhrase(tokens, keyword.tokens);
+      if (position !== -1) {
+        matches.push({ cuisine: keyword.cuisine, priority: keyword.priority, position });
+      }
+    }
+
+    matches.sort((a, b) => a.priority - b.priority || a.position - b.position);
+    return Array.from(new Set(matches.map((match) => match.cuisine)));
+  }
+
+  /**
+   * Lowercase words with accents and punctuation removed, e.g. "Café Döner's" -> ["cafe", "doner", "s"]
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+
+  private static getCompiledKeywords(): CompiledKeyword[] {
+    if (!compiledKeywords) {
+      compiledKeywords = CUISINE_KEYWORDS.flatMap((rule) =>
+        rule.keywords.map((keyword) => ({
+          tokens: this.tokenize(keyword),
+          cuisine: rule.cuisine,
+          priority: rule.priority,
+        }))
+      );
+    }
+    return compiledKeywords;
+  }
+
+  private static findPhrase(tokens: string[], phrase: string[]): number {
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (phrase.every((token, offset) => tokens[i + offset] === token)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,148 @@
+import { CUISINE_NORMALIZATION_MAP, CUISINE_VOCABULARY } from "../constants/cuisines";
+import { Restaurant } from "../types/restaurant";
+
+export interface CuisinePreferences {
+  include: string[]; // When non-empty, only these cuisines are shown
+  exclude: string[]; // Never shown
+  boost: string[]; // Shown earlier in the deck
+  matchGuessedCuisines: boolean; // When false, include/boost only match cuisines tagged in OSM
+}
+
+export type CuisinePreferenceList = "include" | "exclude" | "boost";
+
+export const EMPTY_CUISINE_PREFERENCES: CuisinePreferences = {
+  include: [],
+  exclude: [],
+  boost: [],
+  matchGuessedCuisines: true,
+};
+
+// How much more likely a boosted cuisine is to come up early in the deck
+const BOOST_WEIGHT = 3;
+
+export class CuisinePreferenceService {
+  /**
+   * A restaurant's cuisines as comparable labels.
+   * Older cached entries only have compound values such as "Ice_cream;burger".
+   */
+  static getCuisineLabels(restaurant: Restaurant): string[] {
+    const cuisines = restaurant.cuisines?.length
+      ? restaurant.cuisines
+      : restaurant.cuisine
+          .split(";")
+          .map((part) => part.trim())
+          .filter(Boolean)
+          .map((part) => CUISINE_NORMALIZATION_MAP[part.toLowerCase()] || part);
+    return cuisines.map((cuisine) => cuisine.toLowerCase());
+  }
+
+  /**
+   * Whether a restaurant's cuisine is reliable enough to count as an include/boost match
+   */
+  static isCuisineTrusted(restaurant: Restaurant, preferences: CuisinePreferences): boolean {
+    return preferences.matchGuessedCuisines || restaurant.cuisineConfidence === "explicit";
+  }
+
+  /**
+   * Check whether a restaurant passes the include/exclude lists.
+   * Exclusions apply to guessed cuisines too; it is safer to hide a possible match.
+   */
+  static isAllowed(restaurant: Restaurant, preferences: CuisinePreferences): boolean {
+    const labels = this.getCuisineLabels(restaurant);
+    const matchesAny = (list: string[]) =>
+      list.some((cuisine) => labels.includes(cuisine.toLowerCase()));
+
+    if (matchesAny(preferences.exclude)) return false;
+    if (preferences.include.length > 0) {
+      return this.isCuisineTrusted(restaurant, preferences) && matchesAny(preferences.include);
+    }
+    return true;
+  }
+
+  /**
+   * Relative deck weight of a restaurant, higher for boosted cuisines
+   */
+  static getWeight(restaurant: Restaurant, preferences: CuisinePreferences): number {
+    const labels = this.getCuisineLabels(restaurant);
+    const boosted =
+      this.isCuisineTrusted(restaurant, preferences) &&
+      preferences.boost.some((cuisine) => labels.includes(cuisine.toLowerCase()));
+    return boosted ? BOOST_WEIGHT : 1;
+  }
+
+  /**
+   * Drop restaurants excluded by the include/exclude lists
+   */
+  static filterRestaurants<T extends Restaurant>(
+    restaurants: T[],
+    preferences: CuisinePreferences
+  ): T[] {
+    const filtered = restaurants.filter((restaurant) => this.isAllowed(restaurant, preferences));
+    const removedCount = restaurants.length - filtered.length;
+    if (removedCount > 0) {
+      console.log(`Cuisine preferences filtered out ${removedCount} restaurants`);
+    }
+    return filtered;
+  }
+
+  /**
+   * Whether any preference is set
+   */
+  static hasPreferences(preferences: CuisinePreferences): boolean {
+    return (
+      preferences.include.length > 0 ||
+      preferences.exclude.length > 0 ||
+      preferences.boost.length > 0
+    );
+  }
+
+  /**
+   * Add or remove a cuisine from one list. A cuisine can only live in one list at a time.
+   */
+  static toggleCuisine(
+    preferences: CuisinePreferences,
+    list: CuisinePreferenceList,
+    cuisine: string
+  ): CuisinePreferences {
+    const isInList = preferences[list].includes(cuisine);
+    const withoutCuisine: CuisinePreferences = {
+      ...preferences,
+      include: preferences.include.filter((item) => item !== cuisine),
+      exclude: preferences.exclude.filter((item) => item !== cuisine),
+      boost: preferences.boost.filter((item) => item !== cuisine),
+    };
+
+    if (isInList) {
+      return withoutCuisine;
+    }
+    return { ...withoutCuisine, [list]: [...withoutCuisine[list], cuisine] };
+  }
+
+  /**
+   * Clean up saved preferences: known cuisines only, no duplicates, one list per cuisine.
+   * Missing fields fall back to the empty preferences.
+   */
+  static sanitize(preferences: Partial<CuisinePreferences> | undefined): CuisinePreferences {
+    const seen = new Set<string>();
+    const clean = (list: unknown): string[] => {
+      if (!Array.isArray(list)) return [];
+      return list.filter((cuisine): cuisine is string => {
+        if (typeof cuisine !== "string" || !CUISINE_VOCABULARY.includes(cuisine) || seen.has(cuisine)) {
+          return false;
+        }
+        seen.add(cuisine);
+        return true;
+      });
+    };
+
+    // Exclusions win over inclusions when a cuisine was saved in both
+    const exclude = clean(preferences?.exclude);
+    const include = clean(preferences?.include);
+    const boost = clean(preferences?.boost);
+    const matchGuessedCuisines =
+      typeof preferences?.matchGuessedCuisines === "boolean"
+        ? preferences.matchGuessedCuisines
+        : EMPTY_CUISINE_PREFERENCES.matchGuessedCuisines;
+    return { include, exclude, boost, matchGuessedCuisines };
+  }
+}
@@ -0,0 +1,128 @@
+import { Restaurant } from "../types/restaurant";
+import { DeckPagerService } from "./deckPagerService";
+import { LocationCoordinates, LocationService } from "./locationService";
+import { RandomService, RandomSource } from "./randomService";
+
+export type DeckOrdering = "random" | "nearest" | "distance_weighted" | "ring_interleaved";
+
+export interface DeckSortContext {
+  origin: LocationCoordinates | null;
+  radiusKm: number; // The search radius the deck was fetched with
+  random: RandomSource;
+  getWeight?: (restaurant: Restaurant) => number; // Extra weight, e.g. boosted cuisines
+}
+
+/**
+ * Reorders a deck. Sorters can be chained with compose: later sorters are stable,
+ * so earlier ones break their ties.
+ */
+export type DeckSorter = (restaurants: Restaurant[], context: DeckSortContext) => Restaurant[];
+
+// A deck fetched in a single ring is split into this many rings of equal width
+const SINGLE_RING_SPLIT_COUNT = 3;
+// At this share of the radius a restaurant keeps half its distance weight
+const DISTANCE_HALF_WEIGHT_SHARE = 0.25;
+
+export class DeckOrderingService {
+  /**
+   * Uniform random order, or weighted random when the context has a weight
+   */
+  static shuffle: DeckSorter = (restaurants, { random, getWeight }) =>
+    getWeight
+      ? RandomService.weightedShuffle(restaurants, getWeight, random)
+      : RandomService.shuffle(restaurants, random);
+
+  /**
+   * Closest first. Restaurants are left in place without a location.
+   */
+  static nearestFirst: DeckSorter = (restaurants, { origin }) => {
+    if (!origin) return restaurants;
+    return restaurants
+      .map((restaurant) => ({ restaurant, distance: LocationService.calculateDistance(origin, restaurant) }))
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ restaurant }) => restaurant);
+  };
+
+  /**
+   * Weighted random order where closer restaurants tend to come first
+   */
+  static distanceWeighted: DeckSorter = (restaurants, context) =>
+    this.shuffle(restaurants, {
+      ...context,
+      getWeight: (restaurant) =>
+        this.getDistanceWeight(restaurant, context) * (context.getWeight ? context.getWeight(restaurant) : 1),
+    });
+
+  /**
+   * Order each ring with the inner sorter, then deal one card from each ring in turn
+   * so near and far zones all show up early in the deck
+   */
+  static interleaveRings(inner: DeckSorter = this.shuffle): DeckSorter {
+    return (restaurants, context) => {
+      const { origin } = context;
+      if (!origin) return inner(restaurants, context);
+
+      const edges = this.getRingEdges(context.radiusKm);
+      const rings: Restaurant[][] = edges.map(() => []);
+      for (const restaurant of restaurants) {
+        const distance = LocationService.calculateDistance(origin, restaurant);
+        const ring = edges.findIndex((edge) => distance <= edge);
+        rings[ring === -1 ? edges.length - 1 : ring].push(restaurant);
+      }
+
+      const ordered = rings.map((ring) => inner(ring, context));
+      const deck: Restaurant[] = [];
+      for (let i = 0; deck.length < restaurants.length; i++) {
+        ordered.forEach((ring) => {
+          if (i < ring.length) deck.push(ring[i]);
+        });
+      }
+      return deck;
+    };
+  }
+
+  /**
+   * Run sorters left to right
+   */
+  static compose(...sorters: DeckSorter[]): DeckSorter {
+    return (restaurants, context) => sorters.reduce((deck, sorter) => sorter(deck, context), restaurants);
+  }
+
+  /**
+   * The sorter behind each ordering setting
+   */
+  static getSorter(ordering: DeckOrdering): DeckSorter {
+    switch (ordering) {
+      case "nearest":
+        // Shuffle first so equally distant places don't always come up in provider order
+        return this.compose(this.shuffle, this.nearestFirst);
+      case "distance_weighted":
+        return this.distanceWeighted;
+      case "ring_interleaved":
+        return this.interleaveRings();
+      default:
+        return this.shuffle;
+    }
+  }
+
+  /**
+   * Outer edge of each ring in km: the rings the deck is paged in by, or equal rings when
+   * the whole radius is fetched in one
+   */
+  static getRingEdges(radiusKm: number): number[] {
+    const pagedEdges = DeckPagerService.getRingRadii(radiusKm * 1000).map((radius) => radius / 1000);
+    if (pagedEdges.length > 1) {
+      return pagedEdges;
+    }
+    return Array.from(
+      { length: SINGLE_RING_SPLIT_COUNT },
+      (_, index) => (radiusKm * (index + 1)) / SINGLE_RING_SPLIT_COUNT
+    );
+  }
+
+  private static getDistanceWeight(restaurant: Restaurant, { origin, radiusKm }: DeckSortContext): number {
+    if (!origin || radiusKm <= 0) return 1;
+    const distance = LocationService.calculateDistance(origin, restaurant);
+    return 1 / (1 + distance / (radiusKm * DISTANCE_HALF_WEIGHT_SHARE));
+  }
+}
@@ -0,0 +1,124 @@
+import { Restaurant } from "../types/restaurant";
+import { sleep } from "./httpClient";
+import { LocationCoordinates } from "./locationService";
+import { PlaceProviderError } from "./placeProviderError";
+import { DeckOptions, DeckResult, RestaurantService, RingResult } from "./restaurantService";
+
+// The first page searches this close by, then every page searches twice as far out
+const FIRST_RING_RADIUS_METERS = 2000;
+const RING_GROWTH = 2;
+// A ring this close to the full radius is searched at the full radius instead
+const LAST_RING_SHARE = 0.75;
+
+// A ring that fails with a retryable error is fetched again on the next pull, after 1 s and then 2 s
+const MAX_RING_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface DeckPagerOptions {
+  location: LocationCoordinates;
+  maxRadiusInMeters: number;
+  deckOptions?: DeckOptions;
+  excludedIds?: string[]; // Left out, e.g. already swiped; only shown when nothing else is in range
+  forceRefresh?: boolean; // Skip the caches, as when looking for new restaurants
+  signal?: AbortSignal;
+  onPartialPage?: (restaurants: Restaurant[]) => void; // The page being fetched so far, for wide rings
+}
+
+// A page of restaurants not in any earlier page, or the error that stopped it
+export type DeckPage = DeckResult & { radiusInMeters: number };
+
+export class DeckPagerService {
+  /**
+   * Deck pages for a location, fetched only when asked for. Each page searches the ring just outside the
+   * last one and holds the restaurants that weren't in earlier pages, so the deck grows outwards from the
+   * location. Once every ring is in, the whole area is cached, and a cached deck for it is used as a single
+   * page instead. Pages that would be empty are skipped. A failed page is yielded as an error; a retryable
+   * one is fetched again on the next pull, up to MAX_RING_ATTEMPTS times, and any other ends the pages.
+   */
+  static async *pages(options: DeckPagerOptions): AsyncGenerator<DeckPage, void, undefined> {
+    const { location, maxRadiusInMeters, deckOptions = {}, forceRefresh = false, signal, onPartialPage } = options;
+    const excludedIds = new Set(options.excludedIds);
+    const shownIds = new Set<string>();
+    const isNew = (restaurant: Restaurant) => !shownIds.has(restaurant.id) && !excludedIds.has(restaurant.id);
+    let lastResult: DeckResult | null = null;
+    const inRange = new Map<string, Restaurant>(); // Every ring's deck, excluded restaurants included
+    const found: Restaurant[] = []; // Every ring's restaurants before the deck filters, for the cache
+    let isComplete = true;
+
+    const cached = forceRefresh
+      ? null
+      : await RestaurantService.fetchCachedRestaurants(location, maxRadiusInMeters, deckOptions);
+    const ringRadii = cached ? [] : this.getRingRadii(maxRadiusInMeters);
+
+    if (cached?.ok) {
+      lastResult = cached;
+      cached.restaurants.forEach((restaurant) => inRange.set(restaurant.id, restaurant));
+      const page = cached.restaurants.filter(isNew);
+      if (page.length > 0) {
+        page.forEach((restaurant) => shownIds.add(restaurant.id));
+        yield { ...cached, restaurants: page, radiusInMeters: maxRadiusInMeters };
+      }
+    }
+
+    for (const [index, radiusInMeters] of ringRadii.entries()) {
+      const innerRadiusInMeters = index > 0 ? ringRadii[index - 1] : 0;
+      let ring: RingResult;
+      for (let attempt = 1; ; attempt++) {
+        ring = await RestaurantService.fetchRing(location, innerRadiusInMeters, radiusInMeters, deckOptions, {
+          signal,
+          onPartialResults: onPartialPage && ((restaurants) => onPartialPage(restaurants.filter(isNew))),
+        });
+        if (ring.deck.ok) break;
+
+        const { error } = ring.deck;
+        yield { ...ring.deck, radiusInMeters };
+        // Fetching again won't get past a cancelled search or a rejected key
+        if (!error.isRetryable || attempt >= MAX_RING_ATTEMPTS) return;
+        try {
+          await sleep(error.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+        } catch (sleepError) {
+          yield { ok: false, error: PlaceProviderError.from(sleepError), radiusInMeters };
+          return;
+        }
+      }
+
+      const result = ring.deck;
+      lastResult = result;
+      result.restaurants.forEach((restaurant) => inRange.set(restaurant.id, restaurant));
+      found.push(...ring.found);
+      isComplete = isComplete && !result.error;
+
+      // Cache the whole area before its last page goes out, so the next visit gets it in one go
+      if (radiusInMeters === maxRadiusInMeters && isComplete && found.length > 0) {
+        await RestaurantService.cacheAreaRestaurants(location, maxRadiusInMeters, found);
+      }
+
+      const page = result.restaurants.filter(isNew);
+      if (page.length > 0) {
+        console.log(`Deck page for ${radiusInMeters}m: ${page.length} new restaurants`);
+        page.forEach((restaurant) => shownIds.add(restaurant.id));
+        yield { ...result, restaurants: page, radiusInMeters };
+      }
+    }
+
+    // Everything in range was excluded; seeing those again beats an empty deck
+    if (shownIds.size === 0 && lastResult?.ok && inRange.size > 0) {
+      yield { ...lastResult, restaurants: [...inRange.values()], radiusInMeters: maxRadiusInMeters };
+    }
+  }
+
+  /**
+   * Radii of the rings paged through, doubling out to the full radius
+   */
+  static getRingRadii(maxRadiusInMeters: number): number[] {
+    const radii: number[] = [];
+    for (
+      let radius = FIRST_RING_RADIUS_METERS;
+      radius < maxRadiusInMeters * LAST_RING_SHARE;
+      radius *= RING_GROWTH
+    ) {
+      radii.push(radius);
+    }
+    return [...radii, maxRadiusInMeters];
+  }
+}
@@ -0,0 +1,275 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Restaurant } from "../types/restaurant";
+import { LocationCoordinates, LocationService } from "./locationService";
+import { supabase } from "./supabaseClient";
+
+const FAVORITES_KEY = "favorite_restaurants";
+
+export interface FavoriteRestaurant {
+  restaurant: Restaurant; // Snapshot taken when the user swiped right
+  favoritedAt: number;
+  location: LocationCoordinates | null; // Where the user was when they swiped
+}
+
+export type FavoriteSortOrder = "recent" | "name" | "distance";
+
+// Where the user was stays on the device; only the restaurant is backed up
+interface SharedFavoriteRecord {
+  owner_id: string;
+  restaurant_id: string;
+  restaurant: Restaurant;
+  favorited_at: string;
+}
+
+// Matches are saved without awaiting, so updates are chained to avoid lost writes
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+export class FavoritesService {
+  /**
+   * Record a right swipe. Swiping the same restaurant again refreshes its snapshot and timestamp.
+   */
+  static async addFavorite(
+    restaurant: Restaurant,
+    location: LocationCoordinates | null
+  ): Promise<FavoriteRestaurant> {
+    const favorite: FavoriteRestaurant = {
+      restaurant,
+      favoritedAt: Date.now(),
+      location,
+    };
+
+    try {
+      await this.update((favorites) => [
+        favorite,
+        ...favorites.filter((item) => item.restaurant.id !== restaurant.id),
+      ]);
+      console.log(`Added ${restaurant.name} to favorites`);
+    } catch (error) {
+      console.error("Error saving favorite:", error);
+      throw error;
+    }
+
+    if (supabase) {
+      await this.saveToSharedDatabase(favorite);
+    }
+    return favorite;
+  }
+
+  /**
+   * Un-favorite a restaurant locally and in Supabase
+   */
+  static async removeFavorite(restaurantId: string): Promise<void> {
+    try {
+      await this.update((favorites) => favorites.filter((item) => item.restaurant.id !== restaurantId));
+      console.log(`Restaurant ${restaurantId} removed from favorites`);
+    } catch (error) {
+      console.error("Error removing favorite:", error);
+      throw error;
+    }
+
+    if (supabase) {
+      try {
+        const ownerId = await this.getOwnerId();
+        const { error } = await supabase
+          .from("favorite_restaurants")
+          .delete()
+          .eq("owner_id", ownerId)
+          .eq("restaurant_id", restaurantId);
+
+        if (error) {
+          console.error("Error removing shared favorite:", error);
+        }
+      } catch (error) {
+        console.error("Error removing shared favorite:", error);
+      }
+    }
+  }
+
+  /**
+   * All favorites stored on this device, most recent first
+   */
+  static async getFavorites(): Promise<FavoriteRestaurant[]> {
+    try {
+      const favoritesStr = await AsyncStorage.getItem(FAVORITES_KEY);
+      if (!favoritesStr) {
+        return [];
+      }
+      return JSON.parse(favoritesStr);
+    } catch (error) {
+      console.error("Error reading favorites:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Check if a restaurant has been favorited
+   */
+  static async isFavorite(restaurantId: string): Promise<boolean> {
+    const favorites = await this.getFavorites();
+    return favorites.some((item) => item.restaurant.id === restaurantId);
+  }
+
+  /**
+   * Pull favorites saved from this device into local storage, e.g. after local data was
+   * cleared but the Supabase session kept. Local entries win when both sides have a restaurant.
+   */
+  static async syncFavorites(): Promise<FavoriteRestaurant[]> {
+    const localFavorites = await this.getFavorites();
+    if (!supabase) {
+      return localFavorites;
+    }
+
+    try {
+      const ownerId = await this.getOwnerId();
+      const { data, error } = await supabase
+        .from("favorite_restaurants")
+        .select("owner_id, restaurant_id, restaurant, favorited_at")
+        .eq("owner_id", ownerId);
+
+      if (error) {
+        console.error("Error fetching shared favorites:", error);
+        return localFavorites;
+      }
+
+      const remote: FavoriteRestaurant[] = (data || []).map((record: SharedFavoriteRecord) => ({
+        restaurant: record.restaurant,
+        favoritedAt: new Date(record.favorited_at).getTime(),
+        location: null,
+      }));
+      const localIds = new Set(localFavorites.map((item) => item.restaurant.id));
+      if (remote.every((item) => localIds.has(item.restaurant.id))) {
+        return localFavorites;
+      }
+
+      // Merge into the favorites as they are now, which may have changed during the fetch
+      let merged = localFavorites;
+      await this.update((favorites) => {
+        const ids = new Set(favorites.map((item) => item.restaurant.id));
+        const remoteOnly = remote.filter((item) => !ids.has(item.restaurant.id));
+        merged = this.sortFavorites([...favorites, ...remoteOnly], "recent");
+        console.log(`Restored ${remoteOnly.length} favorites from shared database`);
+        return merged;
+      });
+      return merged;
+    } catch (error) {
+      console.error("Error syncing favorites:", error);
+      return localFavorites;
+    }
+  }
+
+  /**
+   * Sort favorites for display. Distance is measured from `origin`, falling back
+   * to where the user was when they favorited the restaurant.
+   */
+  static sortFavorites(
+    favorites: FavoriteRestaurant[],
+    order: FavoriteSortOrder,
+    origin: LocationCoordinates | null = null
+  ): FavoriteRestaurant[] {
+    const sorted = [...favorites];
+
+    switch (order) {
+      case "name":
+        return sorted.sort((a, b) => a.restaurant.name.localeCompare(b.restaurant.name));
+      case "distance":
+        return sorted
+          .map((favorite) => ({ favorite, distance: this.getDistance(favorite, origin) }))
+          .sort((a, b) => a.distance - b.distance)
+          .map(({ favorite }) => favorite);
+      case "recent":
+      default:
+        return sorted.sort((a, b) => b.favoritedAt - a.favoritedAt);
+    }
+  }
+
+  /**
+   * Case-insensitive match on name, cuisines and address
+   */
+  static searchFavorites(favorites: FavoriteRestaurant[], query: string): FavoriteRestaurant[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return favorites;
+    }
+
+    return favorites.filter(({ restaurant }) =>
+      [restaurant.name, restaurant.address, ...(restaurant.cuisines || [restaurant.cuisine])]
+        .filter((value): value is string => !!value)
+        .some((value) => value.toLowerCase().includes(needle))
+    );
+  }
+
+  /**
+   * Clear all favorites stored on this device
+   */
+  static async clearFavorites(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(FAVORITES_KEY);
+      console.log("Favorites cleared");
+    } catch (error) {
+      console.error("Error clearing favorites:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Distance in km to a favorite, or Infinity when there is nothing to measure from
+   */
+  private static getDistance(favorite: FavoriteRestaurant, origin: LocationCoordinates | null): number {
+    const from = origin || favorite.location;
+    return from ? LocationService.calculateDistance(from, favorite.restaurant) : Infinity;
+  }
+
+  /**
+   * Mirror a favorite to Supabase. Failures are logged; local storage stays authoritative.
+   */
+  private static async saveToSharedDatabase(favorite: FavoriteRestaurant): Promise<void> {
+    try {
+      const ownerId = await this.getOwnerId();
+      const record: SharedFavoriteRecord = {
+        owner_id: ownerId,
+        restaurant_id: favorite.restaurant.id,
+        restaurant: favorite.restaurant,
+        favorited_at: new Date(favorite.favoritedAt).toISOString(),
+      };
+
+      const { error } = await supabase!
+        .from("favorite_restaurants")
+        .upsert(record, { onConflict: "owner_id,restaurant_id" });
+
+      if (error) {
+        console.error("Error saving shared favorite:", error);
+      }
+    } catch (error) {
+      console.error("Error saving shared favorite:", error);
+    }
+  }
+
+  /**
+   * Apply a change to the stored favorites once earlier changes have been written
+   */
+  private static update(change: (favorites: FavoriteRestaurant[]) => FavoriteRestaurant[]): Promise<void> {
+    const run = pendingUpdate.then(async () => {
+      const favorites = await this.getFavorites();
+      await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(change(favorites)));
+    });
+    pendingUpdate = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Supabase user that owns this device's favorites, signed in anonymously on first use.
+   * Row level security only lets that user read and write its rows.
+   */
+  private static async getOwnerId(): Promise<string> {
+    const { data } = await supabase!.auth.getSession();
+    if (data.session) {
+      return data.session.user.id;
+    }
+
+    const { data: signIn, error } = await supabase!.auth.signInAnonymously();
+    if (error || !signIn.user) {
+      throw error ?? new Error("Anonymous sign-in returned no user");
+    }
+    return signIn.user.id;
+  }
+}
@@ -0,0 +1,134 @@
+import fixtureBundle from "../data/fixtures/restaurants.json";
+import { Restaurant } from "../types/restaurant";
+import { GeoapifyFeature, GeoapifyPlaceProvider, GeoapifyResponse } from "./geoapifyPlaceProvider";
+import { LocationCoordinates, LocationService } from "./locationService";
+import { PlaceProvider } from "./placeProvider";
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Keep relocated places a little inside the search circle
+const RADIUS_FILL = 0.9;
+
+/**
+ * Offline provider backed by a bundled Geoapify-format fixture.
+ * Places keep their layout relative to each other but are moved around the
+ * search center, so the deck looks like production wherever the user is.
+ */
+export class FixturePlaceProvider implements PlaceProvider<GeoapifyFeature> {
+  id = "fixture" as const;
+  name = "Offline demo data";
+  maxResultsPerSearch = 500;
+  sharesCache = false;
+
+  private features: GeoapifyFeature[];
+  private anchor: LocationCoordinates;
+  private geoapify = new GeoapifyPlaceProvider();
+  private lastCenter: LocationCoordinates | null = null;
+  private lastRadius = 0;
+
+  constructor(bundle: GeoapifyResponse = fixtureBundle as GeoapifyResponse) {
+    this.features = bundle.features;
+    this.anchor = this.getCentroid(bundle.features);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Relocate the fixture around the center and return the places inside the circle, nearest first
+   */
+  async searchInCircle(
+    center: LocationCoordinates,
+    radiusInMeters: number,
+    limit: number
+  ): Promise<Restaurant[]> {
+    console.log(`Using offline fixture data around (${center.latitude.toFixed(4)}, ${center.longitude.toFixed(4)})`);
+    this.lastCenter = center;
+    this.lastRadius = radiusInMeters;
+
+    return this.relocate(center, radiusInMeters)
+      .map((feature) => this.normalize(feature))
+      .map((restaurant) => ({
+        restaurant,
+        distance: LocationService.calculateDistance(center, restaurant),
+      }))
+      .filter(({ distance }) => distance * 1000 <= radiusInMeters)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(({ restaurant }) => restaurant);
+  }
+
+  /**
+   * Look up a fixture place, placed where the last search put it
+   */
+  async getPlaceDetails(placeId: string): Promise<Restaurant | null> {
+    const features = this.lastCenter
+      ? this.relocate(this.lastCenter, this.lastRadius)
+      : this.features;
+    const feature = features.find((item) => item.properties.place_id === placeId);
+    return feature ? this.normalize(feature) : null;
+  }
+
+  /**
+   * Normalize like Geoapify, marking ratings and prices as demo values
+   */
+  normalize(feature: GeoapifyFeature): Restaurant {
+    const restaurant = this.geoapify.normalize(feature);
+    return {
+      ...restaurant,
+      ratingSource: restaurant.rating !== undefined ? "demo" : undefined,
+      priceRangeSource: restaurant.priceRange !== undefined ? "demo" : undefined,
+    };
+  }
+
+  /**
+   * Move every feature so the fixture centroid sits on the center,
+   * shrinking the layout when it would not fit inside the radius
+   */
+  private relocate(center: LocationCoordinates, radiusInMeters: number): GeoapifyFeature[] {
+    const offsets = this.features.map((feature) => {
+      const [longitude, latitude] = feature.geometry.coordinates;
+      return this.toOffsetMeters(this.anchor, { latitude, longitude });
+    });
+    const maxDistance = Math.max(...offsets.map(({ north, east }) => Math.hypot(north, east)), 1);
+    const scale = Math.min(1, (radiusInMeters * RADIUS_FILL) / maxDistance);
+
+    return this.features.map((feature, index) => {
+      const { north, east } = offsets[index];
+      const position = this.fromOffsetMeters(center, north * scale, east * scale);
+      return {
+        ...feature,
+        geometry: { ...feature.geometry, coordinates: [position.longitude, position.latitude] },
+      };
+    });
+  }
+
+  private getCentroid(features: GeoapifyFeature[]): LocationCoordinates {
+    const count = Math.max(features.length, 1);
+    const sum = features.reduce(
+      (acc, feature) => ({
+        latitude: acc.latitude + feature.geometry.coordinates[1],
+        longitude: acc.longitude + feature.geometry.coordinates[0],
+      }),
+      { latitude: 0, longitude: 0 }
+    );
+    return { latitude: sum.latitude / count, longitude: sum.longitude / count };
+  }
+
+  private toOffsetMeters(origin: LocationCoordinates, point: LocationCoordinates): { north: number; east: number } {
+    const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((origin.latitude * Math.PI) / 180);
+    return {
+      north: (point.latitude - origin.latitude) * METERS_PER_DEGREE_LAT,
+      east: (point.longitude - origin.longitude) * metersPerDegreeLng,
+    };
+  }
+
+  private fromOffsetMeters(origin: LocationCoordinates, north: number, east: number): LocationCoordinates {
+    const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((origin.latitude * Math.PI) / 180);
+    return {
+      latitude: origin.latitude + north / METERS_PER_DEGREE_LAT,
+      longitude: origin.longitude + east / metersPerDegreeLng,
+    };
+  }
+}
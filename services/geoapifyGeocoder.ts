@@ -0,0 +1,48 @@
+import { Geocoder, GeocodingResult } from "./geocoder";
+import { geoapifyHttpClient, HttpClient } from "./httpClient";
+
+// Geoapify API key from environment variables
+const GEOAPIFY_API_KEY = process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY;
+
+interface GeoapifyGeocodeResult {
+  name?: string;
+  formatted?: string;
+  address_line1?: string;
+  address_line2?: string;
+  lat: number;
+  lon: number;
+}
+
+export class GeoapifyGeocoder implements Geocoder {
+  id = "geoapify";
+  name = "Geoapify";
+  private http: HttpClient;
+
+  constructor(http: HttpClient = geoapifyHttpClient) {
+    this.http = http;
+  }
+
+  isConfigured(): boolean {
+    return !!GEOAPIFY_API_KEY;
+  }
+
+  /**
+   * Search addresses and places with the Geoapify Geocoding API
+   */
+  async search(query: string, limit: number): Promise<GeocodingResult[]> {
+    const url = `https://api.geoapify.com/v1/geocode/search?text=${encodeURIComponent(query)}&limit=${limit}&format=json&apiKey=${GEOAPIFY_API_KEY}`;
+
+    const response = await this.http.request(url, { endpoint: "geoapify/geocode" });
+    if (!response.ok) {
+      throw new Error(`Geoapify geocoding error: ${response.status}`);
+    }
+
+    const data: { results?: GeoapifyGeocodeResult[] } = await response.json();
+    return (data.results || []).map((result) => ({
+      name: result.name || result.address_line1 || result.formatted || query,
+      address: result.formatted || [result.address_line1, result.address_line2].filter(Boolean).join(", "),
+      latitude: result.lat,
+      longitude: result.lon,
+    }));
+  }
+}
@@ -0,0 +1,249 @@
+import { Restaurant } from "../types/restaurant";
+import { CuisineClassifier } from "./cuisineClassifier";
+import { geoapifyHttpClient, HttpClient } from "./httpClient";
+import { LocationCoordinates } from "./locationService";
+import { OpeningHoursService } from "./openingHoursService";
+import { PlaceProvider, SearchOptions } from "./placeProvider";
+import { PlaceProviderError } from "./placeProviderError";
+import { RestaurantAttributeService } from "./restaurantAttributeService";
+import { RestaurantImageService } from "./restaurantImageService";
+
+// Geoapify API key from environment variables
+const GEOAPIFY_API_KEY = process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY;
+
+export interface GeoapifyResponse {
+  type: string;
+  features: GeoapifyFeature[];
+}
+
+export interface GeoapifyFeature {
+  type: string;
+  properties: {
+    feature_type?: string;
+    name?: string;
+    categories: string[];
+    catering?: {
+      cuisine?: string;
+    };
+    datasource: {
+      sourcename: string;
+      attribution?: string;
+      license?: string;
+      url?: string;
+      raw: {
+        name?: string;
+        osm_id?: number;
+        amenity?: string;
+        cuisine?: string;
+        osm_type?: string;
+        phone?: string;
+        website?: string;
+        opening_hours?: string;
+        [key: string]: any; // Allow additional properties
+      };
+    };
+    housenumber?: string;
+    street?: string;
+    city?: string;
+    county?: string;
+    state?: string;
+    postcode?: string;
+    country?: string;
+    country_code?: string;
+    formatted?: string;
+    address_line1?: string;
+    address_line2?: string;
+    lat?: number;
+    lon?: number;
+    distance?: number;
+    place_id: string;
+    timezone?: {
+      name: string;
+      offset_STD: string;
+      offset_STD_seconds: number;
+      offset_DST: string;
+      offset_DST_seconds: number;
+      abbreviation_STD: string;
+      abbreviation_DST: string;
+    };
+  };
+  geometry: {
+    type: string;
+    coordinates: [number, number]; // [longitude, latitude]
+  };
+}
+
+export class GeoapifyPlaceProvider implements PlaceProvider<GeoapifyFeature> {
+  id = "geoapify" as const;
+  name = "Geoapify";
+  maxResultsPerSearch = 500;
+  sharesCache = true;
+  private http: HttpClient;
+
+  constructor(http: HttpClient = geoapifyHttpClient) {
+    this.http = http;
+  }
+
+  isConfigured(): boolean {
+    return !!GEOAPIFY_API_KEY;
+  }
+
+  /**
+   * Fetch restaurants from Geoapify Places API. Throws a PlaceProviderError when the request fails.
+   */
+  async searchInCircle(
+    location: LocationCoordinates,
+    radiusInMeters: number,
+    maxResults: number,
+    options: SearchOptions = {}
+  ): Promise<Restaurant[]> {
+    if (!GEOAPIFY_API_KEY) {
+      throw new PlaceProviderError("missing_api_key", "Geoapify API key not configured");
+    }
+
+    try {
+      // Geoapify Places API endpoint
+      const categories =
+        "catering.restaurant,catering.fast_food,catering.cafe,catering.bar";
+      const url = `https://api.geoapify.com/v2/places?categories=${categories}&filter=circle:${location.longitude},${location.latitude},${radiusInMeters}&bias=proximity:${location.longitude},${location.latitude}&limit=${Math.min(maxResults, this.maxResultsPerSearch)}&apiKey=${GEOAPIFY_API_KEY}`;
+
+      const response = await this.http.request(url, { endpoint: "geoapify/places", signal: options.signal });
+
+      if (!response.ok) {
+        throw PlaceProviderError.fromResponse(this.name, response);
+      }
+
+      const data: GeoapifyResponse = await response.json();
+      if (!Array.isArray(data?.features)) {
+        throw new PlaceProviderError("invalid_response", "Geoapify response has no features");
+      }
+
+      // Log raw API response for debugging
+      console.log("=== GEOAPIFY API RESPONSE ===");
+      console.log("Total features returned:", data.features.length);
+
+      // Convert Geoapify features to restaurants (basic info only)
+      const restaurants = data.features
+        .filter((feature) => feature.properties.name && typeof feature.properties.name === 'string') // Only include places with valid names
+        .map((feature, index) => {
+          console.log(`\n--- Restaurant ${index + 1} RAW DATA ---`);
+          console.log("Full feature object:", JSON.stringify(feature, null, 2));
+
+          const restaurant = this.normalize(feature);
+
+          console.log(`\n--- Restaurant ${index + 1} CONVERTED DATA ---`);
+          console.log("Converted restaurant object:", JSON.stringify(restaurant, null, 2));
+
+          return restaurant;
+        });
+
+      return restaurants;
+    } catch (error) {
+      console.error("Error fetching from Geoapify:", error);
+      throw PlaceProviderError.from(error);
+    }
+  }
+
+  /**
+   * Fetch detailed restaurant information using the Geoapify Place Details API
+   */
+  async getPlaceDetails(placeId: string): Promise<Restaurant | null> {
+    try {
+      if (!GEOAPIFY_API_KEY) {
+        console.warn("Geoapify API key not configured, cannot fetch details");
+        return null;
+      }
+
+      const detailsUrl = `https://api.geoapify.com/v2/place-details?id=${placeId}&apiKey=${GEOAPIFY_API_KEY}`;
+
+      console.log(`\n=== FETCHING RESTAURANT DETAILS ===`);
+      console.log(`Place ID: ${placeId}`);
+
+      const response = await this.http.request(detailsUrl, { endpoint: "geoapify/place-details" });
+
+      if (!response.ok) {
+        console.warn(`Place Details API error: ${response.status}`);
+        return null;
+      }
+
+      const detailsData = await response.json();
+      console.log("Place Details API response:", JSON.stringify(detailsData, null, 2));
+
+      if (detailsData.features && detailsData.features.length > 0) {
+        const detailedRestaurant = this.normalize(detailsData.features[0]);
+
+        console.log("Detailed restaurant data:", JSON.stringify(detailedRestaurant, null, 2));
+        return detailedRestaurant;
+      }
+
+      return null;
+    } catch (error) {
+      console.error("Error fetching restaurant details:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Convert a Geoapify feature (search result or place details) to our Restaurant interface
+   */
+  normalize(feature: GeoapifyFeature): Restaurant {
+    const [longitude, latitude] = feature.geometry.coordinates;
+
+    const props = feature.properties;
+    const raw = props.datasource?.raw || {};
+
+    // Extract address from the new API format
+    let address: string | undefined;
+    if (props.formatted) {
+      address = props.formatted;
+    } else if (props.address_line1 && props.address_line2) {
+      address = `${props.address_line1}, ${props.address_line2}`;
+    } else {
+      // Build address from individual components
+      const addressComponents = [
+        props.housenumber,
+        props.street,
+        props.city,
+        props.state,
+        props.postcode,
+        props.country
+      ].filter(Boolean);
+      address = addressComponents.length > 0 ? addressComponents.join(", ") : undefined;
+    }
+
+    const name = typeof props.name === "string" ? props.name : undefined;
+    const { cuisines, confidence } = CuisineClassifier.classify({
+      cuisineTag: props.catering?.cuisine || raw.cuisine,
+      name,
+      categories: props.categories,
+    });
+    console.log(`Classified ${name} as ${cuisines.join(", ")} (${confidence})`);
+
+    const timezone = props.timezone
+      ? {
+          name: props.timezone.name,
+          offsetStdSeconds: props.timezone.offset_STD_seconds,
+          offsetDstSeconds: props.timezone.offset_DST_seconds,
+        }
+      : undefined;
+
+    return {
+      id: props.place_id,
+      name: name || "Restaurant",
+      cuisine: cuisines[0],
+      cuisines,
+      cuisineConfidence: confidence,
+      image: RestaurantImageService.getCuisineSpecificImage(cuisines[0], name),
+      ...RestaurantAttributeService.extractRating(raw),
+      latitude: latitude,
+      longitude: longitude,
+      description:
+        raw.description || RestaurantAttributeService.generateDescription(name, cuisines[0], confidence),
+      address: address,
+      phoneNumber: raw.phone || undefined,
+      ...RestaurantAttributeService.extractPriceRange(raw),
+      ...OpeningHoursService.buildRestaurantHours(raw.opening_hours || undefined, timezone),
+      dataSource: 'api' as const,
+    };
+  }
+}
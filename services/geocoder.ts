@@ -0,0 +1,17 @@
+import { LocationCoordinates } from "./locationService";
+
+export interface GeocodingResult extends LocationCoordinates {
+  name: string; // Short label, e.g. the street or city
+  address: string; // Full formatted address
+}
+
+/**
+ * Turns an address or place name into coordinates
+ */
+export interface Geocoder {
+  id: string;
+  name: string;
+
+  isConfigured(): boolean;
+  search(query: string, limit: number): Promise<GeocodingResult[]>;
+}
@@ -0,0 +1,324 @@
+import { Restaurant } from "../types/restaurant";
+import { LocalGroupSessionBackend } from "./localGroupSessionBackend";
+import { LocationCoordinates } from "./locationService";
+import { DeckOptions, RestaurantService } from "./restaurantService";
+import { SupabaseGroupSessionBackend } from "./supabaseGroupSessionBackend";
+import { supabase } from "./supabaseClient";
+
+// Room codes avoid characters that are easy to misread (0/O, 1/I/L)
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Keeps the shared deck small enough to store as one row
+export const GROUP_DECK_SIZE = 100;
+
+export interface GroupSession {
+  code: string;
+  hostId: string;
+  restaurants: Restaurant[]; // Deck order shared by every member
+  quorum: number | null; // Right swipes needed for a match; null means every member
+  createdAt: number;
+}
+
+export interface GroupParticipant {
+  id: string;
+  name: string;
+  joinedAt: number;
+}
+
+export interface GroupVote {
+  participantId: string;
+  restaurantId: string;
+  liked: boolean;
+  votedAt: number;
+}
+
+export interface GroupMatch {
+  restaurant: Restaurant;
+  likes: number;
+  required: number;
+}
+
+export interface GroupSessionState {
+  session: GroupSession;
+  participants: GroupParticipant[];
+  votes: GroupVote[];
+  matches: GroupMatch[];
+}
+
+/**
+ * Storage and change feed for group sessions. Supabase in the app,
+ * LocalGroupSessionBackend in tests and when developing without a project.
+ */
+export interface GroupSessionBackend {
+  createSession(session: GroupSession): Promise<void>;
+  getSession(code: string): Promise<GroupSession | null>;
+  addParticipant(code: string, participant: GroupParticipant): Promise<void>;
+  getParticipants(code: string): Promise<GroupParticipant[]>;
+  saveVote(code: string, vote: GroupVote): Promise<void>; // One vote per participant and restaurant
+  getVotes(code: string): Promise<GroupVote[]>;
+  subscribe(code: string, onChange: () => void): () => void; // Returns an unsubscribe function
+}
+
+export interface CreateGroupSessionOptions {
+  quorum?: number | null;
+  deckOptions?: DeckOptions;
+}
+
+let backendOverride: GroupSessionBackend | null = null;
+let supabaseBackend: SupabaseGroupSessionBackend | null = null;
+
+export class GroupSessionService {
+  /**
+   * New participant identity for this device
+   */
+  static createParticipant(name: string): GroupParticipant {
+    return {
+      id: `member-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || "Guest",
+      joinedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Create a room from the host's nearby restaurants. The deck is fetched once so everyone swipes the same order,
+   * and it is shuffled with the room code as seed so it can be rebuilt from the same location and radius.
+   */
+  static async createSession(
+    host: GroupParticipant,
+    location: LocationCoordinates,
+    radiusInMeters: number,
+    options: CreateGroupSessionOptions = {}
+  ): Promise<GroupSession> {
+    const backend = this.getBackend();
+    const code = await this.generateUniqueCode(backend);
+    const result = await RestaurantService.fetchNearbyRestaurants(
+      location,
+      radiusInMeters,
+      500,
+      false,
+      { ...options.deckOptions, seed: code }
+    );
+    if (!result.ok) {
+      throw result.error;
+    }
+
+    const restaurants = result.restaurants;
+    if (restaurants.length === 0) {
+      throw new Error("No restaurants found nearby to start a group session.");
+    }
+
+    const session: GroupSession = {
+      code,
+      hostId: host.id,
+      restaurants: restaurants.slice(0, GROUP_DECK_SIZE),
+      quorum: this.sanitizeQuorum(options.quorum),
+      createdAt: Date.now(),
+    };
+
+    await backend.createSession(session);
+    await backend.addParticipant(session.code, host);
+    console.log(`Created group session ${session.code} with ${session.restaurants.length} restaurants`);
+    return session;
+  }
+
+  /**
+   * Join an existing room by code
+   */
+  static async joinSession(code: string, participant: GroupParticipant): Promise<GroupSession> {
+    const backend = this.getBackend();
+    const normalizedCode = this.normalizeCode(code);
+    const session = await backend.getSession(normalizedCode);
+
+    if (!session) {
+      throw new Error(`No group session found for code ${normalizedCode}.`);
+    }
+
+    const participants = await backend.getParticipants(normalizedCode);
+    if (!participants.some((member) => member.id === participant.id)) {
+      await backend.addParticipant(normalizedCode, participant);
+    }
+    console.log(`${participant.name} joined group session ${normalizedCode}`);
+    return session;
+  }
+
+  /**
+   * Record a left (liked = false) or right swipe. Swiping again replaces the earlier vote.
+   */
+  static async recordSwipe(
+    code: string,
+    participantId: string,
+    restaurantId: string,
+    liked: boolean
+  ): Promise<void> {
+    await this.getBackend().saveVote(this.normalizeCode(code), {
+      participantId,
+      restaurantId,
+      liked,
+      votedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Current members, votes and matches for a room
+   */
+  static async getState(code: string): Promise<GroupSessionState> {
+    const backend = this.getBackend();
+    const normalizedCode = this.normalizeCode(code);
+    const [session, participants, votes] = await Promise.all([
+      backend.getSession(normalizedCode),
+      backend.getParticipants(normalizedCode),
+      backend.getVotes(normalizedCode),
+    ]);
+
+    if (!session) {
+      throw new Error(`No group session found for code ${normalizedCode}.`);
+    }
+
+    return {
+      session,
+      participants,
+      votes,
+      matches: this.getMatches(session, participants, votes),
+    };
+  }
+
+  /**
+   * Watch a room. onState gets every update; onMatch fires once per restaurant when it reaches the quorum.
+   */
+  static watchSession(
+    code: string,
+    handlers: {
+      onState?: (state: GroupSessionState) => void;
+      onMatch?: (match: GroupMatch) => void;
+      onError?: (error: unknown) => void;
+    }
+  ): () => void {
+    const notifiedIds = new Set<string>();
+    let active = true;
+
+    const refresh = async () => {
+      try {
+        const state = await this.getState(code);
+        if (!active) return;
+
+        handlers.onState?.(state);
+        for (const match of state.matches) {
+          if (!notifiedIds.has(match.restaurant.id)) {
+            notifiedIds.add(match.restaurant.id);
+            handlers.onMatch?.(match);
+          }
+        }
+      } catch (error) {
+        console.error("Error refreshing group session:", error);
+        handlers.onError?.(error);
+      }
+    };
+
+    const unsubscribe = this.getBackend().subscribe(this.normalizeCode(code), refresh);
+    refresh();
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Restaurants liked by enough members, in deck order. A room needs two members before anything matches.
+   */
+  static getMatches(
+    session: GroupSession,
+    participants: GroupParticipant[],
+    votes: GroupVote[]
+  ): GroupMatch[] {
+    if (participants.length < 2) {
+      return [];
+    }
+    const required = this.getRequiredLikes(session, participants.length);
+
+    const memberIds = new Set(participants.map((member) => member.id));
+    const likesByRestaurant = new Map<string, number>();
+    for (const vote of votes) {
+      if (vote.liked && memberIds.has(vote.participantId)) {
+        likesByRestaurant.set(vote.restaurantId, (likesByRestaurant.get(vote.restaurantId) || 0) + 1);
+      }
+    }
+
+    return session.restaurants
+      .map((restaurant) => ({ restaurant, likes: likesByRestaurant.get(restaurant.id) || 0, required }))
+      .filter((match) => match.likes >= required);
+  }
+
+  /**
+   * Right swipes a restaurant needs. A quorum larger than the room means everyone.
+   */
+  static getRequiredLikes(session: GroupSession, participantCount: number): number {
+    if (session.quorum === null) {
+      return participantCount;
+    }
+    return Math.min(session.quorum, participantCount);
+  }
+
+  /**
+   * Uppercase a typed room code and drop spaces or dashes
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
+  }
+
+  /**
+   * Whether group sessions can run: Supabase is configured or a stand-in backend is set
+   */
+  static isAvailable(): boolean {
+    return backendOverride !== null || supabase !== null;
+  }
+
+  /**
+   * Replace the backend, e.g. with LocalGroupSessionBackend. Pass null to restore Supabase.
+   */
+  static setBackendOverride(backend: GroupSessionBackend | null): void {
+    backendOverride = backend;
+  }
+
+  /**
+   * Offline stand-in for trying group sessions on one device
+   */
+  static createLocalBackend(): GroupSessionBackend {
+    return new LocalGroupSessionBackend();
+  }
+
+  private static getBackend(): GroupSessionBackend {
+    if (backendOverride) {
+      return backendOverride;
+    }
+    if (!supabase) {
+      throw new Error("Group sessions need Supabase. See SUPABASE_SETUP.md.");
+    }
+    if (!supabaseBackend) {
+      supabaseBackend = new SupabaseGroupSessionBackend(supabase);
+    }
+    return supabaseBackend;
+  }
+
+  private static async generateUniqueCode(backend: GroupSessionBackend): Promise<string> {
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const code = Array.from(
+        { length: CODE_LENGTH },
+        () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+      ).join("");
+      if (!(await backend.getSession(code))) {
+        return code;
+      }
+    }
+    throw new Error("Could not create a unique room code. Please try again.");
+  }
+
+  private static sanitizeQuorum(quorum: number | null | undefined): number | null {
+    if (quorum === null || quorum === undefined || !Number.isFinite(quorum)) {
+      return null;
+    }
+    return Math.max(1, Math.floor(quorum));
+  }
+}
@@ -0,0 +1,259 @@
+import { UsageMeterService } from "./usageMeterService";
+
+// Status codes worth trying again: rate limiting and server-side trouble
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+export interface HttpClientOptions {
+  fetch?: typeof fetch; // Defaults to the global fetch, looked up on every request
+  timeoutMs?: number; // Per attempt
+  maxRetries?: number;
+  baseDelayMs?: number; // First backoff delay, doubled on every retry
+  maxDelayMs?: number; // Longest backoff; a longer Retry-After is returned to the caller instead of waited out
+  requestsPerSecond?: number; // Token bucket refill rate; unlimited when left out
+  burst?: number; // Token bucket size
+  random?: () => number;
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  onRequest?: (endpoint: string) => void; // Called for every attempt at a request that names its endpoint
+}
+
+export interface HttpRequestInit extends RequestInit {
+  timeoutMs?: number;
+  maxRetries?: number;
+  endpoint?: string; // Name for usage metering, e.g. "geoapify/places"
+}
+
+/**
+ * Thrown when a single attempt takes longer than its timeout
+ */
+export class HttpTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Whether an error came from the request being cancelled through its AbortSignal
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
+
+export const createAbortError = (): Error => {
+  const error = new Error("Request was cancelled");
+  error.name = "AbortError";
+  return error;
+};
+
+/**
+ * Wait for ms, or reject as soon as the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Milliseconds a response asks us to wait via Retry-After (seconds or an HTTP date)
+ */
+export const getRetryAfterMs = (response: Response, now: number = Date.now()): number | undefined => {
+  const header = response.headers?.get("Retry-After");
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return seconds > 0 ? seconds * 1000 : undefined;
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(date - now, 0);
+};
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills `refillPerSecond` of them every second
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerSecond: number;
+  private readonly now: () => number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(capacity: number, refillPerSecond: number, now: () => number = Date.now) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.now = now;
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Take a token if one is free. Returns 0 on success, otherwise how many ms until one will be.
+   */
+  tryTake(): number {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+}
+
+/**
+ * fetch with a per-attempt timeout, retries with exponential backoff and full jitter,
+ * a token-bucket rate limit shared by every request through the client, and cancellation
+ * through the request's AbortSignal. Non-OK responses that aren't worth retrying (or that
+ * are still failing after the last retry) are returned as-is for the caller to handle.
+ */
+export class HttpClient {
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly bucket: TokenBucket | null;
+  private readonly random: () => number;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private readonly onRequest?: (endpoint: string) => void;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 8000;
+    this.bucket = options.requestsPerSecond
+      ? new TokenBucket(options.burst ?? 1, options.requestsPerSecond, options.now)
+      : null;
+    this.random = options.random ?? Math.random;
+    this.sleep = options.sleep ?? sleep;
+    this.onRequest = options.onRequest;
+  }
+
+  async request(url: string, init: HttpRequestInit = {}): Promise<Response> {
+    const {
+      timeoutMs = this.timeoutMs,
+      maxRetries = this.maxRetries,
+      endpoint,
+      signal: requestSignal,
+      ...fetchInit
+    } = init;
+    const signal = requestSignal ?? undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForToken(signal);
+      if (endpoint) {
+        this.onRequest?.(endpoint); // Every attempt counts against the provider's quota
+      }
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, fetchInit, timeoutMs, signal);
+      } catch (error) {
+        if (isAbortError(error) || attempt >= maxRetries) {
+          throw error;
+        }
+        const delay = this.getBackoffDelay(attempt);
+        console.warn(`Request failed (${error instanceof Error ? error.message : error}), retrying in ${delay} ms`);
+        await this.sleep(delay, signal);
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      const retryAfterMs = getRetryAfterMs(response);
+      if (retryAfterMs !== undefined && retryAfterMs > this.maxDelayMs) {
+        return response; // Too long to hold the request open; let the caller decide when to come back
+      }
+
+      const delay = retryAfterMs ?? this.getBackoffDelay(attempt);
+      console.warn(`HTTP ${response.status}, retrying in ${delay} ms`);
+      await this.sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Full jitter: a random delay up to the exponential backoff cap, so clients don't retry in lockstep
+   */
+  private getBackoffDelay(attempt: number): number {
+    return Math.round(this.random() * Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt));
+  }
+
+  private async waitForToken(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    if (!this.bucket) return;
+
+    for (let wait = this.bucket.tryTake(); wait > 0; wait = this.bucket.tryTake()) {
+      await this.sleep(wait, signal);
+    }
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (signal?.aborted) {
+      throw createAbortError(); // Cancelled while waiting for a token or a retry
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      return await this.fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new HttpTimeoutError(timeoutMs);
+      }
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+const recordUsage = (endpoint: string) => {
+  UsageMeterService.recordRequest(endpoint).catch(() => undefined);
+};
+
+// Geoapify's free plan allows 5 requests a second across places, details and geocoding
+export const geoapifyHttpClient = new HttpClient({ requestsPerSecond: 5, burst: 5, onRequest: recordUsage });
+
+// The public Overpass instance asks for about one query a second; its queries can take a while
+export const overpassHttpClient = new HttpClient({
+  requestsPerSecond: 1,
+  burst: 2,
+  timeoutMs: 30000,
+  onRequest: recordUsage,
+});
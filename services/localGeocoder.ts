@@ -0,0 +1,72 @@
+import placesBundle from "../data/fixtures/places.json";
+import { Geocoder, GeocodingResult } from "./geocoder";
+
+// "37.77, -122.42" or "37.77 -122.42"
+const COORDINATES_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Offline stand-in for a geocoding API: matches a bundled list of cities
+ * and accepts raw "latitude, longitude" input.
+ */
+export class LocalGeocoder implements Geocoder {
+  id = "local";
+  name = "Offline city list";
+
+  private places: GeocodingResult[];
+
+  constructor(places: GeocodingResult[] = placesBundle.places) {
+    this.places = places;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(query: string, limit: number): Promise<GeocodingResult[]> {
+    const coordinates = this.parseCoordinates(query);
+    if (coordinates) {
+      return [coordinates];
+    }
+
+    const normalizedQuery = this.normalize(query);
+    if (!normalizedQuery) return [];
+
+    // Names starting with the query come before names that only contain it
+    return this.places
+      .map((place) => ({
+        place,
+        nameIndex: this.normalize(place.name).indexOf(normalizedQuery),
+        addressIndex: this.normalize(place.address).indexOf(normalizedQuery),
+      }))
+      .filter(({ nameIndex, addressIndex }) => nameIndex !== -1 || addressIndex !== -1)
+      .sort((a, b) => this.rank(a.nameIndex) - this.rank(b.nameIndex))
+      .slice(0, limit)
+      .map(({ place }) => place);
+  }
+
+  private parseCoordinates(query: string): GeocodingResult | null {
+    const match = query.match(COORDINATES_PATTERN);
+    if (!match) return null;
+
+    const latitude = parseFloat(match[1]);
+    const longitude = parseFloat(match[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+    const label = `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
+    return { name: label, address: label, latitude, longitude };
+  }
+
+  private rank(nameIndex: number): number {
+    if (nameIndex === 0) return 0;
+    return nameIndex > 0 ? 1 : 2;
+  }
+
+  // Case and accent insensitive, so "sao paulo" finds "São Paulo"
+  private normalize(text: string): string {
+    return text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .trim();
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  GroupParticipant,
+  GroupSession,
+  GroupSessionBackend,
+  GroupVote,
+} from "./groupSessionService";
+
+interface LocalRoom {
+  session: GroupSession;
+  participants: GroupParticipant[];
+  votes: GroupVote[];
+  listeners: Set<() => void>;
+}
+
+/**
+ * In-memory stand-in for the Supabase tables and realtime channel.
+ * Devices sharing one instance see each other's changes, like clients of one project.
+ */
+export class LocalGroupSessionBackend implements GroupSessionBackend {
+  private rooms = new Map<string, LocalRoom>();
+
+  async createSession(session: GroupSession): Promise<void> {
+    if (this.rooms.has(session.code)) {
+      throw new Error(`Group session ${session.code} already exists`);
+    }
+    this.rooms.set(session.code, {
+      session: this.copy(session),
+      participants: [],
+      votes: [],
+      listeners: new Set(),
+    });
+  }
+
+  async getSession(code: string): Promise<GroupSession | null> {
+    const room = this.rooms.get(code);
+    return room ? this.copy(room.session) : null;
+  }
+
+  async addParticipant(code: string, participant: GroupParticipant): Promise<void> {
+    const room = this.getRoom(code);
+    room.participants = [...room.participants.filter((member) => member.id !== participant.id), participant];
+    this.notify(room);
+  }
+
+  async getParticipants(code: string): Promise<GroupParticipant[]> {
+    return this.copy(this.rooms.get(code)?.participants || []);
+  }
+
+  async saveVote(code: string, vote: GroupVote): Promise<void> {
+    const room = this.getRoom(code);
+    room.votes = [
+      ...room.votes.filter(
+        (item) => !(item.participantId === vote.participantId && item.restaurantId === vote.restaurantId)
+      ),
+      vote,
+    ];
+    this.notify(room);
+  }
+
+  async getVotes(code: string): Promise<GroupVote[]> {
+    return this.copy(this.rooms.get(code)?.votes || []);
+  }
+
+  subscribe(code: string, onChange: () => void): () => void {
+    const room = this.getRoom(code);
+    room.listeners.add(onChange);
+    return () => {
+      room.listeners.delete(onChange);
+    };
+  }
+
+  private getRoom(code: string): LocalRoom {
+    const room = this.rooms.get(code);
+    if (!room) {
+      throw new Error(`No group session found for code ${code}.`);
+    }
+    return room;
+  }
+
+  /**
+   * Deliver change events asynchronously, as the realtime channel would
+   */
+  private notify(room: LocalRoom): void {
+    for (const listener of Array.from(room.listeners)) {
+      setTimeout(listener, 0);
+    }
+  }
+
+  // Rows are copied so callers can't mutate stored state, mirroring a network round trip
+  private copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -1,10 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
+import { GeoapifyGeocoder } from './geoapifyGeocoder';
+import { Geocoder, GeocodingResult } from './geocoder';
+import { LocalGeocoder } from './localGeocoder';
+import { SavedPlacesService } from './savedPlacesService';
 
 export interface LocationCoordinates {
   latitude: number;
   longitude: number;
 }
 
+/**
+ * Where a location came from, from freshest to most stale
+ */
+export type LocationSource = 'gps' | 'last_known' | 'last_used' | 'manual';
+
+export interface LocationResult extends LocationCoordinates {
+  source: LocationSource;
+  accuracy: number | null; // Radius in meters, when known
+  timestamp: number; // When the position was measured
+}
+
+const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  gps: 'GPS',
+  last_known: 'Last known position',
+  last_used: 'Last used location',
+  manual: 'Chosen location',
+};
+
+const LAST_USED_LOCATION_KEY = 'last_used_location';
+
+const GEOCODERS = {
+  geoapify: new GeoapifyGeocoder(),
+  local: new LocalGeocoder(),
+};
+
+let geocoderOverride: Geocoder | null = null;
+
 export class LocationService {
   /**
    * Request location permissions from the user
@@ -20,11 +52,96 @@ export class LocationService {
   }
 
   /**
-   * Get the user's current location
+   * Get the user's current location, degrading step by step when GPS is unavailable:
+   * a fresh GPS fix, then the device's last known position, then the last location
+   * the app used. Returns null only when none of those exist.
+   */
+  static async getCurrentLocation(): Promise<LocationResult | null> {
+    if (await this.ensurePermission('Error getting current location:')) {
+      const result = (await this.getGpsLocation()) || (await this.getLastKnownLocation());
+      if (result) {
+        await this.rememberLocation(result);
+        return result;
+      }
+    }
+
+    const lastUsed = await this.getLastUsedLocation();
+    if (lastUsed) {
+      console.warn('Using the last location the app used');
+    }
+    return lastUsed;
+  }
+
+  /**
+   * Follow the user's position. The callback fires after each move of at least
+   * `distanceInterval` meters. Returns null when location permission isn't granted;
+   * call remove() on the subscription to stop watching.
    */
-  static async getCurrentLocation(): Promise<LocationCoordinates | null> {
+  static async watchLocation(
+    onChange: (location: LocationResult) => void,
+    distanceInterval: number = 100
+  ): Promise<Location.LocationSubscription | null> {
+    if (!(await this.ensurePermission('Error watching location:'))) return null;
+
+    try {
+      return await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.Balanced,
+          distanceInterval,
+        },
+        (position) => {
+          const result = this.toLocationResult(position, 'gps');
+          this.rememberLocation(result);
+          onChange(result);
+        }
+      );
+    } catch (error) {
+      console.error('Error watching location:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Where to search for restaurants: the location picked in the app, or the user's location
+   */
+  static async getSearchLocation(): Promise<LocationResult | null> {
+    const selected = await SavedPlacesService.getSelectedLocation();
+    if (selected) {
+      return {
+        latitude: selected.latitude,
+        longitude: selected.longitude,
+        source: 'manual',
+        accuracy: null,
+        timestamp: Date.now(),
+      };
+    }
+    return this.getCurrentLocation();
+  }
+
+  /**
+   * Short description of where a location came from and how old it is, e.g. "Last known position · 12 min ago"
+   */
+  static describeLocation(location: LocationResult, now: number = Date.now()): string {
+    if (location.source === 'manual') return LOCATION_SOURCE_LABELS.manual;
+
+    const minutes = Math.max(0, Math.floor((now - location.timestamp) / 60000));
+    let age: string;
+    if (minutes < 1) {
+      age = 'just now';
+    } else if (minutes < 60) {
+      age = `${minutes} min ago`;
+    } else if (minutes < 24 * 60) {
+      age = `${Math.floor(minutes / 60)} h ago`;
+    } else {
+      age = `${Math.floor(minutes / (24 * 60))} d ago`;
+    }
+
+    const accuracy = location.accuracy !== null ? ` ±${Math.round(location.accuracy)} m` : '';
+    return `${LOCATION_SOURCE_LABELS[location.source]}${accuracy} · ${age}`;
+  }
+
+  private static async ensurePermission(errorMessage: string): Promise<boolean> {
     try {
-      // Check if permission is granted
       const { status } = await Location.getForegroundPermissionsAsync();
       if (status !== 'granted') {
         const permissionGranted = await this.requestLocationPermission();
@@ -32,22 +149,88 @@ export class LocationService {
           throw new Error('Location permission not granted');
         }
       }
+      return true;
+    } catch (error) {
+      console.error(errorMessage, error);
+      return false;
+    }
+  }
 
-      // Get current location
-      const location = await Location.getCurrentPositionAsync({
+  private static async getGpsLocation(): Promise<LocationResult | null> {
+    try {
+      const position = await Location.getCurrentPositionAsync({
         accuracy: Location.Accuracy.Balanced,
       });
-
-      return {
-        latitude: location.coords.latitude,
-        longitude: location.coords.longitude,
-      };
+      return this.toLocationResult(position, 'gps');
     } catch (error) {
       console.error('Error getting current location:', error);
       return null;
     }
   }
 
+  private static async getLastKnownLocation(): Promise<LocationResult | null> {
+    try {
+      const position = await Location.getLastKnownPositionAsync();
+      return position ? this.toLocationResult(position, 'last_known') : null;
+    } catch (error) {
+      console.error('Error getting last known location:', error);
+      return null;
+    }
+  }
+
+  // Kept so the app still has somewhere to search from when location is off later
+  private static async rememberLocation(location: LocationResult): Promise<void> {
+    try {
+      await AsyncStorage.setItem(LAST_USED_LOCATION_KEY, JSON.stringify(location));
+    } catch (error) {
+      console.error('Error saving last used location:', error);
+    }
+  }
+
+  private static async getLastUsedLocation(): Promise<LocationResult | null> {
+    try {
+      const stored = await AsyncStorage.getItem(LAST_USED_LOCATION_KEY);
+      return stored ? { ...JSON.parse(stored), source: 'last_used' } : null;
+    } catch (error) {
+      console.error('Error loading last used location:', error);
+      return null;
+    }
+  }
+
+  private static toLocationResult(position: Location.LocationObject, source: LocationSource): LocationResult {
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      source,
+      accuracy: position.coords.accuracy ?? null,
+      timestamp: position.timestamp || Date.now(),
+    };
+  }
+
+  /**
+   * Look up an address or place name. Falls back to the offline city list
+   * when no geocoding API is configured or the API request fails.
+   */
+  static async searchAddress(query: string, limit: number = 5): Promise<GeocodingResult[]> {
+    if (!query.trim()) return [];
+
+    const geocoder = this.getGeocoder();
+    try {
+      return await geocoder.search(query.trim(), limit);
+    } catch (error) {
+      console.error(`Error geocoding with ${geocoder.name}:`, error);
+      if (geocoder === GEOCODERS.local) return [];
+      return GEOCODERS.local.search(query.trim(), limit);
+    }
+  }
+
+  /**
+   * Replace the geocoder regardless of configuration. Pass null to restore.
+   */
+  static setGeocoderOverride(geocoder: Geocoder | null): void {
+    geocoderOverride = geocoder;
+  }
+
   /**
    * Calculate distance between two coordinates using the Haversine formula
    * Returns distance in kilometers
@@ -73,6 +256,11 @@ export class LocationService {
     return Math.round(distance * 10) / 10; // Round to 1 decimal place
   }
 
+  private static getGeocoder(): Geocoder {
+    if (geocoderOverride) return geocoderOverride;
+    return GEOCODERS.geoapify.isConfigured() ? GEOCODERS.geoapify : GEOCODERS.local;
+  }
+
   private static toRadians(degrees: number): number {
     return degrees * (Math.PI / 180);
   }
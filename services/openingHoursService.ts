@@ -0,0 +1,597 @@
+import {
+  OpeningHours,
+  OpeningStatus,
+  Restaurant,
+  RestaurantTimezone,
+  TimeSpan,
+} from "../types/restaurant";
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// OSM weekday abbreviations, indexed like Date.getDay() (0 = Sunday)
+const OSM_DAYS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+const DISPLAY_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+type Token =
+  | { type: "day"; value: number }
+  | { type: "ph" }
+  | { type: "sh" }
+  | { type: "month" }
+  | { type: "time"; value: number }
+  | { type: "off" }
+  | { type: "open" }
+  | { type: "always" }
+  | { type: "dash" }
+  | { type: "comma" }
+  | { type: "plus" };
+
+export type AvailabilityMode = "any" | "open_now" | "open_at" | "open_for";
+
+// Where restaurants without parsed hours end up when an availability filter is active
+export type UnknownHoursHandling = "include" | "last" | "exclude";
+
+export interface AvailabilityFilter {
+  mode: AvailabilityMode;
+  openAtMinutes: number; // Minutes after local midnight for "open_at", e.g. 1140 = 7:00 PM
+  minOpenMinutes: number; // Minimum remaining open time for "open_for"
+  unknownHours: UnknownHoursHandling;
+}
+
+interface ParsedRule {
+  days: number[]; // Days the rule applies to, empty when it only targets public holidays
+  publicHolidays: boolean;
+  spans: TimeSpan[];
+  additional: boolean; // Added with "," instead of ";", so it extends rather than replaces
+}
+
+export class OpeningHoursService {
+  /**
+   * Parse an OSM opening_hours string into a weekly schedule.
+   * Supports weekday ranges, multiple time spans, "off"/"closed", "24/7",
+   * public holiday rules and spans running past midnight.
+   * Returns null when the string uses syntax we don't understand.
+   */
+  static parse(raw: string | undefined): OpeningHours | null {
+    if (!raw || typeof raw !== "string") return null;
+
+    const weekly: TimeSpan[][] = [[], [], [], [], [], [], []];
+    let publicHolidays: TimeSpan[] | undefined;
+    let parsedAnyRule = false;
+
+    for (const ruleText of raw.split(/;|\|\|/)) {
+      if (!ruleText.trim()) continue;
+
+      const tokens = this.tokenize(ruleText);
+      if (!tokens) return null;
+
+      // Seasonal, date-specific and school holiday rules are exceptions we can't evaluate
+      if (tokens.some((token) => token.type === "month" || token.type === "sh")) {
+        continue;
+      }
+
+      const rules = this.parseRule(tokens);
+      if (!rules) return null;
+
+      for (const rule of rules) {
+        for (const day of rule.days) {
+          weekly[day] = rule.additional ? [...weekly[day], ...rule.spans] : [...rule.spans];
+        }
+        if (rule.publicHolidays) {
+          publicHolidays = rule.additional && publicHolidays
+            ? [...publicHolidays, ...rule.spans]
+            : [...rule.spans];
+        }
+      }
+      parsedAnyRule = true;
+    }
+
+    if (!parsedAnyRule) return null;
+
+    return {
+      weekly: weekly.map((spans) => this.sortSpans(spans)),
+      ...(publicHolidays ? { publicHolidays: this.sortSpans(publicHolidays) } : {}),
+    };
+  }
+
+  /**
+   * Compute whether a schedule is open at the given moment, and when it next opens or closes.
+   * Public holidays are not evaluated since we have no holiday calendar.
+   */
+  static getStatus(
+    openingHours: OpeningHours,
+    now: Date = new Date(),
+    timezone?: RestaurantTimezone
+  ): OpeningStatus {
+    const { day, minutes } = this.getLocalTime(now, timezone);
+    const currentMinute = day * MINUTES_PER_DAY + minutes;
+    const intervals = this.getWeekIntervals(openingHours);
+
+    // Align epoch conversions to the start of the current minute
+    const minuteStart = now.getTime() - (now.getTime() % 60000);
+    const toEpoch = (weekMinute: number) => minuteStart + (weekMinute - currentMinute) * 60000;
+    const toLocal = (weekMinute: number) => {
+      const normalized = ((weekMinute % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+      return {
+        day: Math.floor(normalized / MINUTES_PER_DAY),
+        minutes: normalized % MINUTES_PER_DAY,
+      };
+    };
+
+    const current = intervals.find(
+      (interval) => interval.start <= currentMinute && currentMinute < interval.end
+    );
+
+    if (current) {
+      // Open around the clock, nothing to count down to
+      if (current.end - current.start >= MINUTES_PER_WEEK) {
+        return { isOpen: true };
+      }
+      return {
+        isOpen: true,
+        nextCloseAt: toEpoch(current.end),
+        nextChange: toLocal(current.end),
+      };
+    }
+
+    const next = intervals.find((interval) => interval.start > currentMinute);
+    if (!next) {
+      return { isOpen: false };
+    }
+
+    return {
+      isOpen: false,
+      nextOpenAt: toEpoch(next.start),
+      nextChange: toLocal(next.start),
+    };
+  }
+
+  /**
+   * Build the opening-hours fields of a Restaurant from a raw OSM string,
+   * with the open status computed at fetch time
+   */
+  static buildRestaurantHours(
+    hours: string | undefined,
+    timezone: RestaurantTimezone | undefined,
+    now: Date = new Date()
+  ): Pick<Restaurant, "hours" | "openingHours" | "timezone" | "isOpen" | "nextOpenAt" | "nextCloseAt"> {
+    const openingHours = this.parse(hours);
+    if (!openingHours) {
+      return { hours, timezone, isOpen: undefined };
+    }
+
+    const status = this.getStatus(openingHours, now, timezone);
+    return {
+      hours,
+      openingHours,
+      timezone,
+      isOpen: status.isOpen,
+      nextOpenAt: status.nextOpenAt,
+      nextCloseAt: status.nextCloseAt,
+    };
+  }
+
+  /**
+   * Get the live opening status for a restaurant.
+   * Uses the parsed schedule when available, otherwise the stored isOpen flag.
+   */
+  static getRestaurantStatus(
+    restaurant: Restaurant,
+    now: Date = new Date()
+  ): OpeningStatus | null {
+    if (restaurant.openingHours) {
+      return this.getStatus(restaurant.openingHours, now, restaurant.timezone);
+    }
+    if (restaurant.isOpen !== undefined) {
+      return { isOpen: restaurant.isOpen };
+    }
+    return null;
+  }
+
+  /**
+   * Check a restaurant against an availability filter.
+   * Returns null when its hours are unknown and the filter can't be evaluated.
+   */
+  static matchesAvailability(
+    restaurant: Restaurant,
+    filter: AvailabilityFilter,
+    now: Date = new Date()
+  ): boolean | null {
+    if (filter.mode === "any") return true;
+
+    if (filter.mode === "open_now") {
+      const status = this.getRestaurantStatus(restaurant, now);
+      return status ? status.isOpen : null;
+    }
+
+    // The remaining modes need a real schedule, a stored flag isn't enough
+    if (!restaurant.openingHours) return null;
+
+    if (filter.mode === "open_at") {
+      const target = this.getNextOccurrence(filter.openAtMinutes, now, restaurant.timezone);
+      return this.getStatus(restaurant.openingHours, target, restaurant.timezone).isOpen;
+    }
+
+    const status = this.getStatus(restaurant.openingHours, now, restaurant.timezone);
+    if (!status.isOpen) return false;
+    if (status.nextCloseAt === undefined) return true;
+    return status.nextCloseAt - now.getTime() >= filter.minOpenMinutes * 60000;
+  }
+
+  /**
+   * Apply an availability filter to a list, keeping its order.
+   * Unknown-hours restaurants are kept, moved to the end or dropped depending on the filter.
+   */
+  static filterByAvailability<T extends Restaurant>(
+    restaurants: T[],
+    filter: AvailabilityFilter,
+    now: Date = new Date()
+  ): T[] {
+    if (filter.mode === "any") return restaurants;
+
+    const matching: T[] = [];
+    const unknown: T[] = [];
+    const included: T[] = [];
+
+    for (const restaurant of restaurants) {
+      const matches = this.matchesAvailability(restaurant, filter, now);
+      if (matches === null) {
+        unknown.push(restaurant);
+        included.push(restaurant);
+      } else if (matches) {
+        matching.push(restaurant);
+        included.push(restaurant);
+      }
+    }
+
+    console.log(`Availability filter (${filter.mode}): ${matching.length} matching, ${unknown.length} with unknown hours`);
+
+    switch (filter.unknownHours) {
+      case "exclude":
+        return matching;
+      case "last":
+        return [...matching, ...unknown];
+      default:
+        return included;
+    }
+  }
+
+  /**
+   * Human-readable status, e.g. "Closes in 40 min" or "Opens Tue 11:00 AM"
+   */
+  static formatStatus(status: OpeningStatus, now: Date = new Date()): string {
+    const changeAt = status.isOpen ? status.nextCloseAt : status.nextOpenAt;
+
+    if (changeAt === undefined || !status.nextChange) {
+      return status.isOpen ? "Open" : "Closed";
+    }
+
+    const minutesUntil = Math.max(0, Math.round((changeAt - now.getTime()) / 60000));
+
+    if (status.isOpen) {
+      if (minutesUntil <= 60) return `Closes in ${minutesUntil} min`;
+      return `Open until ${this.formatTime(status.nextChange.minutes)}`;
+    }
+
+    if (minutesUntil <= 60) return `Opens in ${minutesUntil} min`;
+    if (minutesUntil < MINUTES_PER_DAY) {
+      return `Opens at ${this.formatTime(status.nextChange.minutes)}`;
+    }
+    return `Opens ${DISPLAY_DAYS[status.nextChange.day]} ${this.formatTime(status.nextChange.minutes)}`;
+  }
+
+  /**
+   * Weekly schedule rows for display, starting on Monday
+   */
+  static formatWeeklySchedule(openingHours: OpeningHours): { day: string; hours: string }[] {
+    const mondayFirst = [1, 2, 3, 4, 5, 6, 0];
+    return mondayFirst.map((day) => ({
+      day: DISPLAY_DAYS[day],
+      hours: this.formatSpans(openingHours.weekly[day]),
+    }));
+  }
+
+  /**
+   * Format a list of spans, e.g. "11:00 AM – 2:00 PM, 5:00 PM – 10:00 PM"
+   */
+  static formatSpans(spans: TimeSpan[]): string {
+    if (spans.length === 0) return "Closed";
+    if (spans.length === 1 && spans[0].start === 0 && spans[0].end >= MINUTES_PER_DAY) {
+      return "Open 24 hours";
+    }
+    return spans
+      .map((span) => `${this.formatTime(span.start)} – ${this.formatTime(span.end)}`)
+      .join(", ");
+  }
+
+  /**
+   * Format minutes after midnight as a 12-hour clock time
+   */
+  static formatTime(minutes: number): string {
+    const normalized = minutes % MINUTES_PER_DAY;
+    const hours24 = Math.floor(normalized / 60);
+    const mins = normalized % 60;
+    const period = hours24 < 12 ? "AM" : "PM";
+    const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+    return `${hours12}:${mins.toString().padStart(2, "0")} ${period}`;
+  }
+
+  /**
+   * Next moment the restaurant's clock reads the given time of day (today or tomorrow),
+   * or the device clock when the restaurant's timezone is unknown
+   */
+  private static getNextOccurrence(minutesAfterMidnight: number, now: Date, timezone?: RestaurantTimezone): Date {
+    const { minutes } = this.getLocalTime(now, timezone);
+    const minutesAhead = (((minutesAfterMidnight - minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const minuteStart = now.getTime() - (now.getTime() % 60000);
+    return new Date(minuteStart + minutesAhead * 60000);
+  }
+
+  /**
+   * Split a single rule into tokens, returning null on unknown syntax
+   */
+  private static tokenize(ruleText: string): Token[] | null {
+    const tokens: Token[] = [];
+    // Drop quoted comments, e.g. Mo-Fr 10:00-18:00 "by appointment"
+    let rest = ruleText.replace(/"[^"]*"/g, " ").trim();
+
+    while (rest.length > 0) {
+      const whitespace = rest.match(/^\s+/);
+      if (whitespace) {
+        rest = rest.slice(whitespace[0].length);
+        continue;
+      }
+
+      const time = rest.match(/^(\d{1,2}):(\d{2})/);
+      if (time) {
+        tokens.push({ type: "time", value: parseInt(time[1], 10) * 60 + parseInt(time[2], 10) });
+        rest = rest.slice(time[0].length);
+        continue;
+      }
+
+      if (rest.startsWith("24/7")) {
+        tokens.push({ type: "always" });
+        rest = rest.slice(4);
+        continue;
+      }
+
+      const word = rest.match(/^[A-Za-z]+/);
+      if (word) {
+        const value = word[0];
+        const lower = value.toLowerCase();
+        const dayIndex = OSM_DAYS.indexOf(value);
+
+        if (dayIndex !== -1) tokens.push({ type: "day", value: dayIndex });
+        else if (value === "PH") tokens.push({ type: "ph" });
+        else if (value === "SH") tokens.push({ type: "sh" });
+        else if (MONTHS.includes(value)) tokens.push({ type: "month" });
+        else if (lower === "off" || lower === "closed") tokens.push({ type: "off" });
+        else if (lower === "open") tokens.push({ type: "open" });
+        else return null;
+
+        rest = rest.slice(value.length);
+        continue;
+      }
+
+      const symbol = rest[0];
+      if (symbol === "-" || symbol === "–") tokens.push({ type: "dash" });
+      else if (symbol === ",") tokens.push({ type: "comma" });
+      else if (symbol === "+") tokens.push({ type: "plus" });
+      else if (symbol === ":") {
+        // Optional colon after a selector, e.g. "Mo-Fr: 10:00-18:00"
+      } else if (/\d/.test(symbol)) {
+        // Dates and week numbers only appear in exception rules
+        tokens.push({ type: "month" });
+        rest = rest.replace(/^\d+/, "");
+        continue;
+      } else return null;
+
+      rest = rest.slice(1);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Parse the tokens of one rule. A rule can carry additional rules joined with ","
+   */
+  private static parseRule(tokens: Token[]): ParsedRule[] | null {
+    const rules: ParsedRule[] = [];
+    let position = 0;
+    let additional = false;
+
+    while (position < tokens.length) {
+      const days = new Set<number>();
+      let publicHolidays = false;
+      let hasSelector = false;
+
+      // Selectors: weekday lists/ranges and PH
+      while (position < tokens.length) {
+        const token = tokens[position];
+        if (token.type === "day") {
+          const next = tokens[position + 1];
+          const rangeEnd = tokens[position + 2];
+          if (next?.type === "dash" && rangeEnd?.type === "day") {
+            for (let day = token.value; ; day = (day + 1) % 7) {
+              days.add(day);
+              if (day === rangeEnd.value) break;
+            }
+            position += 3;
+          } else {
+            days.add(token.value);
+            position += 1;
+          }
+        } else if (token.type === "ph") {
+          publicHolidays = true;
+          position += 1;
+        } else {
+          break;
+        }
+        hasSelector = true;
+
+        // A comma between selectors continues the selector list
+        const afterSelector = tokens[position];
+        const following = tokens[position + 1];
+        if (afterSelector?.type === "comma" && (following?.type === "day" || following?.type === "ph")) {
+          position += 1;
+        } else {
+          break;
+        }
+      }
+
+      // Without a weekday selector the rule applies to every day
+      if (!hasSelector) {
+        [0, 1, 2, 3, 4, 5, 6].forEach((day) => days.add(day));
+      }
+
+      // Rule state: time spans, off, open or 24/7
+      const spans: TimeSpan[] = [];
+      const token = tokens[position];
+      if (!token) {
+        if (!hasSelector) return null;
+        // A bare selector like "Mo-Fr" means open all day
+        spans.push({ start: 0, end: MINUTES_PER_DAY });
+      } else if (token.type === "off") {
+        position += 1;
+      } else if (token.type === "always" || token.type === "open") {
+        spans.push({ start: 0, end: MINUTES_PER_DAY });
+        position += 1;
+      } else if (token.type === "time") {
+        while (tokens[position]?.type === "time") {
+          const span = this.parseSpan(tokens, position);
+          if (!span) return null;
+          spans.push(span.span);
+          position = span.nextPosition;
+
+          // Another time span follows after a comma
+          if (tokens[position]?.type === "comma" && tokens[position + 1]?.type === "time") {
+            position += 1;
+          }
+        }
+      } else {
+        return null;
+      }
+
+      rules.push({
+        days: Array.from(days),
+        publicHolidays,
+        spans,
+        additional,
+      });
+
+      // ", " followed by a selector starts an additional rule
+      if (position < tokens.length) {
+        if (tokens[position].type !== "comma") return null;
+        position += 1;
+        additional = true;
+      }
+    }
+
+    return rules.length > 0 ? rules : null;
+  }
+
+  /**
+   * Parse "HH:MM-HH:MM" (or "HH:MM+") starting at the given token
+   */
+  private static parseSpan(
+    tokens: Token[],
+    position: number
+  ): { span: TimeSpan; nextPosition: number } | null {
+    const startToken = tokens[position];
+    if (startToken?.type !== "time") return null;
+    const start = startToken.value;
+
+    // Open end, e.g. "18:00+": assume open until midnight
+    if (tokens[position + 1]?.type === "plus") {
+      return { span: { start, end: MINUTES_PER_DAY }, nextPosition: position + 2 };
+    }
+
+    const endToken = tokens[position + 2];
+    if (tokens[position + 1]?.type !== "dash" || endToken?.type !== "time") return null;
+
+    let end = endToken.value;
+    // Spans ending at or before their start run past midnight
+    if (end <= start) end += MINUTES_PER_DAY;
+
+    let nextPosition = position + 3;
+    if (tokens[nextPosition]?.type === "plus") nextPosition += 1;
+
+    return { span: { start, end }, nextPosition };
+  }
+
+  /**
+   * Flatten the weekly schedule into merged week-minute intervals.
+   * Intervals are repeated over the following week so lookups never need to wrap.
+   */
+  private static getWeekIntervals(openingHours: OpeningHours): TimeSpan[] {
+    const intervals: TimeSpan[] = [];
+
+    openingHours.weekly.forEach((spans, day) => {
+      for (const span of spans) {
+        const start = day * MINUTES_PER_DAY + span.start;
+        const end = day * MINUTES_PER_DAY + span.end;
+        for (const offset of [-MINUTES_PER_WEEK, 0, MINUTES_PER_WEEK]) {
+          intervals.push({ start: start + offset, end: end + offset });
+        }
+      }
+    });
+
+    const merged: TimeSpan[] = [];
+    for (const interval of this.sortSpans(intervals)) {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Resolve the restaurant-local weekday and minutes after midnight
+   */
+  private static getLocalTime(
+    now: Date,
+    timezone?: RestaurantTimezone
+  ): { day: number; minutes: number } {
+    if (timezone?.name) {
+      try {
+        const parts = new Intl.DateTimeFormat("en-US", {
+          timeZone: timezone.name,
+          weekday: "short",
+          hour: "2-digit",
+          minute: "2-digit",
+          hourCycle: "h23",
+        }).formatToParts(now);
+
+        const weekday = parts.find((part) => part.type === "weekday")?.value;
+        const hour = parseInt(parts.find((part) => part.type === "hour")?.value ?? "", 10);
+        const minute = parseInt(parts.find((part) => part.type === "minute")?.value ?? "", 10);
+        const day = DISPLAY_DAYS.indexOf(weekday ?? "");
+
+        if (day !== -1 && !isNaN(hour) && !isNaN(minute)) {
+          return { day, minutes: (hour % 24) * 60 + minute };
+        }
+      } catch (error) {
+        console.warn(`Unable to resolve timezone ${timezone.name}, using fixed offset:`, error);
+      }
+    }
+
+    if (timezone) {
+      // No Intl timezone support: fall back to the standard offset
+      const shifted = new Date(now.getTime() + timezone.offsetStdSeconds * 1000);
+      return {
+        day: shifted.getUTCDay(),
+        minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes(),
+      };
+    }
+
+    return { day: now.getDay(), minutes: now.getHours() * 60 + now.getMinutes() };
+  }
+
+  private static sortSpans(spans: TimeSpan[]): TimeSpan[] {
+    return [...spans].sort((a, b) => a.start - b.start || a.end - b.end);
+  }
+}
@@ -0,0 +1,167 @@
+import { Restaurant } from "../types/restaurant";
+import { CuisineClassifier } from "./cuisineClassifier";
+import { HttpClient, overpassHttpClient } from "./httpClient";
+import { LocationCoordinates } from "./locationService";
+import { OpeningHoursService } from "./openingHoursService";
+import { PlaceProvider, SearchOptions } from "./placeProvider";
+import { PlaceProviderError } from "./placeProviderError";
+import { RestaurantAttributeService } from "./restaurantAttributeService";
+import { RestaurantImageService } from "./restaurantImageService";
+
+const OVERPASS_API_URL = "https://overpass-api.de/api/interpreter";
+
+// OSM amenity values that count as restaurants, mapped to the matching Geoapify category
+const AMENITY_CATEGORIES: { [amenity: string]: string } = {
+  restaurant: "catering.restaurant",
+  fast_food: "catering.fast_food",
+  cafe: "catering.cafe",
+  bar: "catering.bar",
+};
+
+export interface OverpassElement {
+  type: "node" | "way" | "relation";
+  id: number;
+  lat?: number; // Nodes only
+  lon?: number;
+  center?: { lat: number; lon: number }; // Ways and relations, via "out center"
+  tags?: { [key: string]: string };
+}
+
+interface OverpassResponse {
+  elements: OverpassElement[];
+}
+
+export class OverpassPlaceProvider implements PlaceProvider<OverpassElement> {
+  id = "overpass" as const;
+  name = "OpenStreetMap (Overpass)";
+  maxResultsPerSearch = 1000;
+  sharesCache = false;
+  private http: HttpClient;
+
+  constructor(http: HttpClient = overpassHttpClient) {
+    this.http = http;
+  }
+
+  isConfigured(): boolean {
+    // The public Overpass API needs no key
+    return true;
+  }
+
+  /**
+   * Query OSM directly for restaurants within a circle. Throws a PlaceProviderError when the request fails.
+   */
+  async searchInCircle(
+    location: LocationCoordinates,
+    radiusInMeters: number,
+    maxResults: number,
+    options: SearchOptions = {}
+  ): Promise<Restaurant[]> {
+    try {
+      const amenities = Object.keys(AMENITY_CATEGORIES).join("|");
+      const around = `around:${Math.round(radiusInMeters)},${location.latitude},${location.longitude}`;
+      const query =
+        `[out:json][timeout:25];` +
+        `(nwr["amenity"~"^(${amenities})$"]["name"](${around}););` +
+        `out center ${Math.min(maxResults, this.maxResultsPerSearch)};`;
+
+      const elements = await this.runQuery(query, options.signal);
+      console.log(`Overpass returned ${elements.length} places`);
+
+      return elements
+        .filter((element) => this.getCoordinates(element) !== null)
+        .map((element) => this.normalize(element));
+    } catch (error) {
+      console.error("Error fetching from Overpass:", error);
+      throw PlaceProviderError.from(error);
+    }
+  }
+
+  /**
+   * Fetch a single OSM element by the id produced in normalize(), e.g. "osm-node-123"
+   */
+  async getPlaceDetails(placeId: string): Promise<Restaurant | null> {
+    const match = placeId.match(/^osm-(node|way|relation)-(\d+)$/);
+    if (!match) {
+      console.warn(`Not an OSM place id: ${placeId}`);
+      return null;
+    }
+
+    try {
+      const elements = await this.runQuery(`[out:json][timeout:25];${match[1]}(${match[2]});out center;`);
+      const element = elements.find((item) => this.getCoordinates(item) !== null);
+      return element ? this.normalize(element) : null;
+    } catch (error) {
+      console.error("Error fetching OSM place details:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Convert an OSM element to our Restaurant interface
+   */
+  normalize(element: OverpassElement): Restaurant {
+    const tags = element.tags || {};
+    const coordinates = this.getCoordinates(element) || { latitude: 0, longitude: 0 };
+
+    const category = AMENITY_CATEGORIES[tags.amenity];
+    const { cuisines, confidence } = CuisineClassifier.classify({
+      cuisineTag: tags.cuisine,
+      name: tags.name,
+      categories: category ? [category] : [],
+    });
+
+    const addressComponents = [
+      [tags["addr:housenumber"], tags["addr:street"]].filter(Boolean).join(" "),
+      tags["addr:city"],
+      tags["addr:state"],
+      tags["addr:postcode"],
+    ].filter(Boolean);
+
+    return {
+      id: `osm-${element.type}-${element.id}`,
+      name: tags.name || "Restaurant",
+      cuisine: cuisines[0],
+      cuisines,
+      cuisineConfidence: confidence,
+      image: RestaurantImageService.getCuisineSpecificImage(cuisines[0], tags.name),
+      ...RestaurantAttributeService.extractRating(tags),
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      description:
+        tags.description || RestaurantAttributeService.generateDescription(tags.name, cuisines[0], confidence),
+      address: addressComponents.length > 0 ? addressComponents.join(", ") : undefined,
+      phoneNumber: tags.phone || tags["contact:phone"] || undefined,
+      ...RestaurantAttributeService.extractPriceRange(tags),
+      // OSM has no timezone; hours are evaluated in the device's timezone
+      ...OpeningHoursService.buildRestaurantHours(tags.opening_hours, undefined),
+      dataSource: "api",
+    };
+  }
+
+  private async runQuery(query: string, signal?: AbortSignal): Promise<OverpassElement[]> {
+    const response = await this.http.request(OVERPASS_API_URL, {
+      endpoint: "overpass/interpreter",
+      signal,
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: `data=${encodeURIComponent(query)}`,
+    });
+
+    if (!response.ok) {
+      throw PlaceProviderError.fromResponse("Overpass", response);
+    }
+
+    const data: OverpassResponse = await response.json();
+    return data.elements || [];
+  }
+
+  private getCoordinates(element: OverpassElement): LocationCoordinates | null {
+    if (element.lat !== undefined && element.lon !== undefined) {
+      return { latitude: element.lat, longitude: element.lon };
+    }
+    if (element.center) {
+      return { latitude: element.center.lat, longitude: element.center.lon };
+    }
+    return null;
+  }
+}
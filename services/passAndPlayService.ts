@@ -0,0 +1,165 @@
+import { Restaurant } from "../types/restaurant";
+import { LocationCoordinates, LocationService } from "./locationService";
+import { RandomService, RandomSource } from "./randomService";
+
+export const PASS_AND_PLAY_DECK_SIZE = 20;
+export const MIN_PASS_AND_PLAY_PLAYERS = 2;
+
+export type PassAndPlayPhase = "handoff" | "swiping" | "finished";
+
+export interface PassAndPlayState {
+  phase: PassAndPlayPhase;
+  players: string[];
+  deck: Restaurant[]; // Shuffled once; every player swipes this order
+  playerIndex: number; // Whose turn it is
+  cardIndex: number; // Next card for the current player
+  votes: { [restaurantId: string]: boolean }[]; // One map per player
+}
+
+export type PassAndPlayAction =
+  | { type: "ready" } // Current player has the device
+  | { type: "swipe"; liked: boolean }
+  | { type: "endTurn" } // Skip the rest of the deck
+  | { type: "restart" };
+
+export interface PassAndPlayResult {
+  restaurant: Restaurant;
+  likedBy: string[];
+  likes: number;
+  score: number; // Share of players who swiped right, 0-1
+  distance: number | null; // km from the group's location
+}
+
+/**
+ * Turn-based group swiping on one device. Everything here is pure so the
+ * game can be driven and tested without React Native.
+ */
+export class PassAndPlayService {
+  /**
+   * Start a game: dedupe player names, shuffle and trim the deck
+   */
+  static createGame(
+    playerNames: string[],
+    restaurants: Restaurant[],
+    options: { deckSize?: number; random?: RandomSource } = {}
+  ): PassAndPlayState {
+    const players = this.sanitizePlayers(playerNames);
+    if (players.length < MIN_PASS_AND_PLAY_PLAYERS) {
+      throw new Error(`Pass and play needs at least ${MIN_PASS_AND_PLAY_PLAYERS} players.`);
+    }
+    if (restaurants.length === 0) {
+      throw new Error("Pass and play needs at least one restaurant.");
+    }
+
+    const deck = RandomService.shuffle(restaurants, options.random).slice(
+      0,
+      options.deckSize || PASS_AND_PLAY_DECK_SIZE
+    );
+
+    return {
+      phase: "handoff",
+      players,
+      deck,
+      playerIndex: 0,
+      cardIndex: 0,
+      votes: players.map(() => ({})),
+    };
+  }
+
+  /**
+   * Apply an action. Actions that don't fit the current phase leave the state unchanged.
+   */
+  static transition(state: PassAndPlayState, action: PassAndPlayAction): PassAndPlayState {
+    switch (action.type) {
+      case "ready":
+        return state.phase === "handoff" ? { ...state, phase: "swiping" } : state;
+
+      case "swipe": {
+        if (state.phase !== "swiping") {
+          return state;
+        }
+        const restaurant = state.deck[state.cardIndex];
+        const votes = state.votes.map((playerVotes, index) =>
+          index === state.playerIndex ? { ...playerVotes, [restaurant.id]: action.liked } : playerVotes
+        );
+        const next = { ...state, votes, cardIndex: state.cardIndex + 1 };
+        return next.cardIndex >= state.deck.length ? this.advancePlayer(next) : next;
+      }
+
+      case "endTurn":
+        return state.phase === "swiping" ? this.advancePlayer(state) : state;
+
+      case "restart":
+        return {
+          ...state,
+          phase: "handoff",
+          playerIndex: 0,
+          cardIndex: 0,
+          votes: state.players.map(() => ({})),
+        };
+
+      default:
+        return state;
+    }
+  }
+
+  /**
+   * The player who should be holding the device, or null once everyone has swiped
+   */
+  static getCurrentPlayer(state: PassAndPlayState): string | null {
+    return state.phase === "finished" ? null : state.players[state.playerIndex];
+  }
+
+  /**
+   * Rank restaurants by the share of players who liked them.
+   * Ties go to the closer restaurant, then to deck order.
+   */
+  static getResults(
+    state: PassAndPlayState,
+    origin: LocationCoordinates | null = null
+  ): PassAndPlayResult[] {
+    const playerCount = state.players.length;
+
+    return state.deck
+      .map((restaurant, deckIndex) => {
+        const likedBy = state.players.filter((_, index) => state.votes[index][restaurant.id] === true);
+        return {
+          deckIndex,
+          result: {
+            restaurant,
+            likedBy,
+            likes: likedBy.length,
+            score: playerCount > 0 ? likedBy.length / playerCount : 0,
+            distance: origin ? LocationService.calculateDistance(origin, restaurant) : null,
+          },
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.result.score - a.result.score ||
+          (a.result.distance ?? Infinity) - (b.result.distance ?? Infinity) ||
+          a.deckIndex - b.deckIndex
+      )
+      .map(({ result }) => result);
+  }
+
+  private static advancePlayer(state: PassAndPlayState): PassAndPlayState {
+    const playerIndex = state.playerIndex + 1;
+    if (playerIndex >= state.players.length) {
+      return { ...state, phase: "finished", cardIndex: state.deck.length };
+    }
+    return { ...state, phase: "handoff", playerIndex, cardIndex: 0 };
+  }
+
+  private static sanitizePlayers(playerNames: string[]): string[] {
+    const seen = new Set<string>();
+    return playerNames
+      .map((name) => name.trim())
+      .filter((name) => {
+        const key = name.toLowerCase();
+        if (!name || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+}
@@ -0,0 +1,85 @@
+import { Restaurant } from "../types/restaurant";
+import { FixturePlaceProvider } from "./fixturePlaceProvider";
+import { GeoapifyPlaceProvider } from "./geoapifyPlaceProvider";
+import { LocationCoordinates } from "./locationService";
+import { OverpassPlaceProvider } from "./overpassPlaceProvider";
+import { SettingsService } from "./settingsService";
+
+export type PlaceProviderId = "geoapify" | "overpass" | "fixture";
+
+export interface SearchOptions {
+  signal?: AbortSignal; // Cancels the search, which then throws a "cancelled" PlaceProviderError
+}
+
+/**
+ * A source of restaurant data. Implementations fetch places in their own
+ * format and normalize them to Restaurant so the deck and caches never see raw data.
+ */
+export interface PlaceProvider<TPlace = unknown> {
+  id: PlaceProviderId;
+  name: string;
+  maxResultsPerSearch: number; // A full page of this size may mean results were truncated
+  sharesCache: boolean; // Whether results may be written to the Supabase shared cache
+
+  isConfigured(): boolean;
+  // Throws a PlaceProviderError when restaurants can't be fetched, rather than returning an empty list
+  searchInCircle(
+    center: LocationCoordinates,
+    radiusInMeters: number,
+    limit: number,
+    options?: SearchOptions
+  ): Promise<Restaurant[]>;
+  getPlaceDetails(placeId: string): Promise<Restaurant | null>;
+  normalize(place: TPlace): Restaurant;
+}
+
+export const DEFAULT_PLACE_PROVIDER: PlaceProviderId = "geoapify";
+
+const PROVIDERS: { [id in PlaceProviderId]: PlaceProvider<any> } = {
+  geoapify: new GeoapifyPlaceProvider(),
+  overpass: new OverpassPlaceProvider(),
+  fixture: new FixturePlaceProvider(),
+};
+
+let providerOverride: PlaceProvider<any> | null = null;
+
+export class PlaceProviderService {
+  /**
+   * Look up a provider by id, falling back to the default for unknown ids
+   */
+  static getProvider(id: PlaceProviderId): PlaceProvider {
+    return PROVIDERS[id] || PROVIDERS[DEFAULT_PLACE_PROVIDER];
+  }
+
+  /**
+   * All providers, for the settings picker
+   */
+  static getProviders(): PlaceProvider[] {
+    return Object.values(PROVIDERS);
+  }
+
+  /**
+   * Offline provider used whenever live data is unavailable
+   */
+  static getOfflineProvider(): PlaceProvider {
+    return PROVIDERS.fixture;
+  }
+
+  /**
+   * The provider chosen in settings, or the test override when one is set
+   */
+  static async getActiveProvider(): Promise<PlaceProvider> {
+    if (providerOverride) {
+      return providerOverride;
+    }
+    const settings = await SettingsService.loadSettings();
+    return this.getProvider(settings.placeProvider);
+  }
+
+  /**
+   * Replace the active provider regardless of settings. Pass null to restore.
+   */
+  static setProviderOverride(provider: PlaceProvider<any> | null): void {
+    providerOverride = provider;
+  }
+}
@@ -0,0 +1,86 @@
+import { getRetryAfterMs, isAbortError } from "./httpClient";
+
+export type PlaceProviderErrorKind =
+  | "missing_api_key" // The provider needs a key that isn't configured
+  | "unauthorized" // HTTP 401/403: the key is wrong or revoked
+  | "rate_limited" // HTTP 429: too many requests or out of quota
+  | "server" // Any other HTTP error
+  | "network" // The request never got a response
+  | "invalid_response" // The response couldn't be parsed
+  | "cancelled"; // The search was aborted through its AbortSignal
+
+const RETRYABLE_KINDS: PlaceProviderErrorKind[] = ["rate_limited", "server", "network"];
+
+const USER_MESSAGES: Record<PlaceProviderErrorKind, string> = {
+  missing_api_key: "Restaurant search isn't set up: no API key is configured. Pick another data source in settings or try demo data.",
+  unauthorized: "The restaurant service rejected our API key. Pick another data source in settings or try demo data.",
+  rate_limited: "The restaurant service is getting too many requests right now.",
+  server: "The restaurant service is having problems right now.",
+  network: "Couldn't reach the restaurant service. Check your internet connection.",
+  invalid_response: "The restaurant service sent back something we couldn't read.",
+  cancelled: "The search was cancelled.",
+};
+
+/**
+ * Why a place provider couldn't return restaurants. Providers throw these so callers
+ * can tell a missing key from a flaky network instead of getting an empty list.
+ */
+export class PlaceProviderError extends Error {
+  readonly kind: PlaceProviderErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // From a Retry-After header
+
+  constructor(kind: PlaceProviderErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "PlaceProviderError";
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /**
+   * Whether trying the same request again later might work
+   */
+  get isRetryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  /**
+   * What went wrong, in words for the user
+   */
+  get userMessage(): string {
+    return USER_MESSAGES[this.kind];
+  }
+
+  /**
+   * Error for a non-OK HTTP response
+   */
+  static fromResponse(providerName: string, response: Response): PlaceProviderError {
+    const message = `${providerName} API error: ${response.status}`;
+    if (response.status === 401 || response.status === 403) {
+      return new PlaceProviderError("unauthorized", message, response.status);
+    }
+    if (response.status === 429) {
+      return new PlaceProviderError("rate_limited", message, response.status, getRetryAfterMs(response));
+    }
+    return new PlaceProviderError("server", message, response.status);
+  }
+
+  /**
+   * Classify anything thrown while talking to a provider
+   */
+  static from(error: unknown): PlaceProviderError {
+    if (error instanceof PlaceProviderError) {
+      return error;
+    }
+    if (isAbortError(error)) {
+      return new PlaceProviderError("cancelled", "Search was cancelled");
+    }
+    if (error instanceof SyntaxError) {
+      return new PlaceProviderError("invalid_response", error.message);
+    }
+    // fetch rejects with a TypeError when the request can't be made at all; timeouts count too
+    const message = error instanceof Error ? error.message : String(error);
+    return new PlaceProviderError("network", message);
+  }
+}
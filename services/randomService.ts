@@ -0,0 +1,57 @@
+export type RandomSource = () => number;
+
+/**
+ * Seedable randomness for decks and picks.
+ * The same seed always gives the same sequence, so a deck can be rebuilt on another device.
+ */
+export class RandomService {
+  /**
+   * Deterministic random source (mulberry32). String seeds such as room codes are hashed first.
+   */
+  static createRandom(seed: number | string): RandomSource {
+    let state = typeof seed === "number" ? seed >>> 0 : this.hashSeed(seed);
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Fisher-Yates shuffle into a new array
+   */
+  static shuffle<T>(array: T[], random: RandomSource = Math.random): T[] {
+    const shuffled = [...array];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Weighted random order: heavier items tend to come first (Efraimidis-Spirakis sampling)
+   */
+  static weightedShuffle<T>(
+    array: T[],
+    getWeight: (item: T) => number,
+    random: RandomSource = Math.random
+  ): T[] {
+    return array
+      .map((item) => ({ item, key: Math.pow(random(), 1 / Math.max(getWeight(item), 0.0001)) }))
+      .sort((a, b) => b.key - a.key)
+      .map(({ item }) => item);
+  }
+
+  // FNV-1a, so string seeds map to a stable 32-bit number
+  private static hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,141 @@
+import { CuisineConfidence, PriceRange, Restaurant } from "../types/restaurant";
+
+type RawTags = { [key: string]: any };
+
+// OSM tags that may carry a price hint, most specific first
+const PRICE_TAGS = ["price_range", "price:range", "price_level", "price"];
+
+const PRICE_WORDS: { [word: string]: PriceRange } = {
+  cheap: "$",
+  inexpensive: "$",
+  budget: "$",
+  moderate: "$$",
+  mid: "$$",
+  expensive: "$$$",
+  upscale: "$$$",
+  luxury: "$$$$",
+};
+
+const PRICE_RANGES: PriceRange[] = ["$", "$$", "$$$", "$$$$"];
+
+export class RestaurantAttributeService {
+  /**
+   * Read a rating from OSM tags. Only `stars` carries one; values like "4", "3.5" or "4S" are accepted.
+   */
+  static extractRating(raw: RawTags | undefined): Pick<Restaurant, "rating" | "ratingSource"> {
+    const stars = raw?.stars;
+    if (stars === undefined || stars === null) {
+      return {};
+    }
+
+    const match = String(stars).trim().match(/^(\d+(?:\.\d+)?)/);
+    if (!match) {
+      return {};
+    }
+
+    const rating = parseFloat(match[1]);
+    if (rating <= 0 || rating > 5) {
+      return {};
+    }
+    return { rating, ratingSource: "osm" };
+  }
+
+  /**
+   * Read a price range from OSM tags such as `price_range=$$`, `price:range=€€€` or `price_level=2`
+   */
+  static extractPriceRange(raw: RawTags | undefined): Pick<Restaurant, "priceRange" | "priceRangeSource"> {
+    if (!raw) {
+      return {};
+    }
+
+    for (const tag of PRICE_TAGS) {
+      const priceRange = this.parsePriceValue(raw[tag]);
+      if (priceRange) {
+        return { priceRange, priceRangeSource: "osm" };
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Generate a short description for a place that has none
+   */
+  static generateDescription(
+    name: string | undefined,
+    cuisine: string,
+    cuisineConfidence: CuisineConfidence
+  ): string {
+    let description = `Discover ${name || "Restaurant"}`;
+
+    if (cuisineConfidence !== "unknown") {
+      description += ` serving ${cuisine} cuisine`;
+    }
+
+    description +=
+      ". A local dining spot in your neighborhood with great food and atmosphere.";
+
+    return description;
+  }
+
+  /**
+   * Drop ratings and price ranges that have no recorded source.
+   * Cached entries written before sources were tracked hold randomly generated values.
+   */
+  static migrateLegacyAttributes<T extends Restaurant>(restaurant: T): T {
+    const hasLegacyRating = restaurant.rating !== undefined && !restaurant.ratingSource;
+    const hasLegacyPrice = restaurant.priceRange !== undefined && !restaurant.priceRangeSource;
+    if (!hasLegacyRating && !hasLegacyPrice) {
+      return restaurant;
+    }
+
+    const migrated = { ...restaurant };
+    if (hasLegacyRating) {
+      delete migrated.rating;
+    }
+    if (hasLegacyPrice) {
+      delete migrated.priceRange;
+    }
+    return migrated;
+  }
+
+  /**
+   * Migrate a list of cached restaurants, logging how many were touched
+   */
+  static migrateCachedRestaurants<T extends Restaurant>(restaurants: T[]): T[] {
+    let migratedCount = 0;
+    const migrated = restaurants.map((restaurant) => {
+      const result = this.migrateLegacyAttributes(restaurant);
+      if (result !== restaurant) migratedCount++;
+      return result;
+    });
+
+    if (migratedCount > 0) {
+      console.log(`Removed unsourced ratings/prices from ${migratedCount} cached restaurants`);
+    }
+    return migrated;
+  }
+
+  private static parsePriceValue(value: unknown): PriceRange | null {
+    if (typeof value === "number") {
+      return PRICE_RANGES[value - 1] || null;
+    }
+    if (typeof value !== "string") {
+      return null;
+    }
+
+    const trimmed = value.trim().toLowerCase();
+
+    // Repeated currency symbols: "$$", "€€€", "££"
+    const symbols = trimmed.match(/^([$€£¥₹])\1{0,3}$/u);
+    if (symbols) {
+      return PRICE_RANGES[Array.from(trimmed).length - 1];
+    }
+
+    // Price levels 1-4
+    if (/^[1-4]$/.test(trimmed)) {
+      return PRICE_RANGES[parseInt(trimmed, 10) - 1];
+    }
+
+    return PRICE_WORDS[trimmed] || null;
+  }
+}
@@ -0,0 +1,176 @@
+export class RestaurantImageService {
+  /**
+   * Get cuisine-specific food images with better matching
+   */
+  static getCuisineSpecificImage(cuisine: string, restaurantName?: string): string {
+    // First try to get specific image based on restaurant name patterns
+    if (restaurantName) {
+      const nameBasedImage = this.getImageFromRestaurantName(restaurantName.toLowerCase());
+      if (nameBasedImage) {
+        console.log(`Selected name-based image for ${restaurantName}: ${nameBasedImage}`);
+        return nameBasedImage;
+      }
+    }
+
+    const cuisineImages: { [key: string]: string[] } = {
+      Pizza: [
+        "https://images.unsplash.com/photo-1604068549290-dea0e4a305ca?w=400&h=300&fit=crop", // Pizza slice
+        "https://images.unsplash.com/photo-1513104890138-7c749659a591?w=400&h=300&fit=crop", // Wood fired pizza
+        "https://images.unsplash.com/photo-1571997478779-2adcbbe9ab2f?w=400&h=300&fit=crop", // Pizza with toppings
+        "https://images.unsplash.com/photo-1628840042765-356cda07504e?w=400&h=300&fit=crop", // Fresh pizza
+      ],
+      Italian: [
+        "https://plus.unsplash.com/premium_photo-1664472619078-9db415ebef44?w=400&h=300&fit=crop", // Pasta
+        "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=400&h=300&fit=crop", // Italian restaurant
+        "https://images.unsplash.com/photo-1621996346565-e3dbc646d9a9?w=400&h=300&fit=crop", // Pasta dish
+        "https://images.unsplash.com/photo-1604068549290-dea0e4a305ca?w=400&h=300&fit=crop", // Pizza (working URL)
+      ],
+      Japanese: [
+        "https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400&h=300&fit=crop", // Sushi
+        "https://images.unsplash.com/photo-1569718212165-3a8278d5f624?w=400&h=300&fit=crop", // Ramen
+        "https://images.unsplash.com/photo-1617196034796-73dfa7b1fd56?w=400&h=300&fit=crop", // Japanese food
+        "https://images.unsplash.com/photo-1582450871972-ab5ca641643d?w=400&h=300&fit=crop", // Sushi rolls
+      ],
+      Mexican: [
+        "https://images.unsplash.com/photo-1551504734-5ee1c4a1479b?w=400&h=300&fit=crop", // Tacos
+        "https://images.unsplash.com/photo-1504544750208-dc0358e63f7f?w=400&h=300&fit=crop", // Mexican food
+        "https://images.unsplash.com/photo-1625167171750-419e95f877d8?w=400&h=300&fit=crop", // Mexican restaurant
+        "https://images.unsplash.com/photo-1599974579688-8dbdd335c77f?w=400&h=300&fit=crop", // Tacos close up
+      ],
+      Chinese: [
+        "https://images.unsplash.com/photo-1526318896980-cf78c088247c?w=400&h=300&fit=crop", // Chinese food
+        "https://images.unsplash.com/photo-1512058564366-18510be2db19?w=400&h=300&fit=crop", // Chinese noodles
+        "https://images.unsplash.com/photo-1596797038530-2c107229654b?w=400&h=300&fit=crop", // Chinese dishes
+        "https://plus.unsplash.com/premium_photo-1674601031608-1a38ca161523?w=400&h=300&fit=crop", // Dim sum
+      ],
+      Indian: [
+        "https://images.unsplash.com/photo-1565557623262-b51c2513a641?w=400&h=300&fit=crop", // Indian curry
+        "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400&h=300&fit=crop", // Indian food
+        "https://images.unsplash.com/photo-1585937421612-70a008356fbe?w=400&h=300&fit=crop", // Indian restaurant
+        "https://images.unsplash.com/photo-1596040033229-a9821ebd058d?w=400&h=300&fit=crop", // Indian spices and food
+      ],
+      American: [
+        "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400&h=300&fit=crop", // Burger
+        "https://images.unsplash.com/photo-1594212699903-ec8a3eca50f5?w=400&h=300&fit=crop", // American diner
+        "https://images.unsplash.com/photo-1571091718767-18b5b1457add?w=400&h=300&fit=crop", // American food
+        "https://images.unsplash.com/photo-1572448862527-d3c904757de6?w=400&h=300&fit=crop", // BBQ
+      ],
+      French: [
+        "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop", // French restaurant
+        "https://images.unsplash.com/photo-1559847844-5315695dadae?w=400&h=300&fit=crop", // French cuisine
+        "https://images.unsplash.com/photo-1604908176997-125f25cc6f3d?w=400&h=300&fit=crop", // French bistro
+        "https://images.unsplash.com/photo-1571997478779-2adcbbe9ab2f?w=400&h=300&fit=crop", // French pastries
+      ],
+      Thai: [
+        "https://plus.unsplash.com/premium_photo-1669150852121-19bab9ca75f7?w=400&h=300&fit=crop", // Thai curry
+        "https://images.unsplash.com/photo-1582878826629-29b7ad1cdc43?w=400&h=300&fit=crop", // Thai food
+        "https://images.unsplash.com/photo-1675150277436-9c7348972c11?w=400&h=300&fit=crop", // Thai restaurant
+        "https://images.unsplash.com/photo-1637806930600-37fa8892069d?w=400&h=300&fit=crop", // Pad Thai
+      ],
+      Korean: [
+        "https://images.unsplash.com/photo-1565299507177-b0ac66763828?w=400&h=300&fit=crop", // Korean BBQ
+        "https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=400&h=300&fit=crop", // Korean food
+        "https://images.unsplash.com/photo-1598515214211-89d3c73ae83b?w=400&h=300&fit=crop", // Korean dishes
+        "https://images.unsplash.com/photo-1632558610168-8377309e34c7?w=400&h=300&fit=crop", // Korean BBQ grill
+      ],
+      Mediterranean: [
+        "https://images.unsplash.com/photo-1546833999-b9f581a1996d?w=400&h=300&fit=crop", // Mediterranean
+        "https://images.unsplash.com/photo-1554200876-56c2f25224fa?w=400&h=300&fit=crop", // Mediterranean food
+        "https://images.unsplash.com/photo-1578662996442-48f60103fc96?w=400&h=300&fit=crop", // Mediterranean cuisine
+        "https://images.unsplash.com/photo-1606735584785-1848fdcaea57?w=400&h=300&fit=crop", // Greek food
+      ],
+      Turkish: [
+        "https://images.unsplash.com/photo-1606577961562-7e2614b96132?w=400&h=300&fit=crop", // Turkish/Mediterranean food
+        "https://images.unsplash.com/photo-1653611540493-b3a896319fbf?w=400&h=300&fit=crop", // Mediterranean cuisine
+        "https://plus.unsplash.com/premium_photo-1661310070271-8dd22feaf3a7?w=400&h=300&fit=crop", // Turkish kebab
+        "https://images.unsplash.com/photo-1694192708388-7fa1198601af?w=400&h=300&fit=crop", // Grilled food
+      ],
+      Vegetarian: [
+        "https://images.unsplash.com/photo-1540420773420-3366772f4999?w=400&h=300&fit=crop", // Vegetarian salad
+        "https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=400&h=300&fit=crop", // Healthy bowl
+        "https://images.unsplash.com/photo-1511690743698-d9d85f2fbf38?w=400&h=300&fit=crop", // Plant-based food
+        "https://images.unsplash.com/photo-1561535893-bb7a98c7ee45?w=400&h=300&fit=crop", // Fresh vegetables
+      ],
+      "Fast Food": [
+        "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400&h=300&fit=crop", // Burger
+        "https://images.unsplash.com/photo-1594212699903-ec8a3eca50f5?w=400&h=300&fit=crop", // Fast food restaurant
+        "https://images.unsplash.com/photo-1586190848861-99aa4a171e90?w=400&h=300&fit=crop", // Fast casual
+        "https://images.unsplash.com/photo-1551782450-17144efb9c50?w=400&h=300&fit=crop", // French fries
+      ],
+      Cafe: [
+        "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop", // Coffee shop
+        "https://images.unsplash.com/photo-1648462908676-8305f0eff8e0?w=400&h=300&fit=crop", // Cafe interior
+        "https://images.unsplash.com/photo-1554118811-1e0d58224f24?w=400&h=300&fit=crop", // Coffee and pastries
+        "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop", // Coffee cup
+      ],
+      Coffee_shop: [
+        "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop", // Coffee shop
+        "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop", // Coffee cup
+        "https://images.unsplash.com/photo-1554118811-1e0d58224f24?w=400&h=300&fit=crop", // Coffee and pastries
+        "https://images.unsplash.com/photo-1512568400610-62da28bc8a13?w=400&h=300&fit=crop", // Espresso
+      ],
+      "Bubble_tea": [
+        "https://images.unsplash.com/photo-1572932759882-bb34c848d1b3?w=400&h=300&fit=crop", // Bubble tea
+        "https://images.unsplash.com/photo-1747016804753-866c3ed6b3b7?w=400&h=300&fit=crop", // Boba tea
+        "https://images.unsplash.com/photo-1616103425322-91736a8724a9?w=400&h=300&fit=crop", // Tea shop
+        "https://images.unsplash.com/photo-1619995757657-fb467a837ea2?w=400&h=300&fit=crop", // Asian drinks
+      ],
+      "Ice_cream": [
+        "https://images.unsplash.com/photo-1501443762994-82bd5dace89a?w=400&h=300&fit=crop", // Ice cream
+        "https://images.unsplash.com/photo-1570197788417-0e82375c9371?w=400&h=300&fit=crop", // Ice cream shop
+        "https://images.unsplash.com/photo-1488900128323-21503983a07e?w=400&h=300&fit=crop", // Ice cream cone
+        "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400&h=300&fit=crop", // Desserts
+      ],
+      "Bar & Grill": [
+        "https://images.unsplash.com/photo-1544148103-0773bf10d330?w=400&h=300&fit=crop", // Bar food
+        "https://images.unsplash.com/photo-1723744910323-f80fd8997a50?w=400&h=300&fit=crop", // Grill food
+        "https://images.unsplash.com/photo-1595295333158-4742f28fbd85?w=400&h=300&fit=crop", // Bar & grill
+        "https://images.unsplash.com/photo-1572448862527-d3c904757de6?w=400&h=300&fit=crop", // BBQ grill
+      ],
+    };
+
+    // Normalize cuisine for lookup
+    let normalizedCuisine = cuisine;
+
+    // Handle compound cuisines (e.g., "Ice_cream;burger")
+    if (cuisine.includes(';')) {
+      const parts = cuisine.split(';');
+      normalizedCuisine = parts[0]; // Use the first part
+    }
+
+    const cuisineKey = normalizedCuisine as keyof typeof cuisineImages;
+    const images = cuisineImages[cuisineKey] || [
+      "https://images.unsplash.com/photo-1540420773420-3366772f4999?w=400&h=300&fit=crop", // Generic restaurant
+      "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop", // Generic dining
+      "https://images.unsplash.com/photo-1551504734-5ee1c4a1479b?w=400&h=300&fit=crop", // Generic food
+      "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400&h=300&fit=crop", // Food spread
+    ];
+
+    const selectedImage = images[Math.floor(Math.random() * images.length)];
+    console.log(`Selected ${normalizedCuisine} image: ${selectedImage}`);
+    return selectedImage;
+  }
+
+  /**
+   * Get specific images based on restaurant name patterns (generic patterns only)
+   */
+  private static getImageFromRestaurantName(name: string): string | null {
+    const nameToImageMap: { [key: string]: string } = {
+      // Generic name patterns only - no specific brands
+      "shawarma": "https://images.unsplash.com/photo-1638537125835-82acb38d3531?w=400&h=300&fit=crop", // Middle Eastern
+      "coffee shop": "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop", // Coffee
+      "cafe": "https://images.unsplash.com/photo-1554118811-1e0d58224f24?w=400&h=300&fit=crop", // Cafe
+      "bakery": "https://plus.unsplash.com/premium_photo-1665669263531-cdcbe18e7fe4?w=400&h=300&fit=crop", // Bakery
+      "eatery": "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400&h=300&fit=crop", // General food
+      "lounge": "https://plus.unsplash.com/premium_photo-1661962950572-61c3b7b4d5ba?w=400&h=300&fit=crop", // Upscale dining
+    };
+
+    for (const [pattern, imageUrl] of Object.entries(nameToImageMap)) {
+      if (name.includes(pattern)) {
+        return imageUrl;
+      }
+    }
+
+    return null;
+  }
+}
@@ -1,136 +1,149 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Restaurant } from "../types/restaurant";
 import { LocationCoordinates, LocationService } from "./locationService";
+import { AvailabilityFilter, OpeningHoursService } from "./openingHoursService";
+import { CuisinePreferenceService, CuisinePreferences } from "./cuisinePreferenceService";
 import { SharedCacheService } from "./sharedCacheService";
+import { UsageMeterService } from "./usageMeterService";
+import { createLimiter } from "./concurrency";
+import { CoveragePlannerService, SearchArea, SearchTile } from "./coveragePlannerService";
 import { BlacklistService } from "./blacklistService";
-
-// Geoapify API key from environment variables
-const GEOAPIFY_API_KEY = process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY;
+import { RestaurantAttributeService } from "./restaurantAttributeService";
+import { DEFAULT_PLACE_PROVIDER, PlaceProvider, PlaceProviderService } from "./placeProvider";
+import { PlaceProviderError } from "./placeProviderError";
+import { RandomService } from "./randomService";
+import { DeckOrdering, DeckOrderingService } from "./deckOrderingService";
+import { SavedPlacesService } from "./savedPlacesService";
+import { SettingsService } from "./settingsService";
 
 // Cache configuration
 const CACHE_DURATION = 4 * 60 * 60 * 1000; // 4 hours in milliseconds (was 30 minutes)
 const CACHE_KEY_PREFIX = "restaurants_cache_";
 
-interface GeoapifyResponse {
-  type: string;
-  features: GeoapifyFeature[];
+interface CachedData {
+  timestamp: number;
+  restaurants: Restaurant[];
 }
 
-interface GeoapifyFeature {
-  type: string;
-  properties: {
-    feature_type?: string;
-    name?: string;
-    categories: string[];
-    catering?: {
-      cuisine?: string;
-    };
-    datasource: {
-      sourcename: string;
-      attribution?: string;
-      license?: string;
-      url?: string;
-      raw: {
-        name?: string;
-        osm_id?: number;
-        amenity?: string;
-        cuisine?: string;
-        osm_type?: string;
-        phone?: string;
-        website?: string;
-        opening_hours?: string;
-        [key: string]: any; // Allow additional properties
-      };
-    };
-    housenumber?: string;
-    street?: string;
-    city?: string;
-    county?: string;
-    state?: string;
-    postcode?: string;
-    country?: string;
-    country_code?: string;
-    formatted?: string;
-    address_line1?: string;
-    address_line2?: string;
-    lat?: number;
-    lon?: number;
-    distance?: number;
-    place_id: string;
-    timezone?: {
-      name: string;
-      offset_STD: string;
-      offset_STD_seconds: number;
-      offset_DST: string;
-      offset_DST_seconds: number;
-      abbreviation_STD: string;
-      abbreviation_DST: string;
-    };
-  };
-  geometry: {
-    type: string;
-    coordinates: [number, number]; // [longitude, latitude]
-  };
+/**
+ * Where a deck's restaurants came from
+ */
+export type DeckSource = "live" | "cache" | "demo";
+
+/**
+ * A deck, or the reason one couldn't be built
+ */
+export type DeckResult =
+  | { ok: true; restaurants: Restaurant[]; source: DeckSource; error?: PlaceProviderError } // Some searches failed, so restaurants may be missing
+  | { ok: false; error: PlaceProviderError };
+
+export interface DeckMergeResult {
+  deck: Restaurant[];
+  added: number;
+  removed: number;
 }
 
-interface CachedData {
-  timestamp: number;
+/**
+ * Per-user filters applied when building the swipe deck.
+ * Caches always store the unfiltered results.
+ */
+export interface DeckOptions {
+  availability?: AvailabilityFilter;
+  cuisinePreferences?: CuisinePreferences;
+  seed?: number | string; // Same restaurants + same seed = same deck order, on any device
+  ordering?: DeckOrdering; // Defaults to random
+}
+
+export interface FetchOptions {
+  signal?: AbortSignal; // Aborting cancels every outstanding search; the result is then a "cancelled" error
+  onPartialResults?: (restaurants: Restaurant[]) => void; // Wide searches report the deck so far as each search finishes
+}
+
+/**
+ * One ring of a deck paged in from the location outwards
+ */
+export interface RingResult {
+  deck: DeckResult;
+  found: Restaurant[]; // Everything in the ring before the deck filters, for caching the whole area
+}
+
+// What a tiled search found, and the first error if some of its searches failed
+interface AreaSearchResult {
   restaurants: Restaurant[];
+  error: PlaceProviderError | null;
 }
 
+// Searches a wide fetch keeps in flight at once; the HTTP client's rate limit still applies
+const CUMULATIVE_FETCH_CONCURRENCY = 3;
+
 export class RestaurantService {
   /**
-   * Fetch nearby restaurants using Geoapify Places API with cumulative ring-based caching
+   * Fetch nearby restaurants from the active place provider, searching wide radii tile by tile.
+   * Failures come back as a typed error; demo data is only used when asked for via fetchDemoRestaurants.
    */
   static async fetchNearbyRestaurants(
     location: LocationCoordinates,
     radiusInMeters: number = 5000, // Default 5km radius
     maxResults: number = 500,
-    forceRefresh: boolean = false // New parameter to force fresh data
-  ): Promise<Restaurant[]> {
+    forceRefresh: boolean = false, // New parameter to force fresh data
+    options: DeckOptions = {},
+    fetchOptions: FetchOptions = {}
+  ): Promise<DeckResult> {
+    let provider: PlaceProvider | null = null;
     try {
-      // Use cumulative ring-based approach for larger radii
+      provider = await PlaceProviderService.getActiveProvider();
+
+      // Tile larger radii so no part of the area is cut off
       if (radiusInMeters > 10000) {
-        return await this.fetchCumulativeRestaurants(location, radiusInMeters, maxResults, forceRefresh);
+        return await this.fetchCumulativeRestaurants(
+          provider,
+          location,
+          radiusInMeters,
+          maxResults,
+          forceRefresh,
+          options,
+          fetchOptions
+        );
       }
 
       // If not forcing refresh, check caches first (local, then shared)
       if (!forceRefresh) {
         // Check local cache first (fastest)
         const localCachedRestaurants = await this.getCachedRestaurants(
+          provider,
           location,
           radiusInMeters
         );
         if (localCachedRestaurants) {
           console.log('Using local cache');
           const filteredLocalRestaurants = await BlacklistService.filterBlacklistedRestaurants(localCachedRestaurants);
-          return this.shuffleArray(filteredLocalRestaurants);
+          return this.toDeckResult(filteredLocalRestaurants, "cache", options, location, radiusInMeters);
         }
 
         // Check shared cache if local cache miss
-        const sharedCachedRestaurants = await SharedCacheService.getSharedCache(
-          location,
-          radiusInMeters
-        );
+        const sharedCachedRestaurants = provider.sharesCache
+          ? await SharedCacheService.getSharedCache(location, radiusInMeters)
+          : null;
         if (sharedCachedRestaurants && sharedCachedRestaurants.length > 0) {
           console.log('Using shared cache, updating local cache');
           const filteredSharedRestaurants = await BlacklistService.filterBlacklistedRestaurants(sharedCachedRestaurants);
           // Store shared cache data locally for faster future access
-          await this.cacheRestaurants(location, radiusInMeters, filteredSharedRestaurants);
-          return this.shuffleArray(filteredSharedRestaurants);
+          await this.cacheRestaurants(provider, location, radiusInMeters, filteredSharedRestaurants);
+          return this.toDeckResult(filteredSharedRestaurants, "cache", options, location, radiusInMeters);
         }
       }
 
-      if (!GEOAPIFY_API_KEY) {
-        console.warn("Geoapify API key not configured, using mock data");
-        return this.getMockRestaurantsWithRandomOrder();
+      if (!provider.isConfigured()) {
+        console.warn(`${provider.name} not configured`);
+        return { ok: false, error: new PlaceProviderError("missing_api_key", `${provider.name} not configured`) };
       }
 
-      // Fetch from Geoapify
-      const restaurants = await this.fetchFromGeoapify(
+      // Fetch from the place provider
+      const restaurants = await provider.searchInCircle(
         location,
         radiusInMeters,
-        Math.min(maxResults, 500) // Respect API limit of 500
+        Math.min(maxResults, provider.maxResultsPerSearch), // Respect the provider's page limit
+        { signal: fetchOptions.signal }
       );
 
       if (restaurants.length > 0) {
@@ -138,1001 +151,452 @@ export class RestaurantService {
         const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(restaurants);
 
         // Cache the results locally and in shared cache
-        await Promise.all([
-          this.cacheRestaurants(location, radiusInMeters, filteredRestaurants),
-          SharedCacheService.setSharedCache(location, radiusInMeters, filteredRestaurants)
-        ]);
-        return this.shuffleArray(filteredRestaurants);
+        await this.storeInCaches(provider, location, radiusInMeters, filteredRestaurants);
+        return this.toDeckResult(filteredRestaurants, this.getLiveSource(provider), options, location, radiusInMeters);
       }
 
       // If no fresh restaurants found and we forced refresh, fall back to cached data
       if (forceRefresh) {
         const cachedRestaurants = await this.getCachedRestaurants(
+          provider,
           location,
           radiusInMeters
         );
         if (cachedRestaurants) {
           console.log("No new restaurants found, returning shuffled cached data");
           const filteredCachedRestaurants = await BlacklistService.filterBlacklistedRestaurants(cachedRestaurants);
-          return this.shuffleArray(filteredCachedRestaurants);
+          return this.toDeckResult(filteredCachedRestaurants, "cache", options, location, radiusInMeters);
         }
       }
 
-      // Fallback to mock data
-      console.warn("No restaurants found, using mock data");
-      const mockData = this.getMockRestaurantsWithRandomOrder();
-      return await BlacklistService.filterBlacklistedRestaurants(mockData);
+      console.warn("No restaurants found");
+      return { ok: true, restaurants: [], source: this.getLiveSource(provider) };
     } catch (error) {
-      console.error("Error fetching nearby restaurants:", error);
-      const mockData = this.getMockRestaurantsWithRandomOrder();
-      return await BlacklistService.filterBlacklistedRestaurants(mockData);
+      const placeError = PlaceProviderError.from(error);
+      if (placeError.kind === "cancelled") {
+        return { ok: false, error: placeError };
+      }
+      console.error("Error fetching nearby restaurants:", placeError);
+
+      // Older real data beats an error screen
+      const cachedRestaurants = provider ? await this.getCachedRestaurants(provider, location, radiusInMeters) : null;
+      if (cachedRestaurants) {
+        const filteredCachedRestaurants = await BlacklistService.filterBlacklistedRestaurants(cachedRestaurants);
+        return this.toDeckResult(filteredCachedRestaurants, "cache", options, location, radiusInMeters);
+      }
+      return { ok: false, error: placeError };
     }
   }
 
   /**
-   * Fetch restaurants using cumulative ring-based approach with smart offset centers
-   * For each ring, try one call from center first. Only use offset centers if API returns exactly 500 (truncated).
-   * Zone A (0-10km): single call from original point
-   * Zone B (10-20km): center call first, then 6 offset centers at 15km if truncated
-   * Zone C (20-30km): center call first, then 6 offset centers at 25km if truncated
+   * Fetch restaurants for a wide radius with as few searches as the area needs, see searchArea.
+   * The deck keeps the maxResults restaurants closest to the location. When some searches fail,
+   * the others' restaurants come back with the error and aren't cached.
    */
   private static async fetchCumulativeRestaurants(
+    provider: PlaceProvider,
     location: LocationCoordinates,
     radiusInMeters: number,
     maxResults: number,
-    forceRefresh: boolean
-  ): Promise<Restaurant[]> {
+    forceRefresh: boolean,
+    options: DeckOptions,
+    fetchOptions: FetchOptions
+  ): Promise<DeckResult> {
     console.log(`Using cumulative approach for ${radiusInMeters}m radius`);
 
     // Check for cached cumulative results first (unless forcing refresh)
     if (!forceRefresh) {
-      const cachedCumulative = await this.getCachedRestaurants(location, radiusInMeters);
+      const cachedCumulative = await this.getCachedRestaurants(provider, location, radiusInMeters);
       if (cachedCumulative && cachedCumulative.length > 0) {
         console.log(`Using cached cumulative results for ${radiusInMeters}m radius (${cachedCumulative.length} restaurants)`);
         const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(cachedCumulative);
-        return this.shuffleArray(filteredRestaurants);
-      }
-    }
-
-    const allRestaurants: Restaurant[] = [];
-    const seenIds = new Set<string>();
-
-    // Zone A (0-10km): single call from original point
-    if (radiusInMeters >= 10000) {
-      console.log('Fetching Zone A (0-10km) from original center');
-      const zoneARestaurants = await this.fetchFreshRestaurants(location, 10000, maxResults, Array.from(seenIds));
-
-      // Add all Zone A restaurants to results and seenIds
-      for (const restaurant of zoneARestaurants) {
-        if (!seenIds.has(restaurant.id)) {
-          seenIds.add(restaurant.id);
-          allRestaurants.push(restaurant);
-        }
-      }
-      console.log(`Zone A: Added ${zoneARestaurants.length} restaurants`);
-    }
-
-    // Zone B (10-20km): try center first, then offset centers if truncated
-    if (radiusInMeters >= 20000) {
-      console.log('Fetching Zone B (10-20km)');
-
-      // First try a call from the original center with 20km radius
-      const centerResults = await this.fetchFreshRestaurants(location, 20000, maxResults, Array.from(seenIds));
-
-      // Filter to only restaurants in the 10-20km ring
-      const zoneBFromCenter = this.filterRestaurantsByRing(centerResults, location, 10000, 20000);
-
-      // Add center results to main collection
-      for (const restaurant of zoneBFromCenter) {
-        if (!seenIds.has(restaurant.id)) {
-          seenIds.add(restaurant.id);
-          allRestaurants.push(restaurant);
-        }
-      }
-
-      console.log(`Zone B center call: ${centerResults.length} total, ${zoneBFromCenter.length} in ring`);
-
-      // If API returned exactly 500 results, assume truncation and use offset centers
-      if (centerResults.length === 500) {
-        console.log('Zone B appears truncated (500 results), using offset centers for additional coverage');
-        const offsetCenters = this.getOffsetSearchCenters(location, 15);
-
-        for (const [index, center] of offsetCenters.entries()) {
-          console.log(`Zone B offset center ${index + 1}: (${center.latitude.toFixed(4)}, ${center.longitude.toFixed(4)})`);
-
-          // Fetch from this offset center with 10km radius
-          const centerRestaurants = await this.fetchFreshRestaurants(center, 10000, maxResults, Array.from(seenIds));
-
-          // Filter to only restaurants in the 10-20km ring from original location
-          const ringRestaurants = this.filterRestaurantsByRing(centerRestaurants, location, 10000, 20000);
-
-          // Add to results and seenIds
-          for (const restaurant of ringRestaurants) {
-            if (!seenIds.has(restaurant.id)) {
-              seenIds.add(restaurant.id);
-              allRestaurants.push(restaurant);
-            }
-          }
-          console.log(`Zone B offset ${index + 1}: ${centerRestaurants.length} total, ${ringRestaurants.length} in ring, ${ringRestaurants.filter(r => !seenIds.has(r.id)).length} new`);
-        }
-      } else {
-        console.log(`Zone B appears complete (${centerResults.length} < 500 results), skipping offset centers`);
-      }
-    }
-
-    // Zone C (20-30km): try center first, then offset centers if truncated
-    if (radiusInMeters >= 30000) {
-      console.log('Fetching Zone C (20-30km)');
-
-      // First try a call from the original center with 30km radius
-      const centerResults = await this.fetchFreshRestaurants(location, 30000, maxResults, Array.from(seenIds));
-
-      // Filter to only restaurants in the 20-30km ring
-      const zoneCFromCenter = this.filterRestaurantsByRing(centerResults, location, 20000, 30000);
-
-      // Add center results to main collection
-      for (const restaurant of zoneCFromCenter) {
-        if (!seenIds.has(restaurant.id)) {
-          seenIds.add(restaurant.id);
-          allRestaurants.push(restaurant);
-        }
-      }
-
-      console.log(`Zone C center call: ${centerResults.length} total, ${zoneCFromCenter.length} in ring`);
-
-      // If API returned exactly 500 results, assume truncation and use offset centers
-      if (centerResults.length === 500) {
-        console.log('Zone C appears truncated (500 results), using offset centers for additional coverage');
-        const offsetCenters = this.getOffsetSearchCenters(location, 25);
-
-        for (const [index, center] of offsetCenters.entries()) {
-          console.log(`Zone C offset center ${index + 1}: (${center.latitude.toFixed(4)}, ${center.longitude.toFixed(4)})`);
-
-          // Fetch from this offset center with 10km radius
-          const centerRestaurants = await this.fetchFreshRestaurants(center, 10000, maxResults, Array.from(seenIds));
-
-          // Filter to only restaurants in the 20-30km ring from original location
-          const ringRestaurants = this.filterRestaurantsByRing(centerRestaurants, location, 20000, 30000);
-
-          // Add to results and seenIds
-          for (const restaurant of ringRestaurants) {
-            if (!seenIds.has(restaurant.id)) {
-              seenIds.add(restaurant.id);
-              allRestaurants.push(restaurant);
-            }
-          }
-          console.log(`Zone C offset ${index + 1}: ${centerRestaurants.length} total, ${ringRestaurants.length} in ring, ${ringRestaurants.filter(r => !seenIds.has(r.id)).length} new`);
-        }
-      } else {
-        console.log(`Zone C appears complete (${centerResults.length} < 500 results), skipping offset centers`);
+        return this.toDeckResult(
+          this.keepNearest(filteredRestaurants, location, maxResults),
+          "cache",
+          options,
+          location,
+          radiusInMeters
+        );
       }
     }
 
-    console.log(`Cumulative result: ${allRestaurants.length} total restaurants from all zones`);
+    const { restaurants, error } = await this.searchArea(provider, location, 0, radiusInMeters, fetchOptions, (found) =>
+      this.prepareDeck(this.keepNearest(found, location, maxResults), options, location, radiusInMeters)
+    );
+    console.log(`Cumulative result: ${restaurants.length} total restaurants from all tiles`);
 
-    // Cache the complete cumulative results with the original requested radius
-    if (allRestaurants.length > 0) {
-      await Promise.all([
-        this.cacheRestaurants(location, radiusInMeters, allRestaurants),
-        SharedCacheService.setSharedCache(location, radiusInMeters, allRestaurants)
-      ]);
+    // Cache only complete results, with the original requested radius; a partial deck is searched again next time
+    if (restaurants.length > 0 && !error) {
+      await this.storeInCaches(provider, location, radiusInMeters, restaurants);
       console.log(`Cached cumulative results for ${radiusInMeters}m radius`);
     }
 
     // Filter blacklisted and return shuffled results
-    const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(allRestaurants);
-    return this.shuffleArray(filteredRestaurants);
+    const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(restaurants);
+    const deck = this.toDeckResult(
+      this.keepNearest(filteredRestaurants, location, maxResults),
+      this.getLiveSource(provider),
+      options,
+      location,
+      radiusInMeters
+    );
+    return error ? { ...deck, error } : deck;
   }
 
   /**
-   * Generate 6 offset search centers at specified distance using haversine formula
-   * Returns centers at 0°, 60°, 120°, 180°, 240°, 300° bearings
+   * Fetch the restaurants between two radii, for a deck paged in ring by ring. Searches that lie
+   * wholly inside the inner radius are skipped, and nothing is cached: once the last ring is in, the
+   * caller can cache the whole area with cacheAreaRestaurants. found holds the ring's restaurants
+   * before the deck filters, empty when the ring failed.
    */
-  private static getOffsetSearchCenters(
-    originalCenter: LocationCoordinates,
-    offsetDistanceKm: number
-  ): LocationCoordinates[] {
-    const centers: LocationCoordinates[] = [];
-
-    // 6 bearings evenly distributed around the circle
-    const bearings = [0, 60, 120, 180, 240, 300];
-
-    // Earth's radius in kilometers
-    const earthRadiusKm = 6371;
-
-    // Convert original coordinates to radians
-    const lat1Rad = (originalCenter.latitude * Math.PI) / 180;
-    const lon1Rad = (originalCenter.longitude * Math.PI) / 180;
-
-    // Distance ratio
-    const distanceRatio = offsetDistanceKm / earthRadiusKm;
-
-    for (const bearing of bearings) {
-      // Convert bearing to radians
-      const bearingRad = (bearing * Math.PI) / 180;
-
-      // Calculate new latitude using haversine formula
-      const lat2Rad = Math.asin(
-        Math.sin(lat1Rad) * Math.cos(distanceRatio) +
-        Math.cos(lat1Rad) * Math.sin(distanceRatio) * Math.cos(bearingRad)
-      );
-
-      // Calculate new longitude using haversine formula
-      const lon2Rad = lon1Rad + Math.atan2(
-        Math.sin(bearingRad) * Math.sin(distanceRatio) * Math.cos(lat1Rad),
-        Math.cos(distanceRatio) - Math.sin(lat1Rad) * Math.sin(lat2Rad)
-      );
-
-      // Convert back to degrees
-      const offsetCenter = {
-        latitude: (lat2Rad * 180) / Math.PI,
-        longitude: (lon2Rad * 180) / Math.PI
-      };
-
-      centers.push(offsetCenter);
-    }
-
-    console.log(`Generated ${centers.length} offset centers at ${offsetDistanceKm}km distance`);
-    return centers;
-  }
-
-  /**
-   * Filter restaurants to only those within a specific ring (minRadius < distance <= maxRadius)
-   */
-  private static filterRestaurantsByRing(
-    restaurants: Restaurant[],
-    center: LocationCoordinates,
-    minRadiusMeters: number,
-    maxRadiusMeters: number
-  ): Restaurant[] {
-    return restaurants.filter(restaurant => {
-      const distance = LocationService.calculateDistance(
-        center,
-        { latitude: restaurant.latitude, longitude: restaurant.longitude }
-      ) * 1000; // Convert km to meters
-
-      return distance > minRadiusMeters && distance <= maxRadiusMeters;
-    });
-  }
-
-  /**
-   * Fetch fresh restaurants, trying to avoid already seen ones
-   */
-  static async fetchFreshRestaurants(
+  static async fetchRing(
     location: LocationCoordinates,
-    radiusInMeters: number = 5000,
-    maxResults: number = 500,
-    seenRestaurantIds: string[] = []
-  ): Promise<Restaurant[]> {
+    innerRadiusInMeters: number,
+    outerRadiusInMeters: number,
+    options: DeckOptions = {},
+    fetchOptions: FetchOptions = {}
+  ): Promise<RingResult> {
     try {
-      if (!GEOAPIFY_API_KEY) {
-        console.warn("Geoapify API key not configured, using mock data");
-        const mockRestaurants = this.getMockRestaurantsWithRandomOrder().filter(
-          restaurant => !seenRestaurantIds.includes(restaurant.id)
-        );
-        return await BlacklistService.filterBlacklistedRestaurants(mockRestaurants);
+      const provider = await PlaceProviderService.getActiveProvider();
+      if (!provider.isConfigured()) {
+        console.warn(`${provider.name} not configured`);
+        const error = new PlaceProviderError("missing_api_key", `${provider.name} not configured`);
+        return { deck: { ok: false, error }, found: [] };
       }
 
-      // Fetch restaurants within user's specified radius only
-      let restaurants = await this.fetchFromGeoapify(
+      const { restaurants, error } = await this.searchArea(
+        provider,
         location,
-        radiusInMeters, // Respect user's max radius setting
-        Math.min(maxResults * 3, 500) // Fetch more to ensure we have enough after filtering, up to API limit
+        innerRadiusInMeters,
+        outerRadiusInMeters,
+        fetchOptions,
+        (found) => this.prepareDeck(found, options, location, outerRadiusInMeters)
       );
-
-      // Filter out already seen restaurants and blacklisted ones
-      const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(restaurants);
-      const unseenRestaurants = filteredRestaurants.filter(
-        restaurant => !seenRestaurantIds.includes(restaurant.id)
-      );
-
-      console.log(`Fresh fetch: Found ${restaurants.length} total, ${filteredRestaurants.length} after blacklist filter, ${unseenRestaurants.length} unseen`);
-
-      if (unseenRestaurants.length > 0) {
-        // Cache the new results both locally and in shared cache
-        await Promise.all([
-          this.cacheRestaurants(location, radiusInMeters, filteredRestaurants),
-          SharedCacheService.setSharedCache(location, radiusInMeters, filteredRestaurants)
-        ]);
-
-        // Ensure we return at least a reasonable number of restaurants
-        const restaurantsToReturn = unseenRestaurants.slice(0, Math.max(maxResults, 10));
-        console.log(`Returning ${restaurantsToReturn.length} fresh restaurants`);
-        return this.shuffleArray(restaurantsToReturn);
-      }
-
-
-      // If still no luck, return cached data excluding seen ones
-      const cachedRestaurants = await this.getCachedRestaurants(location, radiusInMeters);
-      if (cachedRestaurants) {
-        const filteredCached = await BlacklistService.filterBlacklistedRestaurants(cachedRestaurants);
-        const unseenCached = filteredCached.filter(
-          restaurant => !seenRestaurantIds.includes(restaurant.id)
-        );
-        if (unseenCached.length > 0) {
-          return this.shuffleArray(unseenCached);
-        }
-      }
-
-      // Last resort: return shuffled cached data (repeating restaurants)
-      if (cachedRestaurants) {
-        const filteredFallback = await BlacklistService.filterBlacklistedRestaurants(cachedRestaurants);
-        return this.shuffleArray(filteredFallback);
-      }
-
-      const mockData = this.getMockRestaurantsWithRandomOrder();
-      return await BlacklistService.filterBlacklistedRestaurants(mockData);
+      const found = await BlacklistService.filterBlacklistedRestaurants(restaurants);
+      const deck = this.toDeckResult(found, this.getLiveSource(provider), options, location, outerRadiusInMeters);
+      return { deck: error ? { ...deck, error } : deck, found };
     } catch (error) {
-      console.error("Error fetching fresh restaurants:", error);
-      const mockData = this.getMockRestaurantsWithRandomOrder();
-      return await BlacklistService.filterBlacklistedRestaurants(mockData);
+      const placeError = PlaceProviderError.from(error);
+      if (placeError.kind !== "cancelled") {
+        console.error(`Error fetching restaurants ${innerRadiusInMeters}-${outerRadiusInMeters}m away:`, placeError);
+      }
+      return { deck: { ok: false, error: placeError }, found: [] };
     }
   }
 
   /**
-   * Fetch restaurants from Geoapify Places API
+   * Search the ring between two radii (a full circle when the inner radius is 0) with as few searches as
+   * it needs. The coverage planner picks the first searches, sized to the provider's page; wherever one
+   * comes back with a full page (so results were probably cut off) that tile is searched again as a
+   * hexagon of smaller tiles, as far down as the request budget allows. Searches share one queue of at most
+   * CUMULATIVE_FETCH_CONCURRENCY at a time, and toDeck(restaurants so far) is reported through
+   * onPartialResults as each one finishes.
+   * A failed search leaves its tile out and its error in the result; it is only thrown when nothing was found.
    */
-  private static async fetchFromGeoapify(
+  private static async searchArea(
+    provider: PlaceProvider,
     location: LocationCoordinates,
+    innerRadiusInMeters: number,
     radiusInMeters: number,
-    maxResults: number
-  ): Promise<Restaurant[]> {
-    try {
-      // Geoapify Places API endpoint
-      const categories =
-        "catering.restaurant,catering.fast_food,catering.cafe,catering.bar";
-      const url = `https://api.geoapify.com/v2/places?categories=${categories}&filter=circle:${location.longitude},${location.latitude},${radiusInMeters}&bias=proximity:${location.longitude},${location.latitude}&limit=${maxResults}&apiKey=${GEOAPIFY_API_KEY}`;
-
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`Geoapify API error: ${response.status}`);
+    fetchOptions: FetchOptions,
+    toDeck: (restaurants: Restaurant[]) => Restaurant[]
+  ): Promise<AreaSearchResult> {
+    const area: SearchArea = { center: location, radiusInMeters };
+    const allRestaurants: Restaurant[] = [];
+    const seenIds = new Set<string>();
+    const limit = createLimiter(CUMULATIVE_FETCH_CONCURRENCY);
+
+    // Cancelled when the caller aborts, or when a search fails in a way the rest would too
+    const controller = new AbortController();
+    const { signal } = controller;
+    const abort = () => controller.abort();
+    fetchOptions.signal?.addEventListener("abort", abort);
+    if (fetchOptions.signal?.aborted) abort();
+
+    const failure: { error: PlaceProviderError | null } = { error: null };
+    const search = (tile: SearchTile) =>
+      limit(() => this.searchTile(provider, tile, signal), signal).catch((error) => {
+        const placeError = PlaceProviderError.from(error);
+        failure.error = failure.error ?? placeError;
+        // A rejected key or a bad response fails every search; a flaky one only loses its own tile
+        if (!placeError.isRetryable) abort();
+        throw placeError;
+      });
+
+    // Tiles inside the inner radius were searched for an earlier ring
+    const reachesRing = (tile: SearchTile) =>
+      CoveragePlannerService.distanceInMeters(location, tile.center) + tile.radiusInMeters > innerRadiusInMeters;
+
+    // Add the restaurants from one search that fall in the ring, then report the deck so far
+    const addResults = async (tile: SearchTile, restaurants: Restaurant[]) => {
+      const newRestaurants = restaurants.filter((restaurant) => {
+        const distance = CoveragePlannerService.distanceInMeters(location, restaurant);
+        const isInRing = distance <= radiusInMeters && (innerRadiusInMeters === 0 || distance > innerRadiusInMeters);
+        return !seenIds.has(restaurant.id) && isInRing;
+      });
+      for (const restaurant of newRestaurants) {
+        seenIds.add(restaurant.id);
+        allRestaurants.push(restaurant);
       }
+      console.log(`Tile ${this.describeTile(tile)}: ${restaurants.length} found, ${newRestaurants.length} new`);
 
-      const data: GeoapifyResponse = await response.json();
-
-      // Log raw API response for debugging
-      console.log("=== GEOAPIFY API RESPONSE ===");
-      console.log("Total features returned:", data.features.length);
-
-      // Convert Geoapify features to restaurants (basic info only)
-      const restaurants = data.features
-        .filter((feature) => feature.properties.name && typeof feature.properties.name === 'string') // Only include places with valid names
-        .map((feature, index) => {
-          console.log(`\n--- Restaurant ${index + 1} RAW DATA ---`);
-          console.log("Full feature object:", JSON.stringify(feature, null, 2));
-
-          const restaurant = this.convertGeoapifyFeatureToRestaurant(feature, location);
-
-          console.log(`\n--- Restaurant ${index + 1} CONVERTED DATA ---`);
-          console.log("Converted restaurant object:", JSON.stringify(restaurant, null, 2));
-
-          return restaurant;
-        });
-
-      return restaurants;
-    } catch (error) {
-      console.error("Error fetching from Geoapify:", error);
-      return [];
-    }
-  }
-
-  /**
-   * Fetch detailed restaurant information when user selects a restaurant
-   */
-  static async fetchRestaurantDetails(restaurantId: string, userLocation?: LocationCoordinates): Promise<Restaurant | null> {
-    try {
-      if (!GEOAPIFY_API_KEY) {
-        console.warn("Geoapify API key not configured, cannot fetch details");
-        return null;
+      if (fetchOptions.onPartialResults && newRestaurants.length > 0 && !signal.aborted) {
+        const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(allRestaurants);
+        fetchOptions.onPartialResults(toDeck(filteredRestaurants));
       }
+    };
 
-      const detailsUrl = `https://api.geoapify.com/v2/place-details?id=${restaurantId}&apiKey=${GEOAPIFY_API_KEY}`;
-
-      console.log(`\n=== FETCHING RESTAURANT DETAILS ===`);
-      console.log(`Place ID: ${restaurantId}`);
+    const fetchTile = async (tile: SearchTile): Promise<void> => {
+      const restaurants = await search(tile);
+      await addResults(tile, restaurants);
 
-      const response = await fetch(detailsUrl);
+      // A full page means the provider probably left some out
+      if (restaurants.length < provider.maxResultsPerSearch) return;
 
-      if (!response.ok) {
-        console.warn(`Place Details API error: ${response.status}`);
-        return null;
+      const tiles = CoveragePlannerService.subdivide(tile, area).filter(reachesRing);
+      if (tiles.length === 0) {
+        console.log(`Tile ${this.describeTile(tile)} is still full at the smallest tile size`);
+        return;
       }
+      if (!(await this.canFanOut(provider, tiles.length))) return;
 
-      const detailsData = await response.json();
-      console.log("Place Details API response:", JSON.stringify(detailsData, null, 2));
-
-      if (detailsData.features && detailsData.features.length > 0) {
-        // Use provided user location or fallback to dummy location if not available
-        const locationForDistance = userLocation || { latitude: 0, longitude: 0 };
-        const detailedRestaurant = this.convertDetailedFeatureToRestaurant(detailsData.features[0], locationForDistance);
+      console.log(`Tile ${this.describeTile(tile)} looks truncated, searching it as ${tiles.length} smaller tiles`);
+      await Promise.allSettled(tiles.map(fetchTile));
+    };
 
-        console.log("Detailed restaurant data:", JSON.stringify(detailedRestaurant, null, 2));
-        return detailedRestaurant;
-      }
+    // Tiles expected to hold about a page each, or one search for the whole area if the budget can't cover them
+    let tiles = CoveragePlannerService.planCoverage(
+      location,
+      radiusInMeters,
+      CoveragePlannerService.getTileRadius(provider.maxResultsPerSearch)
+    ).filter(reachesRing);
+    if (tiles.length > 1 && !(await this.canFanOut(provider, tiles.length))) {
+      tiles = CoveragePlannerService.planCoverage(location, radiusInMeters);
+    }
 
-      return null;
-    } catch (error) {
-      console.error("Error fetching restaurant details:", error);
-      return null;
+    // Wait for every search to stop, even after a failure, so none outlives the fetch
+    await Promise.allSettled(tiles.map(fetchTile));
+    fetchOptions.signal?.removeEventListener("abort", abort);
+    if (fetchOptions.signal?.aborted) {
+      throw new PlaceProviderError("cancelled", "Search was cancelled");
+    }
+    if (failure.error && allRestaurants.length === 0) {
+      throw failure.error;
+    }
+    if (failure.error) {
+      console.warn(`Some tile searches failed, keeping the ${allRestaurants.length} restaurants found:`, failure.error);
     }
+    return { restaurants: allRestaurants, error: failure.error };
   }
 
   /**
-   * Fetch detailed place information using Geoapify Place Details API (internal method)
+   * The maxResults restaurants closest to the location, all of them if there are no more than that
    */
-  private static async fetchPlaceDetails(
-    feature: GeoapifyFeature,
-    userLocation: LocationCoordinates
-  ): Promise<Restaurant> {
-    try {
-      const placeId = feature.properties.place_id;
-      const detailsUrl = `https://api.geoapify.com/v2/place-details?id=${placeId}&apiKey=${GEOAPIFY_API_KEY}`;
-
-      console.log(`Fetching details for place ID: ${placeId}`);
-
-      const response = await fetch(detailsUrl);
-
-      if (!response.ok) {
-        console.warn(`Place Details API error: ${response.status}, falling back to basic data`);
-        return this.convertGeoapifyFeatureToRestaurant(feature, userLocation);
-      }
-
-      const detailsData = await response.json();
-      console.log("Place Details API response:", JSON.stringify(detailsData, null, 2));
-
-      // Use detailed data if available, otherwise fall back to basic conversion
-      if (detailsData.features && detailsData.features.length > 0) {
-        return this.convertDetailedFeatureToRestaurant(detailsData.features[0], userLocation);
-      } else {
-        return this.convertGeoapifyFeatureToRestaurant(feature, userLocation);
-      }
-    } catch (error) {
-      console.error("Error fetching place details:", error);
-      // Fall back to basic conversion if details fetch fails
-      return this.convertGeoapifyFeatureToRestaurant(feature, userLocation);
-    }
+  private static keepNearest(restaurants: Restaurant[], location: LocationCoordinates, maxResults: number): Restaurant[] {
+    if (restaurants.length <= maxResults) return restaurants;
+    const distances = new Map(
+      restaurants.map((restaurant) => [restaurant.id, CoveragePlannerService.distanceInMeters(location, restaurant)])
+    );
+    return [...restaurants].sort((a, b) => distances.get(a.id)! - distances.get(b.id)!).slice(0, maxResults);
   }
 
   /**
-   * Convert detailed Geoapify feature to our Restaurant interface
+   * Whether the request budget leaves room for splitting a truncated tile
    */
-  private static convertDetailedFeatureToRestaurant(
-    feature: GeoapifyFeature,
-    userLocation: LocationCoordinates
-  ): Restaurant {
-    const [longitude, latitude] = feature.geometry.coordinates;
-
-    const props = feature.properties;
-    const raw = props.datasource?.raw || {};
-
-    // Extract address from the new API format
-    let address: string | undefined;
-    if (props.formatted) {
-      address = props.formatted;
-    } else if (props.address_line1 && props.address_line2) {
-      address = `${props.address_line1}, ${props.address_line2}`;
-    } else {
-      // Build address from individual components
-      const addressComponents = [
-        props.housenumber,
-        props.street,
-        props.city,
-        props.state,
-        props.postcode,
-        props.country
-      ].filter(Boolean);
-      address = addressComponents.length > 0 ? addressComponents.join(", ") : undefined;
+  private static async canFanOut(provider: PlaceProvider, requests: number): Promise<boolean> {
+    const budget = await UsageMeterService.checkBudget(provider.id, requests);
+    if (!budget.allowed) {
+      const used = budget.exceeded === "daily" ? budget.usage.today : budget.usage.thisMonth;
+      const limit = budget.exceeded === "daily" ? budget.dailyBudget : budget.monthlyBudget;
+      console.warn(`Skipping ${requests} tile searches: ${used} of ${limit} ${budget.exceeded} ${provider.name} requests used`);
     }
-
-    // Extract phone number
-    const phoneNumber = raw.phone || undefined;
-
-    // Extract opening hours
-    const openingHours = raw.opening_hours || undefined;
-
-    // Generate a realistic rating
-    const rating = Math.round((3.5 + Math.random() * 1.3) * 10) / 10;
-
-    return {
-      id: props.place_id,
-      name: props.name || "Restaurant",
-      cuisine: this.extractCuisineFromGeoapify(feature),
-      image: this.getCuisineSpecificImage(this.extractCuisineFromGeoapify(feature), props.name),
-      rating: rating,
-      latitude: latitude,
-      longitude: longitude,
-      description: this.generateGeoapifyDescription(feature),
-      address: address,
-      phoneNumber: phoneNumber,
-      priceRange: this.generateRandomPriceRange(),
-      isOpen: undefined, // Could be determined from opening_hours if needed
-      hours: openingHours,
-      dataSource: 'api' as const,
-    };
+    return budget.allowed;
   }
 
   /**
-   * Convert Geoapify feature to our Restaurant interface (fallback method)
+   * One tile of a cumulative fetch, asking for a full page so truncation shows. Errors are thrown as
+   * PlaceProviderErrors.
    */
-  private static convertGeoapifyFeatureToRestaurant(
-    feature: GeoapifyFeature,
-    userLocation: LocationCoordinates
-  ): Restaurant {
-    const [longitude, latitude] = feature.geometry.coordinates;
-
-    const props = feature.properties;
-    const raw = props.datasource?.raw || {};
-
-    // Extract address from the new API format (same logic as detailed method)
-    let address: string | undefined;
-    if (props.formatted) {
-      address = props.formatted;
-    } else if (props.address_line1 && props.address_line2) {
-      address = `${props.address_line1}, ${props.address_line2}`;
-    } else {
-      // Build address from individual components
-      const addressComponents = [
-        props.housenumber,
-        props.street,
-        props.city,
-        props.state,
-        props.postcode,
-        props.country
-      ].filter(Boolean);
-      address = addressComponents.length > 0 ? addressComponents.join(", ") : undefined;
+  private static async searchTile(provider: PlaceProvider, tile: SearchTile, signal: AbortSignal): Promise<Restaurant[]> {
+    try {
+      return await provider.searchInCircle(tile.center, Math.round(tile.radiusInMeters), provider.maxResultsPerSearch, {
+        signal,
+      });
+    } catch (error) {
+      throw PlaceProviderError.from(error);
     }
+  }
 
-    // Generate a realistic rating
-    const rating = Math.round((3.5 + Math.random() * 1.3) * 10) / 10; // Between 3.5-4.8
-
-    return {
-      id: props.place_id,
-      name: props.name || "Restaurant",
-      cuisine: this.extractCuisineFromGeoapify(feature),
-      image: this.getCuisineSpecificImage(
-        this.extractCuisineFromGeoapify(feature),
-        props.name
-      ),
-      rating: rating,
-      latitude: latitude,
-      longitude: longitude,
-      description: this.generateGeoapifyDescription(feature),
-      address: address,
-      phoneNumber: raw.phone || undefined,
-      priceRange: this.generateRandomPriceRange(),
-      isOpen: undefined, // Geoapify opening hours are complex to parse
-      hours: raw.opening_hours,
-      dataSource: 'api' as const,
-    };
+  private static describeTile(tile: SearchTile): string {
+    const { latitude, longitude } = tile.center;
+    return `(${latitude.toFixed(4)}, ${longitude.toFixed(4)}) ${(tile.radiusInMeters / 1000).toFixed(1)}km depth ${tile.depth}`;
   }
 
   /**
-   * Extract cuisine type from Geoapify feature
+   * Deck from the local cache for this exact location and radius, or null without fetching anything
    */
-  private static extractCuisineFromGeoapify(feature: GeoapifyFeature): string {
-    // Check if there's a specific cuisine in the catering object (new API format)
-    const cateringCuisine = feature.properties.catering?.cuisine;
-    if (cateringCuisine) {
-      console.log(
-        `Found catering cuisine: ${cateringCuisine} for ${feature.properties.name}`
-      );
-      return this.normalizeCuisine(cateringCuisine);
-    }
-
-    // Check if there's a specific cuisine in the raw data (fallback)
-    const rawCuisine = feature.properties.datasource.raw.cuisine;
-    if (rawCuisine) {
-      console.log(
-        `Found raw cuisine: ${rawCuisine} for ${feature.properties.name}`
-      );
-      return this.normalizeCuisine(rawCuisine);
-    }
-
-    // Try to infer cuisine from restaurant name
-    const restaurantName = (feature.properties.name && typeof feature.properties.name === 'string')
-      ? feature.properties.name.toLowerCase()
-      : "";
-    const nameBasedCuisine = this.inferCuisineFromName(restaurantName);
-    if (nameBasedCuisine) {
-      console.log(
-        `Inferred cuisine from name: ${nameBasedCuisine} for ${feature.properties.name}`
-      );
-      return nameBasedCuisine;
-    }
-
-    // Extract from categories
-    const categories = feature.properties.categories;
-    if (categories.includes("catering.fast_food")) return "Fast Food";
-    if (categories.includes("catering.cafe")) return "Cafe";
-    if (categories.includes("catering.bar")) return "Bar & Grill";
-    if (categories.includes("catering.restaurant")) {
-      // If it's just a generic restaurant, assign a random cuisine to add variety
-      console.log(
-        `Generic restaurant detected: ${feature.properties.name}, assigning random cuisine`
-      );
-      return this.getRandomCuisine();
+  static async fetchCachedRestaurants(
+    location: LocationCoordinates,
+    radiusInMeters: number,
+    options: DeckOptions = {}
+  ): Promise<DeckResult | null> {
+    const provider = await PlaceProviderService.getActiveProvider();
+    const cachedRestaurants = await this.getCachedRestaurants(provider, location, radiusInMeters);
+    if (!cachedRestaurants || cachedRestaurants.length === 0) {
+      return null;
     }
-
-    return this.getRandomCuisine();
+    const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(cachedRestaurants);
+    return this.toDeckResult(filteredRestaurants, "cache", options, location, radiusInMeters);
   }
 
   /**
-   * Infer cuisine type from restaurant name
+   * Cache every restaurant found for an area, e.g. once all of its rings are in
    */
-  private static inferCuisineFromName(name: string): string | null {
-    const nameIndicators: { [key: string]: string } = {
-      // Pizza (specific category)
-      pizza: "Pizza",
-      pizzeria: "Pizza",
-
-      // Italian indicators
-      pasta: "Italian",
-      italiano: "Italian",
-      trattoria: "Italian",
-      ristorante: "Italian",
-
-      // Chinese indicators
-      china: "Chinese",
-      chinese: "Chinese",
-      dragon: "Chinese",
-      panda: "Chinese",
-      wok: "Chinese",
-      szechuan: "Chinese",
-      hunan: "Chinese",
-
-      // Japanese indicators
-      sushi: "Japanese",
-      ramen: "Japanese",
-      hibachi: "Japanese",
-      sakura: "Japanese",
-      yamato: "Japanese",
-      tokyo: "Japanese",
-
-      // Mexican indicators
-      taco: "Mexican",
-      burrito: "Mexican",
-      mexican: "Mexican",
-      cantina: "Mexican",
-      casa: "Mexican",
-      "el ": "Mexican",
-      "la ": "Mexican",
-
-      // Indian indicators
-      indian: "Indian",
-      curry: "Indian",
-      tandoor: "Indian",
-      masala: "Indian",
-      spice: "Indian",
-      malabar: "Indian",
-
-      // Thai indicators
-      thai: "Thai",
-      pad: "Thai",
-      bangkok: "Thai",
-
-      // Turkish/Mediterranean indicators
-      turkish: "Turkish",
-      agha: "Turkish",
-      kebab: "Turkish",
-      shawarma: "Mediterranean",
-      mediterranean: "Mediterranean",
-
-      // Coffee/Tea indicators
-      coffee: "Coffee_shop",
-      tea: "Bubble_tea",
-
-      // Ice cream indicators
-      "ice cream": "Ice_cream",
-
-      // French indicators
-      bistro: "French",
-      brasserie: "French",
-      "le ": "French",
-
-      // American indicators
-      burger: "American",
-      bbq: "American",
-      grill: "American",
-      diner: "American",
-      steakhouse: "American",
-
-      // Cafe indicators (keep separate from French)
-      cafe: "Cafe",
-      bakery: "Cafe",
-      eatery: "American",
-      lounge: "Cafe",
-    };
-
-    for (const [indicator, cuisine] of Object.entries(nameIndicators)) {
-      if (name.includes(indicator)) {
-        return cuisine;
-      }
-    }
-
-    return null;
+  static async cacheAreaRestaurants(
+    location: LocationCoordinates,
+    radiusInMeters: number,
+    restaurants: Restaurant[]
+  ): Promise<void> {
+    const provider = await PlaceProviderService.getActiveProvider();
+    await this.storeInCaches(provider, location, radiusInMeters, restaurants);
   }
 
   /**
-   * Get a random cuisine for variety when specific cuisine cannot be determined
+   * Bundled demo restaurants placed around the location. Only used when the user asks for them.
    */
-  private static getRandomCuisine(): string {
-    const cuisines = [
-      "Italian",
-      "Chinese",
-      "Japanese",
-      "Mexican",
-      "Indian",
-      "American",
-      "Thai",
-      "French",
-      "Korean",
-      "Mediterranean",
-    ];
-    return cuisines[Math.floor(Math.random() * cuisines.length)];
+  static async fetchDemoRestaurants(
+    location: LocationCoordinates,
+    radiusInMeters: number = 5000,
+    maxResults: number = 500,
+    options: DeckOptions = {}
+  ): Promise<Restaurant[]> {
+    console.log("\n=== USING OFFLINE FIXTURE DATA ===");
+    const restaurants = await PlaceProviderService.getOfflineProvider().searchInCircle(location, radiusInMeters, maxResults);
+    const filteredRestaurants = await BlacklistService.filterBlacklistedRestaurants(restaurants);
+    return this.prepareDeck(filteredRestaurants, options, location, radiusInMeters);
   }
 
   /**
-   * Normalize cuisine names
+   * Fill the local cache for each saved place, using that place's radius, so switching to it is instant.
+   * Places are fetched one at a time and places with a fresh cache are skipped. Returns how many were fetched.
    */
-  private static normalizeCuisine(cuisine: string): string {
-    const cuisineMap: { [key: string]: string } = {
-      chinese: "Chinese",
-      italian: "Italian",
-      japanese: "Japanese",
-      mexican: "Mexican",
-      indian: "Indian",
-      french: "French",
-      thai: "Thai",
-      korean: "Korean",
-      vietnamese: "Vietnamese",
-      mediterranean: "Mediterranean",
-      american: "American",
-      seafood: "Seafood",
-      pizza: "Pizza",
-      burger: "American",
-      sushi: "Japanese",
-    };
+  static async prewarmSavedPlaces(): Promise<number> {
+    const [provider, settings, places] = await Promise.all([
+      PlaceProviderService.getActiveProvider(),
+      SettingsService.loadSettings(),
+      SavedPlacesService.getSavedPlaces(),
+    ]);
+    if (!provider.isConfigured()) return 0;
+
+    let warmedCount = 0;
+    for (const place of places) {
+      const location = { latitude: place.latitude, longitude: place.longitude };
+      const radiusInMeters = SettingsService.kmToMeters(SavedPlacesService.applyPlaceSettings(settings, place).maxRadius);
+
+      if (await this.getCachedRestaurants(provider, location, radiusInMeters)) continue;
+
+      const result = await this.fetchNearbyRestaurants(location, radiusInMeters);
+      if (result.ok && !result.error) warmedCount++;
+    }
 
-    const lowercaseCuisine = cuisine.toLowerCase();
-    return cuisineMap[lowercaseCuisine] || this.capitalizeFirst(cuisine);
+    console.log(`Pre-warmed restaurant cache for ${warmedCount} of ${places.length} saved places`);
+    return warmedCount;
   }
 
   /**
-   * Generate description for Geoapify restaurant
+   * Swap a newer version of the deck in while it is being swiped: cards up to and including the
+   * one on top stay where they are, and everything after them becomes the newer deck.
    */
-  private static generateGeoapifyDescription(feature: GeoapifyFeature): string {
-    const name = feature.properties.name || "Restaurant";
-    const cuisine = this.extractCuisineFromGeoapify(feature);
-
-    let description = `Discover ${name}`;
-
-    if (cuisine !== "Restaurant") {
-      description += ` serving ${cuisine} cuisine`;
-    }
-
-    description +=
-      ". A local dining spot in your neighborhood with great food and atmosphere.";
-
-    return description;
+  static mergeStreamedDeck(deck: Restaurant[], cardIndex: number, incoming: Restaurant[]): Restaurant[] {
+    const kept = deck.slice(0, cardIndex + 1);
+    const keptIds = new Set(kept.map((restaurant) => restaurant.id));
+    return [...kept, ...incoming.filter((restaurant) => !keptIds.has(restaurant.id))];
   }
 
   /**
-   * Get cuisine-specific food images with better matching
+   * Order the cards after the one on top again, e.g. once a farther ring was added, so a random
+   * deck mixes the new ring in instead of dealing ring by ring. The deck filters aren't applied again.
    */
-  private static getCuisineSpecificImage(cuisine: string, restaurantName?: string): string {
-    // First try to get specific image based on restaurant name patterns
-    if (restaurantName) {
-      const nameBasedImage = this.getImageFromRestaurantName(restaurantName.toLowerCase());
-      if (nameBasedImage) {
-        console.log(`Selected name-based image for ${restaurantName}: ${nameBasedImage}`);
-        return nameBasedImage;
-      }
-    }
-
-    const cuisineImages: { [key: string]: string[] } = {
-      Pizza: [
-        "https://images.unsplash.com/photo-1604068549290-dea0e4a305ca?w=400&h=300&fit=crop", // Pizza slice
-        "https://images.unsplash.com/photo-1513104890138-7c749659a591?w=400&h=300&fit=crop", // Wood fired pizza
-        "https://images.unsplash.com/photo-1571997478779-2adcbbe9ab2f?w=400&h=300&fit=crop", // Pizza with toppings
-        "https://images.unsplash.com/photo-1628840042765-356cda07504e?w=400&h=300&fit=crop", // Fresh pizza
-      ],
-      Italian: [
-        "https://plus.unsplash.com/premium_photo-1664472619078-9db415ebef44?w=400&h=300&fit=crop", // Pasta
-        "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=400&h=300&fit=crop", // Italian restaurant
-        "https://images.unsplash.com/photo-1621996346565-e3dbc646d9a9?w=400&h=300&fit=crop", // Pasta dish
-        "https://images.unsplash.com/photo-1604068549290-dea0e4a305ca?w=400&h=300&fit=crop", // Pizza (working URL)
-      ],
-      Japanese: [
-        "https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400&h=300&fit=crop", // Sushi
-        "https://images.unsplash.com/photo-1569718212165-3a8278d5f624?w=400&h=300&fit=crop", // Ramen
-        "https://images.unsplash.com/photo-1617196034796-73dfa7b1fd56?w=400&h=300&fit=crop", // Japanese food
-        "https://images.unsplash.com/photo-1582450871972-ab5ca641643d?w=400&h=300&fit=crop", // Sushi rolls
-      ],
-      Mexican: [
-        "https://images.unsplash.com/photo-1551504734-5ee1c4a1479b?w=400&h=300&fit=crop", // Tacos
-        "https://images.unsplash.com/photo-1504544750208-dc0358e63f7f?w=400&h=300&fit=crop", // Mexican food
-        "https://images.unsplash.com/photo-1625167171750-419e95f877d8?w=400&h=300&fit=crop", // Mexican restaurant
-        "https://images.unsplash.com/photo-1599974579688-8dbdd335c77f?w=400&h=300&fit=crop", // Tacos close up
-      ],
-      Chinese: [
-        "https://images.unsplash.com/photo-1526318896980-cf78c088247c?w=400&h=300&fit=crop", // Chinese food
-        "https://images.unsplash.com/photo-1512058564366-18510be2db19?w=400&h=300&fit=crop", // Chinese noodles
-        "https://images.unsplash.com/photo-1596797038530-2c107229654b?w=400&h=300&fit=crop", // Chinese dishes
-        "https://plus.unsplash.com/premium_photo-1674601031608-1a38ca161523?w=400&h=300&fit=crop", // Dim sum
-      ],
-      Indian: [
-        "https://images.unsplash.com/photo-1565557623262-b51c2513a641?w=400&h=300&fit=crop", // Indian curry
-        "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400&h=300&fit=crop", // Indian food
-        "https://images.unsplash.com/photo-1585937421612-70a008356fbe?w=400&h=300&fit=crop", // Indian restaurant
-        "https://images.unsplash.com/photo-1596040033229-a9821ebd058d?w=400&h=300&fit=crop", // Indian spices and food
-      ],
-      American: [
-        "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400&h=300&fit=crop", // Burger
-        "https://images.unsplash.com/photo-1594212699903-ec8a3eca50f5?w=400&h=300&fit=crop", // American diner
-        "https://images.unsplash.com/photo-1571091718767-18b5b1457add?w=400&h=300&fit=crop", // American food
-        "https://images.unsplash.com/photo-1572448862527-d3c904757de6?w=400&h=300&fit=crop", // BBQ
-      ],
-      French: [
-        "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop", // French restaurant
-        "https://images.unsplash.com/photo-1559847844-5315695dadae?w=400&h=300&fit=crop", // French cuisine
-        "https://images.unsplash.com/photo-1604908176997-125f25cc6f3d?w=400&h=300&fit=crop", // French bistro
-        "https://images.unsplash.com/photo-1571997478779-2adcbbe9ab2f?w=400&h=300&fit=crop", // French pastries
-      ],
-      Thai: [
-        "https://plus.unsplash.com/premium_photo-1669150852121-19bab9ca75f7?w=400&h=300&fit=crop", // Thai curry
-        "https://images.unsplash.com/photo-1582878826629-29b7ad1cdc43?w=400&h=300&fit=crop", // Thai food
-        "https://images.unsplash.com/photo-1675150277436-9c7348972c11?w=400&h=300&fit=crop", // Thai restaurant
-        "https://images.unsplash.com/photo-1637806930600-37fa8892069d?w=400&h=300&fit=crop", // Pad Thai
-      ],
-      Korean: [
-        "https://images.unsplash.com/photo-1565299507177-b0ac66763828?w=400&h=300&fit=crop", // Korean BBQ
-        "https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=400&h=300&fit=crop", // Korean food
-        "https://images.unsplash.com/photo-1598515214211-89d3c73ae83b?w=400&h=300&fit=crop", // Korean dishes
-        "https://images.unsplash.com/photo-1632558610168-8377309e34c7?w=400&h=300&fit=crop", // Korean BBQ grill
-      ],
-      Mediterranean: [
-        "https://images.unsplash.com/photo-1546833999-b9f581a1996d?w=400&h=300&fit=crop", // Mediterranean
-        "https://images.unsplash.com/photo-1554200876-56c2f25224fa?w=400&h=300&fit=crop", // Mediterranean food
-        "https://images.unsplash.com/photo-1578662996442-48f60103fc96?w=400&h=300&fit=crop", // Mediterranean cuisine
-        "https://images.unsplash.com/photo-1606735584785-1848fdcaea57?w=400&h=300&fit=crop", // Greek food
-      ],
-      Turkish: [
-        "https://images.unsplash.com/photo-1606577961562-7e2614b96132?w=400&h=300&fit=crop", // Turkish/Mediterranean food
-        "https://images.unsplash.com/photo-1653611540493-b3a896319fbf?w=400&h=300&fit=crop", // Mediterranean cuisine
-        "https://plus.unsplash.com/premium_photo-1661310070271-8dd22feaf3a7?w=400&h=300&fit=crop", // Turkish kebab
-        "https://images.unsplash.com/photo-1694192708388-7fa1198601af?w=400&h=300&fit=crop", // Grilled food
-      ],
-      Vegetarian: [
-        "https://images.unsplash.com/photo-1540420773420-3366772f4999?w=400&h=300&fit=crop", // Vegetarian salad
-        "https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=400&h=300&fit=crop", // Healthy bowl
-        "https://images.unsplash.com/photo-1511690743698-d9d85f2fbf38?w=400&h=300&fit=crop", // Plant-based food
-        "https://images.unsplash.com/photo-1561535893-bb7a98c7ee45?w=400&h=300&fit=crop", // Fresh vegetables
-      ],
-      "Fast Food": [
-        "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400&h=300&fit=crop", // Burger
-        "https://images.unsplash.com/photo-1594212699903-ec8a3eca50f5?w=400&h=300&fit=crop", // Fast food restaurant
-        "https://images.unsplash.com/photo-1586190848861-99aa4a171e90?w=400&h=300&fit=crop", // Fast casual
-        "https://images.unsplash.com/photo-1551782450-17144efb9c50?w=400&h=300&fit=crop", // French fries
-      ],
-      Cafe: [
-        "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop", // Coffee shop
-        "https://images.unsplash.com/photo-1648462908676-8305f0eff8e0?w=400&h=300&fit=crop", // Cafe interior
-        "https://images.unsplash.com/photo-1554118811-1e0d58224f24?w=400&h=300&fit=crop", // Coffee and pastries
-        "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop", // Coffee cup
-      ],
-      Coffee_shop: [
-        "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop", // Coffee shop
-        "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop", // Coffee cup
-        "https://images.unsplash.com/photo-1554118811-1e0d58224f24?w=400&h=300&fit=crop", // Coffee and pastries
-        "https://images.unsplash.com/photo-1512568400610-62da28bc8a13?w=400&h=300&fit=crop", // Espresso
-      ],
-      "Bubble_tea": [
-        "https://images.unsplash.com/photo-1572932759882-bb34c848d1b3?w=400&h=300&fit=crop", // Bubble tea
-        "https://images.unsplash.com/photo-1747016804753-866c3ed6b3b7?w=400&h=300&fit=crop", // Boba tea
-        "https://images.unsplash.com/photo-1616103425322-91736a8724a9?w=400&h=300&fit=crop", // Tea shop
-        "https://images.unsplash.com/photo-1619995757657-fb467a837ea2?w=400&h=300&fit=crop", // Asian drinks
-      ],
-      "Ice_cream": [
-        "https://images.unsplash.com/photo-1501443762994-82bd5dace89a?w=400&h=300&fit=crop", // Ice cream
-        "https://images.unsplash.com/photo-1570197788417-0e82375c9371?w=400&h=300&fit=crop", // Ice cream shop
-        "https://images.unsplash.com/photo-1488900128323-21503983a07e?w=400&h=300&fit=crop", // Ice cream cone
-        "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400&h=300&fit=crop", // Desserts
-      ],
-      "Bar & Grill": [
-        "https://images.unsplash.com/photo-1544148103-0773bf10d330?w=400&h=300&fit=crop", // Bar food
-        "https://images.unsplash.com/photo-1723744910323-f80fd8997a50?w=400&h=300&fit=crop", // Grill food
-        "https://images.unsplash.com/photo-1595295333158-4742f28fbd85?w=400&h=300&fit=crop", // Bar & grill
-        "https://images.unsplash.com/photo-1572448862527-d3c904757de6?w=400&h=300&fit=crop", // BBQ grill
-      ],
-    };
-
-    // Normalize cuisine for lookup
-    let normalizedCuisine = cuisine;
-
-    // Handle compound cuisines (e.g., "Ice_cream;burger")
-    if (cuisine.includes(';')) {
-      const parts = cuisine.split(';');
-      normalizedCuisine = parts[0]; // Use the first part
-    }
-
-    const cuisineKey = normalizedCuisine as keyof typeof cuisineImages;
-    const images = cuisineImages[cuisineKey] || [
-      "https://images.unsplash.com/photo-1540420773420-3366772f4999?w=400&h=300&fit=crop", // Generic restaurant
-      "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop", // Generic dining
-      "https://images.unsplash.com/photo-1551504734-5ee1c4a1479b?w=400&h=300&fit=crop", // Generic food
-      "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400&h=300&fit=crop", // Food spread
-    ];
-
-    const selectedImage = images[Math.floor(Math.random() * images.length)];
-    console.log(`Selected ${normalizedCuisine} image: ${selectedImage}`);
-    return selectedImage;
+  static reorderUpcoming(
+    deck: Restaurant[],
+    cardIndex: number,
+    options: DeckOptions,
+    location: LocationCoordinates,
+    radiusInMeters: number
+  ): Restaurant[] {
+    const kept = deck.slice(0, cardIndex + 1);
+    return [...kept, ...this.orderDeck(deck.slice(cardIndex + 1), options, location, radiusInMeters)];
   }
 
   /**
-   * Get specific images based on restaurant name patterns (generic patterns only)
+   * Update a deck after the user moved, without changing their place in it.
+   * Cards before `cardIndex` are kept as they are so the index and undo stay valid,
+   * upcoming cards now farther than the radius are dropped, and incoming restaurants
+   * that aren't in the deck or excluded are appended in the order given.
    */
-  private static getImageFromRestaurantName(name: string): string | null {
-    const nameToImageMap: { [key: string]: string } = {
-      // Generic name patterns only - no specific brands
-      "shawarma": "https://images.unsplash.com/photo-1638537125835-82acb38d3531?w=400&h=300&fit=crop", // Middle Eastern
-      "coffee shop": "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop", // Coffee
-      "cafe": "https://images.unsplash.com/photo-1554118811-1e0d58224f24?w=400&h=300&fit=crop", // Cafe
-      "bakery": "https://plus.unsplash.com/premium_photo-1665669263531-cdcbe18e7fe4?w=400&h=300&fit=crop", // Bakery
-      "eatery": "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400&h=300&fit=crop", // General food
-      "lounge": "https://plus.unsplash.com/premium_photo-1661962950572-61c3b7b4d5ba?w=400&h=300&fit=crop", // Upscale dining
-    };
+  static mergeDeckForLocation(
+    deck: Restaurant[],
+    cardIndex: number,
+    incoming: Restaurant[],
+    location: LocationCoordinates,
+    radiusInMeters: number,
+    excludedIds: string[] = []
+  ): DeckMergeResult {
+    const radiusKm = radiusInMeters / 1000;
+    const isInRange = (restaurant: Restaurant) =>
+      LocationService.calculateDistance(location, restaurant) <= radiusKm;
 
-    for (const [pattern, imageUrl] of Object.entries(nameToImageMap)) {
-      if (name.includes(pattern)) {
-        return imageUrl;
-      }
-    }
+    const swiped = deck.slice(0, cardIndex);
+    const upcoming = deck.slice(cardIndex);
+    const keptUpcoming = upcoming.filter(isInRange);
 
-    return null;
-  }
+    const knownIds = new Set([...deck.map((restaurant) => restaurant.id), ...excludedIds]);
+    const added = incoming.filter((restaurant) => !knownIds.has(restaurant.id) && isInRange(restaurant));
 
-  /**
-   * Generate random price range
-   */
-  private static generateRandomPriceRange(): "$" | "$$" | "$$$" | "$$$$" {
-    const priceRanges: ("$" | "$$" | "$$$" | "$$$$")[] = [
-      "$",
-      "$$",
-      "$$",
-      "$$$",
-    ]; // Weight towards more affordable
-    return priceRanges[Math.floor(Math.random() * priceRanges.length)];
+    return {
+      deck: [...swiped, ...keptUpcoming, ...added],
+      added: added.length,
+      removed: upcoming.length - keptUpcoming.length,
+    };
   }
 
   /**
-   * Capitalize first letter of a string
+   * Fetch detailed restaurant information when user selects a restaurant
    */
-  private static capitalizeFirst(str: string): string {
-    return str.charAt(0).toUpperCase() + str.slice(1);
+  static async fetchRestaurantDetails(restaurantId: string): Promise<Restaurant | null> {
+    const provider = await PlaceProviderService.getActiveProvider();
+    if (!provider.isConfigured()) {
+      console.warn(`${provider.name} not configured, cannot fetch details`);
+      return null;
+    }
+    return provider.getPlaceDetails(restaurantId);
   }
 
   /**
    * Generate cache key for location and radius
    */
   private static getCacheKey(
+    provider: PlaceProvider,
     location: LocationCoordinates,
     radiusInMeters: number
   ): string {
     const roundedLat = Math.round(location.latitude * 1000) / 1000; // Round to ~100m precision
     const roundedLng = Math.round(location.longitude * 1000) / 1000;
-    return `${CACHE_KEY_PREFIX}${roundedLat}_${roundedLng}_${radiusInMeters}`;
+    // The default provider keeps the original key format so existing caches stay valid
+    const providerPrefix = provider.id === DEFAULT_PLACE_PROVIDER ? "" : `${provider.id}_`;
+    return `${CACHE_KEY_PREFIX}${providerPrefix}${roundedLat}_${roundedLng}_${radiusInMeters}`;
   }
 
   /**
    * Get cached restaurants if available and not expired
    */
   private static async getCachedRestaurants(
+    provider: PlaceProvider,
     location: LocationCoordinates,
     radiusInMeters: number
   ): Promise<Restaurant[] | null> {
     try {
-      const cacheKey = this.getCacheKey(location, radiusInMeters);
+      const cacheKey = this.getCacheKey(provider, location, radiusInMeters);
       const cachedDataStr = await AsyncStorage.getItem(cacheKey);
 
       if (!cachedDataStr) {
@@ -1151,7 +615,7 @@ export class RestaurantService {
 
       console.log("\n=== USING CACHED RESTAURANT DATA ===");
       console.log("Cached restaurants data:", JSON.stringify(cachedData.restaurants, null, 2));
-      return cachedData.restaurants;
+      return RestaurantAttributeService.migrateCachedRestaurants(cachedData.restaurants);
     } catch (error) {
       console.error("Error reading cache:", error);
       return null;
@@ -1162,12 +626,13 @@ export class RestaurantService {
    * Cache restaurants data
    */
   private static async cacheRestaurants(
+    provider: PlaceProvider,
     location: LocationCoordinates,
     radiusInMeters: number,
     restaurants: Restaurant[]
   ): Promise<void> {
     try {
-      const cacheKey = this.getCacheKey(location, radiusInMeters);
+      const cacheKey = this.getCacheKey(provider, location, radiusInMeters);
       const cacheData: CachedData = {
         timestamp: Date.now(),
         restaurants: restaurants,
@@ -1180,6 +645,23 @@ export class RestaurantService {
     }
   }
 
+  /**
+   * Cache restaurants locally, and in the shared cache when the provider allows it
+   */
+  private static async storeInCaches(
+    provider: PlaceProvider,
+    location: LocationCoordinates,
+    radiusInMeters: number,
+    restaurants: Restaurant[]
+  ): Promise<void> {
+    await Promise.all([
+      this.cacheRestaurants(provider, location, radiusInMeters, restaurants),
+      provider.sharesCache
+        ? SharedCacheService.setSharedCache(location, radiusInMeters, restaurants)
+        : Promise.resolve(),
+    ]);
+  }
+
   /**
    * Update restaurant with user-provided image URL
    */
@@ -1190,8 +672,10 @@ export class RestaurantService {
     radiusInMeters: number = 5000
   ): Promise<boolean> {
     try {
+      const provider = await PlaceProviderService.getActiveProvider();
+
       // Get current cached restaurants to find and update the specific one
-      const cachedRestaurants = await this.getCachedRestaurants(location, radiusInMeters);
+      const cachedRestaurants = await this.getCachedRestaurants(provider, location, radiusInMeters);
       if (!cachedRestaurants) {
         console.log('No cached restaurants found to update');
         return false;
@@ -1216,10 +700,7 @@ export class RestaurantService {
       updatedRestaurants[restaurantIndex] = updatedRestaurant;
 
       // Save to both local and shared cache
-      await Promise.all([
-        this.cacheRestaurants(location, radiusInMeters, updatedRestaurants),
-        SharedCacheService.setSharedCache(location, radiusInMeters, updatedRestaurants)
-      ]);
+      await this.storeInCaches(provider, location, radiusInMeters, updatedRestaurants);
 
       console.log(`Successfully updated restaurant ${restaurantId} with user-provided image`);
       return true;
@@ -1237,8 +718,10 @@ export class RestaurantService {
     radiusInMeters: number = 5000
   ): Promise<void> {
     try {
+      const provider = await PlaceProviderService.getActiveProvider();
+
       // Get current cached restaurants
-      const cachedRestaurants = await this.getCachedRestaurants(location, radiusInMeters);
+      const cachedRestaurants = await this.getCachedRestaurants(provider, location, radiusInMeters);
       if (!cachedRestaurants) {
         console.log('No cached restaurants to clear');
         return;
@@ -1253,10 +736,10 @@ export class RestaurantService {
 
       // Update cache with only user-contributed data
       if (userContributedRestaurants.length > 0) {
-        await this.cacheRestaurants(location, radiusInMeters, userContributedRestaurants);
+        await this.cacheRestaurants(provider, location, radiusInMeters, userContributedRestaurants);
       } else {
         // Clear cache entirely if no user contributions
-        const cacheKey = this.getCacheKey(location, radiusInMeters);
+        const cacheKey = this.getCacheKey(provider, location, radiusInMeters);
         await AsyncStorage.removeItem(cacheKey);
       }
     } catch (error) {
@@ -1265,162 +748,74 @@ export class RestaurantService {
   }
 
   /**
-   * Shuffle array using Fisher-Yates algorithm for randomization
+   * Order restaurants with the chosen ordering and apply the user's deck filters
    */
-  private static shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  private static prepareDeck(
+    restaurants: Restaurant[],
+    options: DeckOptions,
+    location: LocationCoordinates,
+    radiusInMeters: number
+  ): Restaurant[] {
+    const { cuisinePreferences } = options;
+    let deck = restaurants;
+
+    if (cuisinePreferences !== undefined && CuisinePreferenceService.hasPreferences(cuisinePreferences)) {
+      deck = CuisinePreferenceService.filterRestaurants(deck, cuisinePreferences);
     }
-    return shuffled;
+
+    deck = this.orderDeck(deck, options, location, radiusInMeters);
+
+    if (options.availability) {
+      deck = OpeningHoursService.filterByAvailability(deck, options.availability);
+    }
+    return deck;
   }
 
   /**
-   * Fallback method to return mock restaurants in random order
+   * Order restaurants with the chosen ordering, boosting preferred cuisines.
+   * With a seed the input is put in id order first, so the result doesn't depend on
+   * which cache or provider page the restaurants came from.
    */
-  private static getMockRestaurantsWithRandomOrder(): Restaurant[] {
-    console.log("\n=== USING MOCK RESTAURANT DATA ===");
-    const mockRestaurants = [
-      {
-        id: "1",
-        name: "Giuseppe's Italian Kitchen",
-        cuisine: "Italian",
-        image: this.getCuisineSpecificImage("Italian", "Giuseppe's Italian Kitchen"),
-        rating: 4.5,
-        latitude: 37.7849,
-        longitude: -122.4094,
-        description:
-          "Authentic Italian cuisine with fresh pasta made daily. Family-owned restaurant serving traditional recipes passed down through generations.",
-        address: "123 Main Street, Downtown",
-        phoneNumber: "(555) 123-4567",
-        priceRange: "$$" as const,
-        isOpen: true,
-        hours: "11:00 AM - 10:00 PM",
-        dataSource: "api" as const,
-      },
-      {
-        id: "2",
-        name: "Sakura Sushi & Ramen",
-        cuisine: "Japanese",
-        image: this.getCuisineSpecificImage("Japanese", "Sakura Sushi & Ramen"),
-        rating: 4.8,
-        latitude: 37.7869,
-        longitude: -122.4076,
-        description:
-          "Fresh sushi and authentic ramen bowls. Our chefs trained in Tokyo bring you the most authentic Japanese dining experience.",
-        address: "456 Oak Avenue, Midtown",
-        phoneNumber: "(555) 234-5678",
-        priceRange: "$$$" as const,
-        isOpen: true,
-        hours: "12:00 PM - 11:00 PM",
-        dataSource: "api" as const,
-      },
-      {
-        id: "3",
-        name: "Taco Libre",
-        cuisine: "Mexican",
-        image: this.getCuisineSpecificImage("Mexican", "Taco Libre"),
-        rating: 4.2,
-        latitude: 37.7899,
-        longitude: -122.4089,
-        description:
-          "Street-style tacos with house-made salsas and fresh ingredients. Don't miss our famous fish tacos and craft margaritas!",
-        address: "789 Pine Street, Arts District",
-        phoneNumber: "(555) 345-6789",
-        priceRange: "$" as const,
-        isOpen: false,
-        hours: "4:00 PM - 12:00 AM",
-        dataSource: "api" as const,
-      },
-      {
-        id: "4",
-        name: "The Burger Joint",
-        cuisine: "American",
-        image: this.getCuisineSpecificImage("American", "The Burger Joint"),
-        rating: 4.0,
-        latitude: 37.7829,
-        longitude: -122.4058,
-        description:
-          "Gourmet burgers made with locally sourced beef and artisanal buns. Try our signature truffle fries!",
-        address: "321 Elm Street, University District",
-        phoneNumber: "(555) 456-7890",
-        priceRange: "$$" as const,
-        isOpen: true,
-        hours: "11:00 AM - 2:00 AM",
-        dataSource: "api" as const,
-      },
-      {
-        id: "5",
-        name: "Green Garden Cafe",
-        cuisine: "Vegetarian",
-        image: this.getCuisineSpecificImage("Vegetarian", "Green Garden Cafe"),
-        rating: 4.6,
-        latitude: 37.7879,
-        longitude: -122.4102,
-        description:
-          "Plant-based cuisine that doesn't compromise on flavor. Organic, locally-sourced ingredients in every dish.",
-        address: "654 Maple Drive, Green Valley",
-        phoneNumber: "(555) 567-8901",
-        priceRange: "$$" as const,
-        isOpen: true,
-        hours: "8:00 AM - 9:00 PM",
-        dataSource: "api" as const,
-      },
-      {
-        id: "6",
-        name: "Le Petit Bistro",
-        cuisine: "French",
-        image: this.getCuisineSpecificImage("French", "Le Petit Bistro"),
-        rating: 4.7,
-        latitude: 37.7919,
-        longitude: -122.4112,
-        description:
-          "Classic French bistro fare in an intimate setting. Our wine selection features over 200 bottles from French vineyards.",
-        address: "987 Boulevard Street, Historic Quarter",
-        phoneNumber: "(555) 678-9012",
-        priceRange: "$$$" as const,
-        isOpen: true,
-        hours: "5:00 PM - 11:00 PM",
-        dataSource: "api" as const,
-      },
-      {
-        id: "7",
-        name: "Spice Route",
-        cuisine: "Indian",
-        image: this.getCuisineSpecificImage("Indian", "Spice Route"),
-        rating: 4.4,
-        latitude: 37.7969,
-        longitude: -122.4142,
-        description:
-          "Aromatic Indian cuisine with both traditional and modern interpretations. Our tandoor oven creates the perfect naan and kebabs.",
-        address: "147 Curry Lane, Little India",
-        phoneNumber: "(555) 789-0123",
-        priceRange: "$$" as const,
-        isOpen: true,
-        hours: "11:30 AM - 10:30 PM",
-        dataSource: "api" as const,
-      },
-      {
-        id: "8",
-        name: "Dragon Palace",
-        cuisine: "Chinese",
-        image: this.getCuisineSpecificImage("Chinese", "Dragon Palace"),
-        rating: 4.1,
-        latitude: 37.7939,
-        longitude: -122.4122,
-        description:
-          "Authentic Szechuan and Cantonese dishes. Family recipes that have been perfected over decades.",
-        address: "258 Dynasty Road, Chinatown",
-        phoneNumber: "(555) 890-1234",
-        priceRange: "$$" as const,
-        isOpen: false,
-        hours: "12:00 PM - 10:00 PM",
-        dataSource: "api" as const,
-      },
-    ];
-
-    console.log("Mock restaurants data:", JSON.stringify(mockRestaurants, null, 2));
-    return this.shuffleArray(mockRestaurants);
+  private static orderDeck(
+    restaurants: Restaurant[],
+    options: DeckOptions,
+    location: LocationCoordinates,
+    radiusInMeters: number
+  ): Restaurant[] {
+    const { cuisinePreferences, seed } = options;
+    let deck = restaurants;
+    let random = Math.random;
+
+    if (seed !== undefined) {
+      console.log(`Building deck with seed ${seed}`);
+      deck = [...deck].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+      random = RandomService.createRandom(seed);
+    }
+
+    const hasCuisinePreferences =
+      cuisinePreferences !== undefined && CuisinePreferenceService.hasPreferences(cuisinePreferences);
+    return DeckOrderingService.getSorter(options.ordering || "random")(deck, {
+      origin: location,
+      radiusKm: radiusInMeters / 1000,
+      random,
+      getWeight: hasCuisinePreferences
+        ? (restaurant) => CuisinePreferenceService.getWeight(restaurant, cuisinePreferences)
+        : undefined,
+    });
+  }
+
+  private static toDeckResult(
+    restaurants: Restaurant[],
+    source: DeckSource,
+    options: DeckOptions,
+    location: LocationCoordinates,
+    radiusInMeters: number
+  ): DeckResult {
+    return { ok: true, restaurants: this.prepareDeck(restaurants, options, location, radiusInMeters), source };
+  }
+
+  // The bundled fixture provider is demo data even when picked in settings
+  private static getLiveSource(provider: PlaceProvider): DeckSource {
+    return provider.id === "fixture" ? "demo" : "live";
   }
 }
@@ -0,0 +1,150 @@
+import { Restaurant } from "../types/restaurant";
+import { CuisinePreferences, CuisinePreferenceService } from "./cuisinePreferenceService";
+import { LocationCoordinates, LocationService } from "./locationService";
+import { OpeningHoursService } from "./openingHoursService";
+import { RandomSource } from "./randomService";
+import { SwipeHistoryEntry } from "./swipeHistoryService";
+
+// Multipliers applied on top of the distance and cuisine weights
+const MATCH_WEIGHT = 2; // Matched before: likely still a good idea
+const PASS_WEIGHT = 0.25; // Passed before: possible, but rarely
+const OPEN_WEIGHT = 1;
+const UNKNOWN_HOURS_WEIGHT = 0.6;
+const CLOSED_WEIGHT = 0.1;
+
+// The farthest restaurant still keeps this share of the distance weight
+const MIN_DISTANCE_WEIGHT = 0.2;
+
+// Number of names the reel shows before landing on the pick
+export const ROULETTE_REEL_LENGTH = 24;
+
+export interface RouletteContext {
+  origin?: LocationCoordinates | null;
+  maxDistanceKm?: number; // Distance at which the distance weight bottoms out
+  cuisinePreferences?: CuisinePreferences;
+  history?: SwipeHistoryEntry[];
+  now?: Date;
+}
+
+export interface RouletteWeight {
+  restaurant: Restaurant;
+  weight: number;
+  factors: {
+    distance: number;
+    cuisine: number;
+    history: number;
+    open: number;
+  };
+}
+
+export interface RoulettePick {
+  restaurant: Restaurant;
+  index: number; // Position in the list that was passed in
+  weights: RouletteWeight[];
+}
+
+/**
+ * "Just pick for me": a weighted random choice from the deck.
+ * Pass a RandomService.createRandom source to make picks reproducible.
+ */
+export class RouletteService {
+  /**
+   * Weight every restaurant by distance, cuisine preferences, swipe history and open status
+   */
+  static getWeights(restaurants: Restaurant[], context: RouletteContext = {}): RouletteWeight[] {
+    const now = context.now || new Date();
+    const historyById = new Map((context.history || []).map((entry) => [entry.restaurantId, entry]));
+
+    const distances = restaurants.map((restaurant) =>
+      context.origin ? LocationService.calculateDistance(context.origin, restaurant) : null
+    );
+    const maxDistance =
+      context.maxDistanceKm ??
+      Math.max(0, ...distances.filter((distance): distance is number => distance !== null));
+
+    return restaurants.map((restaurant, index) => {
+      const factors = {
+        distance: this.getDistanceFactor(distances[index], maxDistance),
+        cuisine: this.getCuisineFactor(restaurant, context.cuisinePreferences),
+        history: this.getHistoryFactor(historyById.get(restaurant.id)),
+        open: this.getOpenFactor(restaurant, now),
+      };
+      return {
+        restaurant,
+        weight: factors.distance * factors.cuisine * factors.history * factors.open,
+        factors,
+      };
+    });
+  }
+
+  /**
+   * Pick one restaurant with probability proportional to its weight.
+   * Returns null when there is nothing with a positive weight.
+   */
+  static pick(
+    restaurants: Restaurant[],
+    context: RouletteContext = {},
+    random: RandomSource = Math.random
+  ): RoulettePick | null {
+    const weights = this.getWeights(restaurants, context);
+    const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+    if (total <= 0) return null;
+
+    let target = random() * total;
+    let index = weights.findIndex((entry) => {
+      target -= entry.weight;
+      return entry.weight > 0 && target < 0;
+    });
+    // Floating point leftovers land on the last weighted entry
+    if (index === -1) {
+      index = weights.map((entry) => entry.weight > 0).lastIndexOf(true);
+    }
+
+    return { restaurant: restaurants[index], index, weights };
+  }
+
+  /**
+   * Names for the slot reel: random restaurants that end on the pick
+   */
+  static buildReel(
+    restaurants: Restaurant[],
+    pick: Restaurant,
+    length: number = ROULETTE_REEL_LENGTH,
+    random: RandomSource = Math.random
+  ): Restaurant[] {
+    const reel: Restaurant[] = [];
+    for (let i = 0; i < length - 1; i++) {
+      let next = restaurants[Math.floor(random() * restaurants.length)];
+      // Avoid showing the same name twice in a row, it looks like the reel stalled
+      if (restaurants.length > 1 && next.id === reel[reel.length - 1]?.id) {
+        next = restaurants[(restaurants.indexOf(next) + 1) % restaurants.length];
+      }
+      reel.push(next);
+    }
+    reel.push(pick);
+    return reel;
+  }
+
+  private static getDistanceFactor(distance: number | null, maxDistance: number): number {
+    if (distance === null || maxDistance <= 0) return 1;
+    const closeness = 1 - Math.min(distance / maxDistance, 1);
+    return MIN_DISTANCE_WEIGHT + (1 - MIN_DISTANCE_WEIGHT) * closeness;
+  }
+
+  private static getCuisineFactor(restaurant: Restaurant, preferences?: CuisinePreferences): number {
+    if (!preferences) return 1;
+    if (!CuisinePreferenceService.isAllowed(restaurant, preferences)) return 0;
+    return CuisinePreferenceService.getWeight(restaurant, preferences);
+  }
+
+  private static getHistoryFactor(entry: SwipeHistoryEntry | undefined): number {
+    if (!entry) return 1;
+    return entry.direction === "match" ? MATCH_WEIGHT : PASS_WEIGHT;
+  }
+
+  private static getOpenFactor(restaurant: Restaurant, now: Date): number {
+    const status = OpeningHoursService.getRestaurantStatus(restaurant, now);
+    if (!status) return UNKNOWN_HOURS_WEIGHT;
+    return status.isOpen ? OPEN_WEIGHT : CLOSED_WEIGHT;
+  }
+}
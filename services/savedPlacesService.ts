@@ -0,0 +1,173 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { LocationCoordinates } from "./locationService";
+import { AppSettings, SettingsService } from "./settingsService";
+
+const SAVED_PLACES_KEY = "saved_places";
+const SELECTED_LOCATION_KEY = "selected_search_location";
+
+/**
+ * Settings a saved place can override. Anything left out follows the app settings.
+ */
+export type PlaceSettings = Partial<Pick<AppSettings, "maxRadius" | "cuisinePreferences" | "deckOrdering">>;
+
+export interface SavedPlace extends LocationCoordinates {
+  id: string;
+  name: string; // User's label, e.g. "Office"
+  address?: string;
+  settings?: PlaceSettings;
+  createdAt: number;
+}
+
+/**
+ * Where the deck is searched from when it isn't the GPS position
+ */
+export interface SelectedLocation extends LocationCoordinates {
+  name: string;
+  address?: string;
+  savedPlaceId?: string; // Set when the location is one of the saved places
+}
+
+export class SavedPlacesService {
+  /**
+   * Saved places, in the order they were added
+   */
+  static async getSavedPlaces(): Promise<SavedPlace[]> {
+    try {
+      const stored = await AsyncStorage.getItem(SAVED_PLACES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Error loading saved places:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a place under a name. Saving a name that already exists moves that place.
+   */
+  static async savePlace(
+    name: string,
+    location: LocationCoordinates & { address?: string }
+  ): Promise<SavedPlace> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error("Saved places need a name.");
+    }
+
+    const places = await this.getSavedPlaces();
+    const existing = places.find((place) => place.name.toLowerCase() === trimmedName.toLowerCase());
+    const place: SavedPlace = {
+      id: existing?.id || `place-${Date.now().toString(36)}`,
+      name: trimmedName,
+      address: location.address,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      settings: existing?.settings,
+      createdAt: existing?.createdAt || Date.now(),
+    };
+
+    const updated = existing
+      ? places.map((saved) => (saved.id === existing.id ? place : saved))
+      : [...places, place];
+    await AsyncStorage.setItem(SAVED_PLACES_KEY, JSON.stringify(updated));
+    console.log(`Saved place "${place.name}"`);
+    return place;
+  }
+
+  /**
+   * Change the settings a place overrides. Pass null to go back to the app settings.
+   */
+  static async updatePlaceSettings(placeId: string, settings: PlaceSettings | null): Promise<SavedPlace | null> {
+    const places = await this.getSavedPlaces();
+    const place = places.find((saved) => saved.id === placeId);
+    if (!place) return null;
+
+    const updatedPlace: SavedPlace = {
+      ...place,
+      settings: settings ? { ...place.settings, ...settings } : undefined,
+    };
+    await AsyncStorage.setItem(
+      SAVED_PLACES_KEY,
+      JSON.stringify(places.map((saved) => (saved.id === placeId ? updatedPlace : saved)))
+    );
+    return updatedPlace;
+  }
+
+  /**
+   * Delete a saved place. A selected location pointing at it stays usable but is no longer linked.
+   */
+  static async removePlace(placeId: string): Promise<void> {
+    const places = await this.getSavedPlaces();
+    await AsyncStorage.setItem(
+      SAVED_PLACES_KEY,
+      JSON.stringify(places.filter((place) => place.id !== placeId))
+    );
+
+    const selected = await this.getSelectedLocation();
+    if (selected?.savedPlaceId === placeId) {
+      await this.setSelectedLocation({ ...selected, savedPlaceId: undefined });
+    }
+  }
+
+  /**
+   * The location chosen in the picker, or null to search around the GPS position
+   */
+  static async getSelectedLocation(): Promise<SelectedLocation | null> {
+    try {
+      const stored = await AsyncStorage.getItem(SELECTED_LOCATION_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("Error loading selected location:", error);
+      return null;
+    }
+  }
+
+  /**
+   * The saved place currently searched from, or null for GPS and unsaved addresses
+   */
+  static async getSelectedPlace(): Promise<SavedPlace | null> {
+    const selected = await this.getSelectedLocation();
+    if (!selected?.savedPlaceId) return null;
+
+    const places = await this.getSavedPlaces();
+    return places.find((place) => place.id === selected.savedPlaceId) || null;
+  }
+
+  /**
+   * App settings with the selected place's overrides applied
+   */
+  static async getSearchSettings(): Promise<AppSettings> {
+    const [settings, place] = await Promise.all([SettingsService.loadSettings(), this.getSelectedPlace()]);
+    return this.applyPlaceSettings(settings, place);
+  }
+
+  /**
+   * App settings as they apply at a place
+   */
+  static applyPlaceSettings(settings: AppSettings, place?: SavedPlace | null): AppSettings {
+    return place?.settings ? { ...settings, ...place.settings } : settings;
+  }
+
+  /**
+   * Search from a chosen location, or pass null to go back to GPS
+   */
+  static async setSelectedLocation(location: SelectedLocation | null): Promise<void> {
+    if (location) {
+      await AsyncStorage.setItem(SELECTED_LOCATION_KEY, JSON.stringify(location));
+    } else {
+      await AsyncStorage.removeItem(SELECTED_LOCATION_KEY);
+    }
+  }
+
+  /**
+   * Selected location for a saved place
+   */
+  static toSelectedLocation(place: SavedPlace): SelectedLocation {
+    return {
+      name: place.name,
+      address: place.address,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      savedPlaceId: place.id,
+    };
+  }
+}
@@ -1,13 +1,45 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AvailabilityFilter } from './openingHoursService';
+import {
+  CuisinePreferenceService,
+  CuisinePreferences,
+  EMPTY_CUISINE_PREFERENCES,
+} from './cuisinePreferenceService';
+import { PlaceProviderId } from './placeProvider';
+import { DeckOrdering } from './deckOrderingService';
 
 const SETTINGS_STORAGE_KEY = 'app_settings';
 
+/**
+ * What the deck does when the user moves while searching from GPS
+ */
+export type FollowLocationMode = 'ask' | 'auto' | 'off';
+
 export interface AppSettings {
   maxRadius: number; // in kilometers
+  availability: AvailabilityFilter;
+  cuisinePreferences: CuisinePreferences;
+  placeProvider: PlaceProviderId; // Where restaurant data comes from
+  deckOrdering: DeckOrdering; // How distance shapes the order of the deck
+  followLocation: FollowLocationMode;
+  dailyRequestBudget: number; // Most place provider requests a day, checked before wide searches fan out
+  monthlyRequestBudget: number;
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
   maxRadius: 5, // 5km default
+  availability: {
+    mode: 'any',
+    openAtMinutes: 19 * 60, // Dinner at 7pm
+    minOpenMinutes: 60,
+    unknownHours: 'last',
+  },
+  cuisinePreferences: EMPTY_CUISINE_PREFERENCES,
+  placeProvider: 'geoapify',
+  deckOrdering: 'random',
+  followLocation: 'ask',
+  dailyRequestBudget: 1000,
+  monthlyRequestBudget: 20000,
 };
 
 export class SettingsService {
@@ -18,8 +50,7 @@ export class SettingsService {
     try {
       const savedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
       if (savedSettings) {
-        const parsedSettings = JSON.parse(savedSettings);
-        return { ...DEFAULT_SETTINGS, ...parsedSettings };
+        return this.migrateSettings(JSON.parse(savedSettings));
       }
       return DEFAULT_SETTINGS;
     } catch (error) {
@@ -28,6 +59,19 @@ export class SettingsService {
     }
   }
 
+  /**
+   * Bring settings saved by older app versions up to the current shape.
+   * Nested settings are merged separately so older saves pick up new defaults.
+   */
+  private static migrateSettings(parsedSettings: Partial<AppSettings>): AppSettings {
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsedSettings,
+      availability: { ...DEFAULT_SETTINGS.availability, ...parsedSettings.availability },
+      cuisinePreferences: CuisinePreferenceService.sanitize(parsedSettings.cuisinePreferences),
+    };
+  }
+
   /**
    * Save app settings to storage
    */
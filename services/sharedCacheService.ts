@@ -1,5 +1,6 @@
 import { Restaurant } from "../types/restaurant";
 import { LocationCoordinates } from "./locationService";
+import { RestaurantAttributeService } from "./restaurantAttributeService";
 import { supabase } from "./supabaseClient";
 
 // Cache configuration - align with calendar months for predictable billing
@@ -98,7 +99,7 @@ export class SharedCacheService {
       }
 
       console.log(`Using shared cache with ${cacheRecord.restaurants.length} restaurants from ${cacheRecord.contributors} contributors`);
-      return cacheRecord.restaurants;
+      return RestaurantAttributeService.migrateCachedRestaurants(cacheRecord.restaurants);
     } catch (error) {
       console.error('Error fetching shared cache:', error);
       return null;
@@ -124,33 +125,11 @@ export class SharedCacheService {
       // Try to get existing cache to merge data
       const existingData = await this.getSharedCache(location, radiusInMeters);
       let contributors = 1;
-      let mergedRestaurants = restaurants;
+      let mergedRestaurants = this.mergeRestaurants([], restaurants);
 
       if (existingData && existingData.length > 0) {
         // Merge with existing data to create a richer cache
-        const existingRestaurantsMap = new Map(existingData.map(r => [r.id, r]));
-
-        // For each new restaurant, check if it exists
-        restaurants.forEach(newRestaurant => {
-          const existingRestaurant = existingRestaurantsMap.get(newRestaurant.id);
-
-          if (existingRestaurant) {
-            // If existing restaurant is user-contributed, preserve it
-            // Otherwise, update with new data
-            if (existingRestaurant.dataSource === 'user-contributed') {
-              // Keep the user-contributed version
-              existingRestaurantsMap.set(newRestaurant.id, existingRestaurant);
-            } else {
-              // Update with new API data
-              existingRestaurantsMap.set(newRestaurant.id, newRestaurant);
-            }
-          } else {
-            // Add new restaurant
-            existingRestaurantsMap.set(newRestaurant.id, newRestaurant);
-          }
-        });
-
-        mergedRestaurants = Array.from(existingRestaurantsMap.values());
+        mergedRestaurants = this.mergeRestaurants(existingData, restaurants);
         contributors += 1; // Increment contributor count
 
         console.log(`Merged restaurants: ${mergedRestaurants.length} total, preserving user-contributed data`);
@@ -185,6 +164,26 @@ export class SharedCacheService {
     }
   }
 
+  /**
+   * Merge new restaurants into cached ones, preserving user-contributed entries.
+   * The result is in id order so every device that reads the cache sees the same list,
+   * whichever device wrote last. Seeded decks rely on that.
+   */
+  static mergeRestaurants(existing: Restaurant[], incoming: Restaurant[]): Restaurant[] {
+    const merged = new Map(existing.map(r => [r.id, r]));
+
+    incoming.forEach(newRestaurant => {
+      const existingRestaurant = merged.get(newRestaurant.id);
+
+      // Keep the user-contributed version, otherwise take the new API data
+      if (existingRestaurant?.dataSource !== 'user-contributed') {
+        merged.set(newRestaurant.id, newRestaurant);
+      }
+    });
+
+    return Array.from(merged.values()).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
   /**
    * Clean up expired cache entries
    */
@@ -0,0 +1,145 @@
+import { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+import {
+  GroupParticipant,
+  GroupSession,
+  GroupSessionBackend,
+  GroupVote,
+} from "./groupSessionService";
+
+interface GroupSessionRecord {
+  code: string;
+  host_id: string;
+  restaurants: GroupSession["restaurants"];
+  quorum: number | null;
+  created_at: string;
+}
+
+interface GroupMemberRecord {
+  session_code: string;
+  participant_id: string;
+  name: string;
+  joined_at: string;
+}
+
+interface GroupVoteRecord {
+  session_code: string;
+  participant_id: string;
+  restaurant_id: string;
+  liked: boolean;
+  voted_at: string;
+}
+
+/**
+ * Group sessions stored in Supabase tables, with realtime change notifications.
+ * See SUPABASE_SETUP.md for the schema.
+ */
+export class SupabaseGroupSessionBackend implements GroupSessionBackend {
+  constructor(private client: SupabaseClient) {}
+
+  async createSession(session: GroupSession): Promise<void> {
+    const record: GroupSessionRecord = {
+      code: session.code,
+      host_id: session.hostId,
+      restaurants: session.restaurants,
+      quorum: session.quorum,
+      created_at: new Date(session.createdAt).toISOString(),
+    };
+
+    const { error } = await this.client.from("group_sessions").insert(record);
+    if (error) throw error;
+  }
+
+  async getSession(code: string): Promise<GroupSession | null> {
+    const { data, error } = await this.client
+      .from("group_sessions")
+      .select("code, host_id, restaurants, quorum, created_at")
+      .eq("code", code)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const record = data as GroupSessionRecord;
+    return {
+      code: record.code,
+      hostId: record.host_id,
+      restaurants: record.restaurants,
+      quorum: record.quorum,
+      createdAt: new Date(record.created_at).getTime(),
+    };
+  }
+
+  async addParticipant(code: string, participant: GroupParticipant): Promise<void> {
+    const record: GroupMemberRecord = {
+      session_code: code,
+      participant_id: participant.id,
+      name: participant.name,
+      joined_at: new Date(participant.joinedAt).toISOString(),
+    };
+
+    const { error } = await this.client
+      .from("group_session_members")
+      .upsert(record, { onConflict: "session_code,participant_id" });
+    if (error) throw error;
+  }
+
+  async getParticipants(code: string): Promise<GroupParticipant[]> {
+    const { data, error } = await this.client
+      .from("group_session_members")
+      .select("session_code, participant_id, name, joined_at")
+      .eq("session_code", code);
+
+    if (error) throw error;
+    return (data || []).map((record: GroupMemberRecord) => ({
+      id: record.participant_id,
+      name: record.name,
+      joinedAt: new Date(record.joined_at).getTime(),
+    }));
+  }
+
+  async saveVote(code: string, vote: GroupVote): Promise<void> {
+    const record: GroupVoteRecord = {
+      session_code: code,
+      participant_id: vote.participantId,
+      restaurant_id: vote.restaurantId,
+      liked: vote.liked,
+      voted_at: new Date(vote.votedAt).toISOString(),
+    };
+
+    const { error } = await this.client
+      .from("group_session_votes")
+      .upsert(record, { onConflict: "session_code,participant_id,restaurant_id" });
+    if (error) throw error;
+  }
+
+  async getVotes(code: string): Promise<GroupVote[]> {
+    const { data, error } = await this.client
+      .from("group_session_votes")
+      .select("session_code, participant_id, restaurant_id, liked, voted_at")
+      .eq("session_code", code);
+
+    if (error) throw error;
+    return (data || []).map((record: GroupVoteRecord) => ({
+      participantId: record.participant_id,
+      restaurantId: record.restaurant_id,
+      liked: record.liked,
+      votedAt: new Date(record.voted_at).getTime(),
+    }));
+  }
+
+  /**
+   * Listen for member and vote changes in a room
+   */
+  subscribe(code: string, onChange: () => void): () => void {
+    const filter = `session_code=eq.${code}`;
+    const channel: RealtimeChannel = this.client
+      .channel(`group-session-${code}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "group_session_members", filter }, onChange)
+      .on("postgres_changes", { event: "*", schema: "public", table: "group_session_votes", filter }, onChange)
+      .subscribe();
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Restaurant } from "../types/restaurant";
+
+const SWIPE_HISTORY_KEY = "swipe_history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SwipeDirection = "pass" | "match";
+
+// How long a swipe keeps a restaurant out of the deck. Passes come back sooner than matches.
+export const SWIPE_EXPIRY_MS: { [direction in SwipeDirection]: number } = {
+  pass: 14 * DAY_MS,
+  match: 90 * DAY_MS,
+};
+
+export interface SwipeHistoryEntry {
+  restaurantId: string;
+  restaurantName: string;
+  direction: SwipeDirection;
+  swipedAt: number;
+  createdFavorite?: boolean; // A match that added the restaurant to favorites, rather than one already there
+}
+
+// Swipes are recorded without awaiting, so updates are chained to avoid lost writes
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+export class SwipeHistoryService {
+  /**
+   * Record a pass or match. Swiping a restaurant again replaces its earlier entry.
+   */
+  static async recordSwipe(
+    restaurant: Restaurant,
+    direction: SwipeDirection,
+    details: Pick<SwipeHistoryEntry, "createdFavorite"> = {}
+  ): Promise<SwipeHistoryEntry> {
+    const entry: SwipeHistoryEntry = {
+      restaurantId: restaurant.id,
+      restaurantName: restaurant.name,
+      direction,
+      swipedAt: Date.now(),
+      ...details,
+    };
+
+    await this.update((history) => [
+      ...history.filter((item) => item.restaurantId !== restaurant.id),
+      entry,
+    ]);
+    return entry;
+  }
+
+  /**
+   * Unexpired swipes, oldest first. Expired entries are dropped from storage as a side effect.
+   */
+  static async getHistory(now: number = Date.now()): Promise<SwipeHistoryEntry[]> {
+    const stored = await this.loadHistory();
+    const active = stored.filter((entry) => !this.isExpired(entry, now));
+
+    if (active.length < stored.length) {
+      console.log(`Expired ${stored.length - active.length} swipes from history`);
+      await this.saveHistory(active);
+    }
+    return active;
+  }
+
+  /**
+   * Ids of restaurants that should stay out of the deck
+   */
+  static async getSeenRestaurantIds(): Promise<string[]> {
+    const history = await this.getHistory();
+    return history.map((entry) => entry.restaurantId);
+  }
+
+  /**
+   * Remove and return the most recent swipe, or null when there is nothing to undo
+   */
+  static async undoLastSwipe(): Promise<SwipeHistoryEntry | null> {
+    const undone: { entry: SwipeHistoryEntry | null } = { entry: null };
+    await this.update((history) => {
+      undone.entry = history[history.length - 1] || null;
+      return history.slice(0, -1);
+    });
+
+    if (undone.entry) {
+      console.log(`Undid ${undone.entry.direction} on ${undone.entry.restaurantName}`);
+    }
+    return undone.entry;
+  }
+
+  /**
+   * Forget every swipe so all restaurants can come back
+   */
+  static async clearHistory(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(SWIPE_HISTORY_KEY);
+      console.log("Swipe history cleared");
+    } catch (error) {
+      console.error("Error clearing swipe history:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a swipe is old enough for its restaurant to return to the deck
+   */
+  static isExpired(entry: SwipeHistoryEntry, now: number = Date.now()): boolean {
+    const expiry = SWIPE_EXPIRY_MS[entry.direction] ?? SWIPE_EXPIRY_MS.pass;
+    return now - entry.swipedAt > expiry;
+  }
+
+  /**
+   * Apply a change to the stored history once earlier changes have been written
+   */
+  private static update(change: (history: SwipeHistoryEntry[]) => SwipeHistoryEntry[]): Promise<void> {
+    const run = pendingUpdate.then(async () => {
+      const history = await this.getHistory();
+      await this.saveHistory(change(history));
+    });
+    pendingUpdate = run.catch(() => undefined);
+    return run;
+  }
+
+  private static async loadHistory(): Promise<SwipeHistoryEntry[]> {
+    try {
+      const historyStr = await AsyncStorage.getItem(SWIPE_HISTORY_KEY);
+      if (!historyStr) {
+        return [];
+      }
+      const parsed = JSON.parse(historyStr);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error("Error reading swipe history:", error);
+      return [];
+    }
+  }
+
+  private static async saveHistory(history: SwipeHistoryEntry[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(SWIPE_HISTORY_KEY, JSON.stringify(history));
+    } catch (error) {
+      console.error("Error saving swipe history:", error);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { SettingsService } from "./settingsService";
+
+const API_USAGE_KEY = "api_usage";
+
+// Request counts per local day ("2026-10-18") and endpoint ("geoapify/places")
+type UsageByDay = { [day: string]: { [endpoint: string]: number } };
+
+export interface UsageSummary {
+  today: number;
+  thisMonth: number;
+  todayByEndpoint: { [endpoint: string]: number };
+  monthByEndpoint: { [endpoint: string]: number };
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  exceeded?: "daily" | "monthly";
+  usage: UsageSummary;
+  dailyBudget: number;
+  monthlyBudget: number;
+}
+
+// Requests are recorded without awaiting, so updates are chained to avoid lost counts
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toDayKey = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export class UsageMeterService {
+  /**
+   * Count one request to an endpoint. Endpoints are named "<provider>/<api>" so usage can be totalled per provider.
+   */
+  static recordRequest(endpoint: string, now: number = Date.now()): Promise<void> {
+    const day = toDayKey(now);
+    const run = pendingUpdate.then(async () => {
+      const usage = await this.loadUsage();
+      const dayUsage = usage[day] || {};
+      dayUsage[endpoint] = (dayUsage[endpoint] || 0) + 1;
+      usage[day] = dayUsage;
+      await this.saveUsage(this.pruneUsage(usage, now));
+    });
+    pendingUpdate = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Requests made today and this month, optionally only to one provider's endpoints
+   */
+  static async getUsage(provider?: string, now: number = Date.now()): Promise<UsageSummary> {
+    await pendingUpdate;
+    const usage = await this.loadUsage();
+    const today = toDayKey(now);
+    const month = today.slice(0, 7);
+    const summary: UsageSummary = { today: 0, thisMonth: 0, todayByEndpoint: {}, monthByEndpoint: {} };
+
+    for (const [day, dayUsage] of Object.entries(usage)) {
+      if (!day.startsWith(month)) continue;
+
+      for (const [endpoint, count] of Object.entries(dayUsage)) {
+        if (provider && !endpoint.startsWith(`${provider}/`)) continue;
+
+        summary.thisMonth += count;
+        summary.monthByEndpoint[endpoint] = (summary.monthByEndpoint[endpoint] || 0) + count;
+        if (day === today) {
+          summary.today += count;
+          summary.todayByEndpoint[endpoint] = (summary.todayByEndpoint[endpoint] || 0) + count;
+        }
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Whether a provider can take `requests` more calls without going over the daily or monthly budget in settings
+   */
+  static async checkBudget(provider: string, requests: number, now: number = Date.now()): Promise<BudgetCheck> {
+    const [usage, settings] = await Promise.all([this.getUsage(provider, now), SettingsService.loadSettings()]);
+    const { dailyRequestBudget: dailyBudget, monthlyRequestBudget: monthlyBudget } = settings;
+
+    let exceeded: BudgetCheck["exceeded"];
+    if (usage.today + requests > dailyBudget) {
+      exceeded = "daily";
+    } else if (usage.thisMonth + requests > monthlyBudget) {
+      exceeded = "monthly";
+    }
+    return { allowed: !exceeded, exceeded, usage, dailyBudget, monthlyBudget };
+  }
+
+  /**
+   * Forget all recorded usage
+   */
+  static async clearUsage(): Promise<void> {
+    await pendingUpdate;
+    try {
+      await AsyncStorage.removeItem(API_USAGE_KEY);
+    } catch (error) {
+      console.error("Error clearing API usage:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep this month and last month; older days no longer count towards any budget
+   */
+  private static pruneUsage(usage: UsageByDay, now: number): UsageByDay {
+    const date = new Date(now);
+    const lastMonth = toDayKey(new Date(date.getFullYear(), date.getMonth() - 1, 1).getTime());
+    return Object.fromEntries(Object.entries(usage).filter(([day]) => day >= lastMonth));
+  }
+
+  private static async loadUsage(): Promise<UsageByDay> {
+    try {
+      const usageStr = await AsyncStorage.getItem(API_USAGE_KEY);
+      return usageStr ? JSON.parse(usageStr) : {};
+    } catch (error) {
+      console.error("Error reading API usage:", error);
+      return {};
+    }
+  }
+
+  private static async saveUsage(usage: UsageByDay): Promise<void> {
+    try {
+      await AsyncStorage.setItem(API_USAGE_KEY, JSON.stringify(usage));
+    } catch (error) {
+      console.error("Error saving API usage:", error);
+    }
+  }
+}
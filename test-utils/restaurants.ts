@@ -0,0 +1,18 @@
+import { Restaurant } from "../types/restaurant";
+
+// Where test restaurants sit unless a test moves them (San Francisco)
+export const TEST_ORIGIN = { latitude: 37.7749, longitude: -122.4194 };
+
+/**
+ * A minimal restaurant for tests, named after its id
+ */
+export const makeRestaurant = (id: string, overrides: Partial<Restaurant> = {}): Restaurant => ({
+  id,
+  name: `Restaurant ${id}`,
+  cuisine: "Italian",
+  image: "https://example.com/image.jpg",
+  latitude: TEST_ORIGIN.latitude,
+  longitude: TEST_ORIGIN.longitude,
+  dataSource: "api",
+  ...overrides,
+});
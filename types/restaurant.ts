@@ -1,16 +1,57 @@
 export interface Restaurant {
   id: string;
   name: string;
-  cuisine: string;
+  cuisine: string; // Primary cuisine, shown on cards
+  cuisines?: string[]; // Every cuisine the place is known for, primary first
+  cuisineConfidence?: CuisineConfidence;
   image: string;
-  rating: number;
+  rating?: number; // 0-5, absent when no source has rated the restaurant
+  ratingSource?: AttributeSource;
   latitude: number;
   longitude: number;
   description?: string;
   address?: string;
   phoneNumber?: string;
-  priceRange?: '$' | '$$' | '$$$' | '$$$$';
+  priceRange?: PriceRange;
+  priceRangeSource?: AttributeSource;
   isOpen?: boolean;
-  hours?: string;
+  hours?: string; // Raw OSM opening_hours string
+  openingHours?: OpeningHours; // Structured schedule parsed from hours
+  timezone?: RestaurantTimezone;
+  nextOpenAt?: number; // Epoch ms, computed when the restaurant was fetched
+  nextCloseAt?: number; // Epoch ms, computed when the restaurant was fetched
   dataSource: 'api' | 'user-contributed';
-}
\ No newline at end of file
+}
+
+// How the cuisine was determined: an OSM cuisine tag, a guess from the name,
+// the place category, or nothing at all
+export type CuisineConfidence = 'explicit' | 'name' | 'category' | 'unknown';
+
+export type PriceRange = '$' | '$$' | '$$$' | '$$$$';
+
+// Where a rating or price range came from. Values without a source were
+// fabricated by older app versions and are dropped when read from a cache.
+export type AttributeSource = 'osm' | 'demo';
+
+export interface TimeSpan {
+  start: number; // Minutes after local midnight
+  end: number; // Minutes after local midnight, exceeds 1440 for spans past midnight
+}
+
+export interface OpeningHours {
+  weekly: TimeSpan[][]; // Indexed by day of week, 0 = Sunday
+  publicHolidays?: TimeSpan[]; // Only set when the source has a PH rule
+}
+
+export interface RestaurantTimezone {
+  name: string; // IANA name, e.g. "America/Toronto"
+  offsetStdSeconds: number;
+  offsetDstSeconds: number;
+}
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  nextOpenAt?: number; // Epoch ms
+  nextCloseAt?: number; // Epoch ms
+  nextChange?: { day: number; minutes: number }; // Restaurant-local day and time of the next open/close
+}